@@ -7,9 +7,37 @@ import { AnalysisModal } from './components/AnalysisModal';
 import { ConfirmationModal } from './components/ConfirmationModal';
 import { ExportModal } from './components/ExportModal';
 import { AboutModal } from './components/AboutModal';
-import { ElectricalNode, NewNodeData, AnalysisResult, Project, Page, ComponentType, ConnectionStyle, PrintMetadata } from './types';
-import { DEFAULT_PROJECT, DEFAULT_CONNECTION_STYLE, DEFAULT_PRINT_METADATA } from './constants';
+import { PhaseBalanceModal } from './components/PhaseBalanceModal';
+import { VoltageDropModal } from './components/VoltageDropModal';
+import { CoordinationModal } from './components/CoordinationModal';
+import { PanelScheduleModal } from './components/PanelScheduleModal';
+import { BomModal } from './components/BomModal';
+import { RevisionsModal } from './components/RevisionsModal';
+import { MergeModal, MergeRequest } from './components/MergeModal';
+import { SearchPanel } from './components/SearchPanel';
+import { ImportPreviewModal, ImportPreview } from './components/ImportPreviewModal';
+import { ImportReportModal } from './components/ImportReportModal';
+import { HistoryPanel } from './components/HistoryPanel';
+import { moveAnnotation } from './services/annotations';
+import { createRevision, diffPages, diffHighlights, revisionPages, withRemovedNodes, DIFF_COLORS } from './services/revisions';
+import { ElectricalNode, NewNodeData, AnalysisResult, Project, Page, ComponentType, ConnectionStyle, PrintMetadata, CalculationSettings, Annotation, AnnotationKind, LinkWaypoint } from './types';
+import { DEFAULT_PROJECT, DEFAULT_CONNECTION_STYLE, BUSBAR_TYPES, SYMBOL_LIBRARIES, DEFAULT_PRINT_METADATA, DEFAULT_CALCULATION_SETTINGS } from './constants';
 import { analyzeCircuit } from './services/geminiService';
+import { calculateLoads, calculateProjectLoads } from './services/loadCalculator';
+import { searchItems, searchProjects, SearchResult } from './services/search';
+import { checkCircuit, mergeAnalysisResults } from './services/circuitRules';
+import { buildPhaseBalanceReport, PhaseReassignment } from './services/phaseBalance';
+import { calculateVoltageDrop } from './services/voltageDrop';
+import { calculateFaultLevels } from './services/shortCircuit';
+import { buildCableSuggestions, applyCableSuggestion } from './services/cableSizing';
+import { checkSelectivity, findCoordinationPair } from './services/selectivity';
+import { buildPanelSchedules } from './services/panelSchedule';
+import { writeXlsx, readXlsx, downloadXlsx } from './services/xlsx';
+import { pagesToWorkbook, workbookToPages, csvToPage, formatImportIssues, isNodeTable, pageToNodeTable, nodeTableToPage, reassignNodeIds } from './services/spreadsheet';
+import { parseCsv, toCsv, downloadCsv } from './services/documentExport';
+import { migrateProject, withSchemaVersion, SchemaIssue } from './services/projectSchema';
+import { EditHistory, EMPTY_HISTORY, HistoryScope, getPageTimeline, recordPageEdit, recordWorkspaceEdit, undoEdit, redoEdit, jumpToEntry, canUndo, canRedo } from './services/history';
+import { loadWorkspace, saveWorkspace, loadLegacyProjects, clearLegacyProjects, classifyStorageError, StorageFailure } from './services/storage';
 import { translations } from './translations';
 
 type Language = 'en' | 'he' | 'ar';
@@ -17,6 +45,15 @@ type Theme = 'light' | 'dark';
 
 // --- Helper Functions ---
 
+const ANNOTATION_TOOLS: { id: 'select' | AnnotationKind; icon: string }[] = [
+  { id: 'select', icon: 'near_me' },
+  { id: 'freehand', icon: 'gesture' },
+  { id: 'text', icon: 'title' },
+  { id: 'cloud', icon: 'cloud_queue' },
+  { id: 'arrow', icon: 'north_east' },
+  { id: 'rect', icon: 'crop_square' }
+];
+
 const generateId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
 const findNodeInTree = (node: ElectricalNode, id: string): ElectricalNode | null => {
@@ -51,6 +88,16 @@ const editNodeInTree = (currentNode: ElectricalNode, nodeId: string, updatedData
   return { ...currentNode, children: currentNode.children.map(child => editNodeInTree(child, nodeId, updatedData)) };
 };
 
+// IDs of the collapsed nodes above `id`, which keep it out of the diagram; null when it is not in the trees.
+const collapsedAncestors = (roots: ElectricalNode[], id: string): string[] | null => {
+  for (const root of roots) {
+    if (root.id === id) return [];
+    const below = collapsedAncestors(root.children, id);
+    if (below) return root.isCollapsed ? [root.id, ...below] : below;
+  }
+  return null;
+};
+
 const addExtraConnectionToTree = (currentNode: ElectricalNode, nodeId: string, targetId: string): ElectricalNode => {
   if (currentNode.id === nodeId) {
       const currentExtras = currentNode.extraConnections || [];
@@ -60,10 +107,22 @@ const addExtraConnectionToTree = (currentNode: ElectricalNode, nodeId: string, t
   return { ...currentNode, children: currentNode.children.map(child => addExtraConnectionToTree(child, nodeId, targetId)) };
 };
 
+// Waypoints are placed for where a link's two ends are, so they are dropped
+// when the link gets new ends or only one of them moves.
+const withoutRoute = (node: ElectricalNode): ElectricalNode =>
+  node.connectionStyle?.waypoints ? { ...node, connectionStyle: { ...node.connectionStyle, waypoints: undefined } } : node;
+
+const withoutExtraRoutes = (node: ElectricalNode, drop: (sourceId: string) => boolean): ElectricalNode => {
+  if (!node.extraConnectionRoutes) return node;
+  const kept = Object.entries(node.extraConnectionRoutes).filter(([sourceId]) => !drop(sourceId));
+  return { ...node, extraConnectionRoutes: kept.length > 0 ? Object.fromEntries(kept) : undefined };
+};
+
 const removeExtraConnectionFromTree = (currentNode: ElectricalNode, targetIdToRemove: string): ElectricalNode => {
     let newNode = { ...currentNode };
     if (newNode.extraConnections && newNode.extraConnections.includes(targetIdToRemove)) {
         newNode.extraConnections = newNode.extraConnections.filter(id => id !== targetIdToRemove);
+        newNode = withoutExtraRoutes(newNode, id => id === targetIdToRemove);
     }
     newNode.children = newNode.children.map(child => removeExtraConnectionFromTree(child, targetIdToRemove));
     return newNode;
@@ -83,41 +142,28 @@ const deleteNodeInTree = (currentNode: ElectricalNode, nodeIdToDelete: string):
    };
 };
 
+const nodeLabel = (node: ElectricalNode | null | undefined) => (node ? node.componentNumber || node.name : '');
+
 const cloneNodeTree = (node: ElectricalNode): ElectricalNode => {
     const newId = generateId(String(node.type));
     return {
         ...node,
         id: newId,
         children: node.children.map(child => cloneNodeTree(child)),
-        extraConnections: [] 
+        extraConnections: [],
+        extraConnectionRoutes: undefined
     };
 };
 
 export default function App() {
-  const [projects, setProjects] = useState<Project[]>(() => {
-    try {
-      const savedData = localStorage.getItem('voltgraph_data');
-      let loadedProjects = savedData ? JSON.parse(savedData) : [DEFAULT_PROJECT];
-      
-      loadedProjects = loadedProjects.map((p: any) => ({
-          ...p,
-          pages: p.pages.map((page: any) => {
-              if (page.rootNode && !page.items) {
-                  return { ...page, items: [page.rootNode], rootNode: undefined };
-              }
-              return page;
-          })
-      }));
-      
-      return loadedProjects;
-    } catch (e: any) {
-      console.error("Failed to load data from local storage", e);
-      return [DEFAULT_PROJECT];
-    }
-  });
+  // Shows what an older version left in localStorage until IndexedDB has loaded.
+  const [projects, setProjects] = useState<Project[]>(() => loadLegacyProjects() || [DEFAULT_PROJECT]);
+  const [storageReady, setStorageReady] = useState(false);
+  const [storageError, setStorageError] = useState<StorageFailure | null>(null);
+  const [saveAttempt, setSaveAttempt] = useState(0);
 
-  const [history, setHistory] = useState<Project[][]>([]);
-  const [future, setFuture] = useState<Project[][]>([]);
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [showHistory, setShowHistory] = useState(false);
 
   const [activeProjectId, setActiveProjectId] = useState<string>(projects[0].id);
   const [activePageId, setActivePageId] = useState<string>(projects[0].pages[0].id);
@@ -131,25 +177,43 @@ export default function App() {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [showAnalysis, setShowAnalysis] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [aiStatus, setAiStatus] = useState<'pending' | 'done' | 'unavailable'>('pending');
   const [searchTerm, setSearchTerm] = useState('');
+  const [showSearchResults, setShowSearchResults] = useState(false);
+  const [focusRequest, setFocusRequest] = useState<{ nodeId: string; key: number } | null>(null);
   const [orientation, setOrientation] = useState<'horizontal' | 'vertical'>('horizontal');
   const [showProjectSidebar, setShowProjectSidebar] = useState(true);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [pendingExport, setPendingExport] = useState<'svg' | 'png' | 'pdf' | null>(null);
   const [showAboutModal, setShowAboutModal] = useState(false);
   const [isPrintMode, setIsPrintMode] = useState(false);
   const [printSettingsFocus, setPrintSettingsFocus] = useState<string | undefined>(undefined);
   const [isCleanView, setIsCleanView] = useState(false);
   const [isLayoutLocked, setIsLayoutLocked] = useState(true);
+  const [showLoads, setShowLoads] = useState(true);
+  const [showVoltageDrops, setShowVoltageDrops] = useState(true);
   
   const [activeFilters, setActiveFilters] = useState<Set<string>>(new Set());
   
-  const [annotations, setAnnotations] = useState<{id: string, path: string, color: string}[]>([]);
   const [isAnnotating, setIsAnnotating] = useState(false);
+  const [annotationTool, setAnnotationTool] = useState<'select' | AnnotationKind>('freehand');
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
   const [annotationColor, setAnnotationColor] = useState('#ef4444');
   
   const [language, setLanguage] = useState<Language>('en');
   const [theme, setTheme] = useState<Theme>('light');
   const [showAddIndependentMenu, setShowAddIndependentMenu] = useState(false);
+  const [showToolsMenu, setShowToolsMenu] = useState(false);
+  const [showPhaseBalance, setShowPhaseBalance] = useState(false);
+  const [showVoltageDrop, setShowVoltageDrop] = useState(false);
+  const [showCoordination, setShowCoordination] = useState(false);
+  const [showPanelSchedule, setShowPanelSchedule] = useState(false);
+  const [showBom, setShowBom] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [mergeRequest, setMergeRequest] = useState<MergeRequest | null>(null);
+  const [revisionCompare, setRevisionCompare] = useState<{ fromId: string; toId: string } | null>(null);
+  const [importReport, setImportReport] = useState<{ fileName: string; issues: SchemaIssue[] } | null>(null);
+  const [csvImportPreview, setCsvImportPreview] = useState<ImportPreview | null>(null);
 
   const t = translations[language] as any;
   const isRTL = language === 'he' || language === 'ar';
@@ -187,11 +251,6 @@ export default function App() {
     });
   };
 
-  const handleAnnotationAdd = (path: string, color: string) => {
-    setAnnotations(prev => [...prev, { id: generateId('ant'), path, color }]);
-  };
-
-  const handleClearAnnotations = () => setAnnotations([]);
   
   const toggleFilter = (filterKey: string) => {
       setActiveFilters(prev => {
@@ -205,28 +264,40 @@ export default function App() {
       });
   };
 
-  const saveToHistory = useCallback(() => {
-    setHistory(prev => [...prev, JSON.parse(JSON.stringify(projects))]);
-    setFuture([]);
+  const actionLabel = useCallback((key: string, values: Record<string, string | number> = {}) =>
+    Object.entries(values).reduce((label, [name, value]) => label.replace(`{${name}}`, String(value)), t.history.actions[key] as string),
+  [t]);
+
+  const recordEdit = useCallback((label: string, pageId: string = activePageId) => {
+    setHistory(prev => recordPageEdit(prev, projects, pageId, label));
+  }, [projects, activePageId]);
+
+  const recordStructureChange = useCallback((label: string) => {
+    setHistory(prev => recordWorkspaceEdit(prev, projects, label));
   }, [projects]);
 
+  const applyHistoryStep = useCallback((result: { history: EditHistory; projects: Project[] } | null) => {
+    if (!result) return;
+    setHistory(result.history);
+    setProjects(result.projects);
+    setSelectedNode(null);
+    // A workspace step may remove the page or project being viewed.
+    const project = result.projects.find(p => p.id === activeProjectId) || result.projects[0];
+    setActiveProjectId(project.id);
+    if (!project.pages.some(p => p.id === activePageId)) setActivePageId(project.pages[0].id);
+  }, [activeProjectId, activePageId]);
+
   const handleUndo = useCallback(() => {
-    if (history.length === 0) return;
-    const previousState = history[history.length - 1];
-    const newHistory = history.slice(0, -1);
-    setFuture(prev => [JSON.parse(JSON.stringify(projects)), ...prev]);
-    setProjects(previousState);
-    setHistory(newHistory);
-  }, [history, projects]);
+    applyHistoryStep(undoEdit(history, projects, activePageId));
+  }, [history, projects, activePageId, applyHistoryStep]);
 
   const handleRedo = useCallback(() => {
-    if (future.length === 0) return;
-    const nextState = future[0];
-    const newFuture = future.slice(1);
-    setHistory(prev => [...prev, JSON.parse(JSON.stringify(projects))]);
-    setProjects(nextState);
-    setFuture(newFuture);
-  }, [future, projects]);
+    applyHistoryStep(redoEdit(history, projects, activePageId));
+  }, [history, projects, activePageId, applyHistoryStep]);
+
+  const handleJumpToHistory = (scope: HistoryScope, position: number) => {
+    applyHistoryStep(jumpToEntry(history, projects, scope, activePageId, position));
+  };
 
   const updatePage = useCallback((updater: (page: Page) => Page) => {
       setProjects(prevProjects => {
@@ -243,6 +314,48 @@ export default function App() {
       });
   }, [activeProjectId, activePageId]);
 
+  const updateAnnotations = (updater: (annotations: Annotation[]) => Annotation[]) =>
+      updatePage(page => ({ ...page, annotations: updater(page.annotations || []) }));
+
+  const handleAnnotationAdd = (annotation: Omit<Annotation, 'id'>) => {
+      let text = annotation.text;
+      if (annotation.kind === 'text') {
+          text = prompt(t.annotations.textPrompt)?.trim();
+          if (!text) return;
+      }
+      const id = generateId('ant');
+      recordEdit(actionLabel('annotationAdd'));
+      updateAnnotations(prev => [...prev, { ...annotation, ...(text ? { text } : {}), id }]);
+  };
+
+  const handleAnnotationMove = (id: string, dx: number, dy: number) => {
+      recordEdit(actionLabel('annotationMove'));
+      updateAnnotations(prev => prev.map(a => a.id === id ? moveAnnotation(a, dx, dy) : a));
+  };
+
+  const handleAnnotationEdit = (id: string) => {
+      const annotation = activePage.annotations?.find(a => a.id === id);
+      if (!annotation) return;
+      const text = prompt(t.annotations.textPrompt, annotation.text || '')?.trim();
+      if (text === undefined) return;
+      recordEdit(actionLabel(text ? 'annotationEdit' : 'annotationDelete'));
+      updateAnnotations(prev => text ? prev.map(a => a.id === id ? { ...a, text } : a) : prev.filter(a => a.id !== id));
+  };
+
+  const handleDeleteAnnotation = () => {
+      if (!selectedAnnotationId) return;
+      recordEdit(actionLabel('annotationDelete'));
+      updateAnnotations(prev => prev.filter(a => a.id !== selectedAnnotationId));
+      setSelectedAnnotationId(null);
+  };
+
+  const handleClearAnnotations = () => {
+      if (!activePage.annotations?.length || !confirm(t.dialogs.clearAnnotations)) return;
+      recordEdit(actionLabel('annotationsClear'));
+      updateAnnotations(() => []);
+      setSelectedAnnotationId(null);
+  };
+
   const handleUpdatePrintMetadata = useCallback((metadata: PrintMetadata) => {
       setProjects(prev => prev.map(p => {
           if (p.id !== activeProjectId) return p;
@@ -250,6 +363,45 @@ export default function App() {
       }));
   }, [activeProjectId]);
 
+  // Issuing a revision also puts its name in the title block.
+  const handleCreateRevision = (name: string) => {
+      recordStructureChange(actionLabel('issueRevision', { name }));
+      setProjects(prev => prev.map(p => {
+          if (p.id !== activeProjectId) return p;
+          return {
+              ...p,
+              revisions: [...(p.revisions || []), createRevision(p, name, generateId('rev'))],
+              printMetadata: { ...(p.printMetadata || DEFAULT_PRINT_METADATA), revision: name }
+          };
+      }));
+  };
+
+  const handleDeleteRevision = (revisionId: string) => {
+      const revision = activeProject.revisions?.find(r => r.id === revisionId);
+      if (!revision) return;
+      recordStructureChange(actionLabel('deleteRevision', { name: revision.name }));
+      setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, revisions: (p.revisions || []).filter(r => r.id !== revisionId) } : p));
+      if (revisionCompare && (revisionCompare.fromId === revisionId || revisionCompare.toId === revisionId)) setRevisionCompare(null);
+  };
+
+  const handleUpdateCalculationSettings = useCallback((settings: Partial<CalculationSettings>) => {
+      setProjects(prev => prev.map(p => {
+          if (p.id !== activeProjectId) return p;
+          return { ...p, calculationSettings: { ...DEFAULT_CALCULATION_SETTINGS, ...p.calculationSettings, ...settings } };
+      }));
+  }, [activeProjectId]);
+
+  const symbolLibrary = activeProject.symbolLibrary || 'cards';
+  const symbolLibraryTitle = t.symbolLibrary.replace('{name}', t.symbolLibraries[symbolLibrary]);
+
+  const handleCycleSymbolLibrary = useCallback(() => {
+      setProjects(prev => prev.map(p => {
+          if (p.id !== activeProjectId) return p;
+          const current = SYMBOL_LIBRARIES.indexOf(p.symbolLibrary || 'cards');
+          return { ...p, symbolLibrary: SYMBOL_LIBRARIES[(current + 1) % SYMBOL_LIBRARIES.length] };
+      }));
+  }, [activeProjectId]);
+
   const handleUpdateProjectName = useCallback((name: string) => {
       setProjects(prev => prev.map(p => {
           if (p.id !== activeProjectId) return p;
@@ -273,10 +425,10 @@ export default function App() {
 
   const handlePaste = useCallback(() => {
       if (!clipboard) return;
-      saveToHistory();
+      recordEdit(actionLabel('paste', { name: nodeLabel(clipboard) }));
       
       const nodeToClone = clipboard as ElectricalNode;
-      const newNode = cloneNodeTree(nodeToClone);
+      const newNode = withoutRoute(cloneNodeTree(nodeToClone));
       newNode.name = `${newNode.name} (Copy)`;
 
       updatePage((page) => {
@@ -288,11 +440,11 @@ export default function App() {
               return { ...page, items: [...page.items, newNode] };
           }
       });
-  }, [clipboard, selectedNode, saveToHistory, updatePage]); 
+  }, [clipboard, selectedNode, recordEdit, actionLabel, updatePage]); 
 
   const executeBulkDelete = (idsToDelete: Set<string>) => {
       if (idsToDelete.size === 0) return;
-      saveToHistory();
+      recordEdit(actionLabel('deleteMany', { count: idsToDelete.size }));
 
       updatePage((page) => {
           let newItems = page.items.filter(item => !idsToDelete.has(item.id));
@@ -304,7 +456,7 @@ export default function App() {
           });
           newItems = newItems.map(filterChildren);
           const cleanConnections = (node: ElectricalNode): ElectricalNode => ({
-              ...node,
+              ...withoutExtraRoutes(node, id => idsToDelete.has(id)),
               extraConnections: node.extraConnections?.filter(id => !idsToDelete.has(id)),
               children: node.children.map(cleanConnections)
           });
@@ -319,7 +471,7 @@ export default function App() {
   };
 
   const executeDeleteNode = (node: ElectricalNode) => {
-      saveToHistory(); 
+      recordEdit(actionLabel('delete', { name: nodeLabel(node) })); 
       updatePage((page) => {
           let newItems;
           if (page.items.some(n => n.id === node.id)) {
@@ -349,14 +501,14 @@ export default function App() {
       const childId = selectedNode.id;
       const parentId = selectedLinkParentId;
       
-      saveToHistory();
+      recordEdit(actionLabel('disconnect', { name: nodeLabel(selectedNode) }));
       
       updatePage((page) => {
           const child = findNode(page.items, childId);
           if (child && child.extraConnections?.includes(parentId)) {
               const removeExtra = (n: ElectricalNode): ElectricalNode => {
                   if (n.id === childId) {
-                      return { ...n, extraConnections: n.extraConnections?.filter(id => id !== parentId) };
+                      return { ...withoutExtraRoutes(n, id => id === parentId), extraConnections: n.extraConnections?.filter(id => id !== parentId) };
                   }
                   return { ...n, children: n.children.map(removeExtra) };
               };
@@ -376,7 +528,7 @@ export default function App() {
              return remove(root);
           });
 
-          return { ...page, items: [...newItemsWithRemoval, freshChild] };
+          return { ...page, items: [...newItemsWithRemoval, withoutRoute(freshChild)] };
       });
 
       setSelectedNode(null);
@@ -411,7 +563,9 @@ export default function App() {
           }
           
           if (e.key === 'Delete' || e.key === 'Backspace') {
-             if (multiSelection.size > 0) {
+             if (isAnnotating && selectedAnnotationId) {
+                 handleDeleteAnnotation();
+             } else if (multiSelection.size > 0) {
                  if(window.confirm(`${t.dialogs.deleteNode}`)) { 
                      executeBulkDelete(multiSelection);
                  }
@@ -457,21 +611,51 @@ export default function App() {
       handleCopy, 
       handlePaste, 
       t, 
-      isCleanView
-  ]); 
+      isCleanView,
+      isAnnotating,
+      selectedAnnotationId
+  ]);
+
+  useEffect(() => {
+      setSelectedAnnotationId(null);
+  }, [activePageId, isAnnotating]); 
+
+  useEffect(() => {
+    loadWorkspace()
+      .then(stored => {
+        if (stored && stored.projects.length > 0) {
+          setProjects(stored.projects);
+          setActiveProjectId(stored.projects[0].id);
+          setActivePageId(stored.projects[0].pages[0].id);
+          if (stored.history) setHistory(stored.history);
+        }
+      })
+      .catch((e: any) => {
+        console.error("Failed to load projects from IndexedDB", e);
+        setStorageError(classifyStorageError(e));
+      })
+      .finally(() => setStorageReady(true));
+  }, []);
 
   useEffect(() => {
+    if (!storageReady) return;
     setSaveStatus('saving');
     const timer = setTimeout(() => {
-      try {
-        localStorage.setItem('voltgraph_data', JSON.stringify(projects));
-        setSaveStatus('saved');
-      } catch (e: any) {
-        setSaveStatus('unsaved');
-      }
-    }, 1000); 
+      saveWorkspace(projects, history)
+        .then(() => {
+          setSaveStatus('saved');
+          setStorageError(null);
+          // The first successful save completes the move out of localStorage.
+          clearLegacyProjects();
+        })
+        .catch((e: any) => {
+          console.error("Failed to save projects", e);
+          setSaveStatus('unsaved');
+          setStorageError(classifyStorageError(e));
+        });
+    }, 1000);
     return () => clearTimeout(timer);
-  }, [projects]);
+  }, [projects, history, storageReady, saveAttempt]);
 
   useEffect(() => {
       document.documentElement.dir = isRTL ? 'rtl' : 'ltr';
@@ -507,7 +691,7 @@ export default function App() {
       const targetChildNode = findNode(activePage.items, childId);
       if (!targetChildNode) return;
       const isTargetChildRoot = activePage.items.some(root => root.id === childId);
-      saveToHistory();
+      recordEdit(actionLabel('connect', { name: nodeLabel(targetChildNode) }));
       updatePage((page) => {
           if (isTargetChildRoot) {
               let items = [...page.items];
@@ -519,7 +703,7 @@ export default function App() {
                   : getRandomHexColor();
               const updatedNode = {
                   ...movedNodeData,
-                  connectionStyle: { ...movedNodeData.connectionStyle, strokeColor: connectionColor }
+                  connectionStyle: { ...movedNodeData.connectionStyle, strokeColor: connectionColor, waypoints: undefined }
               };
               items = items.map(root => addNodeToTree(root, parentId, updatedNode));
               return { ...page, items };
@@ -580,12 +764,12 @@ export default function App() {
 
   const handleDetachNode = (nodeId: string) => {
       if(confirm(`${t.dialogs.detach}`)) {
-          saveToHistory();
+          recordEdit(actionLabel('detach', { name: nodeLabel(findNode(activePage.items, nodeId)) }));
           updatePage((page) => {
              const node = findNode(page.items, nodeId);
              if (!node) return page;
              let items = page.items.map(root => deleteNodeInTree(root, nodeId));
-             items.push(node);
+             items.push(withoutRoute(node));
              return { ...page, items };
           });
       }
@@ -608,8 +792,46 @@ export default function App() {
       }
   };
 
+  // Opens the page a node lives on, expands what hides it, selects it and pans the diagram to it.
+  const jumpToNode = (projectId: string, pageId: string, node: ElectricalNode) => {
+      const page = projects.find(p => p.id === projectId)?.pages.find(p => p.id === pageId);
+      const collapsed = (page && collapsedAncestors(page.items, node.id)) || [];
+      if (collapsed.length > 0) {
+          setProjects(prev => prev.map(p => p.id !== projectId ? p : {
+              ...p,
+              pages: p.pages.map(pg => pg.id !== pageId ? pg : {
+                  ...pg,
+                  items: collapsed.reduce((items, id) => items.map(root => editNodeInTree(root, id, { isCollapsed: false })), pg.items)
+              })
+          }));
+      }
+      setActiveProjectId(projectId);
+      setActivePageId(pageId);
+      setSelectedNode(node);
+      setMultiSelection(new Set<string>([node.id]));
+      setSelectionMode('node');
+      setIsConnectMode(false);
+      setConnectionSource(null);
+      setFocusRequest({ nodeId: node.id, key: Date.now() });
+  };
+
+  // Follows an off-page connector to the node it references, switching page when needed.
+  const handleNavigateOffPage = (targetId: string) => {
+      const page = activeProject.pages.find(p => findNode(p.items, targetId));
+      if (!page) {
+          alert(t.offPage.missing);
+          return;
+      }
+      jumpToNode(activeProjectId, page.id, findNode(page.items, targetId)!);
+  };
+
+  const handleSelectSearchResult = (result: SearchResult) => {
+      setShowSearchResults(false);
+      jumpToNode(result.projectId, result.pageId, result.node);
+  };
+
   const handleAddIndependentNode = (type: ComponentType) => {
-      saveToHistory();
+      recordEdit(actionLabel('add', { name: t.componentTypes[type] }));
       setShowAddIndependentMenu(false);
       let name = t.componentTypes[type] as string;
       let desc = 'Independent Node';
@@ -619,6 +841,7 @@ export default function App() {
           case ComponentType.TRANSFORMER: desc = t.defaultDesc.trans; break;
           case ComponentType.LOAD: desc = t.defaultDesc.load; break;
           case ComponentType.UPS: desc = t.defaultDesc.ups; break;
+          case ComponentType.OFF_PAGE_CONNECTOR: desc = ''; break;
       }
       const newNode: ElectricalNode = {
         id: generateId(String(type).toLowerCase()),
@@ -643,7 +866,7 @@ export default function App() {
 
   const handleAddNode = (data: NewNodeData) => {
     if (!selectedNode) return;
-    saveToHistory();
+    recordEdit(actionLabel('add', { name: data.componentNumber || data.name }));
     updatePage((page) => {
         const currentParentNode = findNode(page.items, selectedNode.id) || selectedNode;
         let connectionColor = getRandomHexColor();
@@ -677,6 +900,14 @@ export default function App() {
             generatorName: data.generatorName,
             isAirConditioning: data.isAirConditioning,
             isReserved: data.isReserved,
+            offPageTarget: data.type === ComponentType.OFF_PAGE_CONNECTOR ? data.offPageTarget : undefined,
+            busbar: BUSBAR_TYPES.includes(data.type) ? data.busbar : undefined,
+            phaseType: data.phaseType,
+            phase: data.phaseType === 'single' ? data.phase : undefined,
+            impedancePercent: data.impedancePercent,
+            faultLevel: data.faultLevel,
+            breakingCapacity: data.breakingCapacity,
+            tripSettings: data.tripSettings,
             children: [],
             extraConnections: [],
             connectionStyle: { ...DEFAULT_CONNECTION_STYLE, strokeColor: connectionColor },
@@ -688,7 +919,7 @@ export default function App() {
   };
 
   const handleAddDuplicatedChild = (node: ElectricalNode) => {
-      saveToHistory();
+      recordEdit(actionLabel('duplicate', { name: nodeLabel(node) }));
        let connectionColor = getRandomHexColor();
        const findParent = (n: ElectricalNode, childId: string): ElectricalNode | null => {
            if (n.children.some(c => c.id === childId)) return n;
@@ -724,7 +955,7 @@ export default function App() {
 
   const handleEditNode = (data: NewNodeData) => {
     if (!selectedNode) return;
-    saveToHistory();
+    recordEdit(actionLabel('edit', { name: nodeLabel(selectedNode) }));
     updatePage((page) => {
         const items = page.items.map(root => editNodeInTree(root, selectedNode.id, {
             name: data.name || selectedNode.name,
@@ -747,6 +978,14 @@ export default function App() {
             isExcludedFromMeter: data.isExcludedFromMeter,
             isAirConditioning: data.isAirConditioning,
             isReserved: data.isReserved,
+            offPageTarget: data.type === ComponentType.OFF_PAGE_CONNECTOR ? data.offPageTarget : undefined,
+            busbar: BUSBAR_TYPES.includes(data.type) ? data.busbar : undefined,
+            phaseType: data.phaseType,
+            phase: data.phaseType === 'single' ? data.phase : undefined,
+            impedancePercent: data.impedancePercent,
+            faultLevel: data.faultLevel,
+            breakingCapacity: data.breakingCapacity,
+            tripSettings: data.tripSettings,
             shape: data.shape,
             customImage: data.customImage
         }));
@@ -757,7 +996,7 @@ export default function App() {
   };
 
   const handleBulkEdit = (updates: Partial<NewNodeData>) => {
-      saveToHistory();
+      recordEdit(actionLabel('editMany', { count: multiSelection.size }));
       updatePage((page) => {
           let items = page.items;
           multiSelection.forEach(id => {
@@ -767,9 +1006,20 @@ export default function App() {
       });
   };
 
+  const handleApplyPhaseSuggestions = (suggestions: PhaseReassignment[]) => {
+      recordEdit(actionLabel('phaseBalance'));
+      updatePage((page) => {
+          let items = page.items;
+          suggestions.forEach(s => {
+              items = items.map(root => editNodeInTree(root, s.nodeId, { phaseType: 'single', phase: s.to }));
+          });
+          return { ...page, items };
+      });
+  };
+
   const updateNodeConnectionStyle = (newStyle: ConnectionStyle) => {
       if (!selectedNode) return;
-      saveToHistory();
+      recordEdit(actionLabel('linkStyle', { name: nodeLabel(selectedNode) }));
       updatePage((page) => {
           const items = page.items.map(root => editNodeInTree(root, selectedNode.id, {
               connectionStyle: newStyle
@@ -778,27 +1028,52 @@ export default function App() {
       });
   };
 
+  const handleLinkRoute = (sourceId: string, targetId: string, waypoints?: LinkWaypoint[]) => {
+      const target = findNode(activePage.items, targetId);
+      if (!target) return;
+      recordEdit(actionLabel('linkRoute', { name: nodeLabel(target) }));
+      const isTreeLink = !!findNode(activePage.items, sourceId)?.children.some(c => c.id === targetId);
+      if (!isTreeLink && target.extraConnections?.includes(sourceId)) {
+          const routes = withoutExtraRoutes(target, id => id === sourceId).extraConnectionRoutes;
+          const extraConnectionRoutes = waypoints ? { ...routes, [sourceId]: waypoints } : routes;
+          updatePage((page) => ({ ...page, items: page.items.map(root => editNodeInTree(root, targetId, { extraConnectionRoutes })) }));
+          return;
+      }
+      const connectionStyle = { ...(target.connectionStyle || DEFAULT_CONNECTION_STYLE), waypoints };
+      updatePage((page) => {
+          const items = page.items.map(root => editNodeInTree(root, targetId, { connectionStyle }));
+          return { ...page, items };
+      });
+      // Keep the link panel in step, or its next style change would bring back the old route.
+      if (selectionMode === 'link' && selectedNode?.id === targetId) {
+          setSelectedNode({ ...target, connectionStyle });
+      }
+  };
+
   const handleNodeMove = (updates: {id: string, x: number, y: number}[]) => {
-      saveToHistory();
+      recordEdit(actionLabel('move', { count: updates.length }));
       const updateMap = new Map(updates.map(u => [u.id, u]));
       updatePage((page) => {
-          const updateTree = (node: ElectricalNode): ElectricalNode => {
+          const updateTree = (node: ElectricalNode, parentId: string | null): ElectricalNode => {
               const update = updateMap.get(node.id);
               let newNode = node;
               if (update) {
                   newNode = { ...node, manualX: update.x, manualY: update.y };
               }
+              // Links moved with both ends keep their route; links into or out of the moved nodes do not.
+              if (parentId && updateMap.has(parentId) !== !!update) newNode = withoutRoute(newNode);
+              newNode = withoutExtraRoutes(newNode, sourceId => updateMap.has(sourceId) !== !!update);
               return {
                   ...newNode,
-                  children: newNode.children.map(updateTree)
+                  children: newNode.children.map(child => updateTree(child, node.id))
               };
           };
-          return { ...page, items: page.items.map(updateTree) };
+          return { ...page, items: page.items.map(root => updateTree(root, null)) };
       });
   };
 
   const handleToggleCollapse = (node: ElectricalNode) => {
-      saveToHistory();
+      recordEdit(actionLabel(node.isCollapsed ? 'expand' : 'collapse', { name: nodeLabel(node) }));
       updatePage((page) => {
          const items = page.items.map(root => editNodeInTree(root, node.id, {
              isCollapsed: !node.isCollapsed
@@ -809,7 +1084,7 @@ export default function App() {
 
   const handleGroupNode = (nodeToGroup: ElectricalNode) => {
       if (nodeToGroup.type === ComponentType.SYSTEM_ROOT) return;
-      saveToHistory();
+      recordEdit(actionLabel('group', { name: nodeLabel(nodeToGroup) }));
       updatePage((page) => {
           const newGroupId = `GROUP-${Date.now()}`;
           const groupNode: ElectricalNode = {
@@ -817,9 +1092,9 @@ export default function App() {
               name: 'New Group',
               type: ComponentType.DISTRIBUTION_BOARD,
               description: 'Grouped Components',
-              children: [nodeToGroup],
+              children: [withoutRoute(nodeToGroup)],
               extraConnections: [],
-              connectionStyle: nodeToGroup.connectionStyle,
+              connectionStyle: nodeToGroup.connectionStyle && { ...nodeToGroup.connectionStyle, waypoints: undefined },
               isCollapsed: false,
               place: nodeToGroup.place,
               building: nodeToGroup.building,
@@ -841,14 +1116,18 @@ export default function App() {
         alert("Diagram not found.");
         return;
     }
+    const localResult = checkCircuit(activePage.items, t);
     setShowAnalysis(true);
     setIsAnalyzing(true);
-    setAnalysisResult(null);
+    setAiStatus('pending');
+    setAnalysisResult(localResult);
     try {
-      const result = await analyzeCircuit(activePage.items);
-      setAnalysisResult(result);
+      const aiResult = await analyzeCircuit(activePage.items);
+      setAnalysisResult(mergeAnalysisResults(localResult, aiResult));
+      setAiStatus('done');
     } catch (err: any) {
       console.error(err);
+      setAiStatus('unavailable');
     } finally {
       setIsAnalyzing(false);
     }
@@ -867,7 +1146,7 @@ export default function App() {
       cloneGroup.setAttribute('transform', 'translate(0,0) scale(1)');
 
       // 3. Remove temporary/UI elements that shouldn't be in the export
-      clone.querySelectorAll('.action-buttons, .temp-drawing, .print-layout-edit-btn, .link-hit').forEach(el => el.remove());
+      clone.querySelectorAll('.action-buttons, .temp-drawing, .print-layout-edit-btn, .link-hit, .annotation-hit, .annotation-selection, .offpage-nav, .focus-pulse').forEach(el => el.remove());
 
       // 4. Browsers need the element in the DOM to calculate BBox accurately
       const hiddenContainer = document.createElement('div');
@@ -931,77 +1210,52 @@ export default function App() {
   };
 
   const handleBackupAll = () => {
-      const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(projects, null, 2));
+      const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(projects.map(withSchemaVersion), null, 2));
       const date = new Date().toISOString().slice(0, 10);
       triggerDownload(dataStr, `VoltGraph_FullBackup_${date}.json`);
   };
 
   const handleDownloadProject = (project: Project) => {
       const safeName = project.name.trim().replace(/[^\w\u0590-\u05FF\u0600-\u06FF\s-]/g, '_');
-      const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(project, null, 2));
+      const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(withSchemaVersion(project), null, 2));
       triggerDownload(dataStr, `${safeName}_ProjectBackup.json`);
   };
 
-  const handleExport = async (format: 'svg' | 'png' | 'json' | 'excel' | 'pdf') => {
+  const handleExport = async (format: 'svg' | 'png' | 'json' | 'excel' | 'csv' | 'pdf') => {
       const safeProjectName = activeProject.name.trim().replace(/[^\w\u0590-\u05FF\u0600-\u06FF\s-]/g, '_');
       const safePageName = activePage.name.trim().replace(/[^\w\u0590-\u05FF\u0600-\u06FF\s-]/g, '_');
       const baseFileName = `${safeProjectName} - ${safePageName}`;
       
       if (format === 'json') {
-          const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(activeProject, null, 2));
+          const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(withSchemaVersion(activeProject), null, 2));
           triggerDownload(dataStr, `${baseFileName}.json`);
           setShowExportModal(false);
           return;
       }
       
       if (format === 'excel') {
-          const rows: any[] = [];
-          const columns = ['name', 'type', 'componentNum', 'model', 'amps', 'voltage', 'kva', 'parent', 'description', 'hasMeter', 'meterNum', 'place', 'building', 'floor'];
-          const traverse = (node: ElectricalNode, parentName: string) => {
-              const row: any = {};
-              row[t.csvHeaders.name] = node.name;
-              row[t.csvHeaders.type] = t.componentTypes[node.type] || node.type;
-              row[t.csvHeaders.componentNum] = node.componentNumber || '';
-              row[t.csvHeaders.model] = node.model || '';
-              row[t.csvHeaders.amps] = node.amps || '';
-              row[t.csvHeaders.voltage] = node.voltage || '';
-              row[t.csvHeaders.kva] = node.kva || '';
-              row[t.csvHeaders.parent] = parentName;
-              row[t.csvHeaders.description] = node.description || '';
-              row[t.csvHeaders.hasMeter] = node.hasMeter ? t.csvHeaders.yes : t.csvHeaders.no;
-              row[t.csvHeaders.meterNum] = node.meterNumber || '';
-              row[t.csvHeaders.place] = node.place || '';
-              row[t.csvHeaders.building] = node.building || '';
-              row[t.csvHeaders.floor] = node.floor || '';
-              rows.push(row);
-              node.children.forEach(child => traverse(child, node.name));
-          };
-          activePage.items.forEach(root => traverse(root, t.csvHeaders.na));
-          if (rows.length > 0) {
-              const headerMap: Record<string, string> = {
-                  'name': t.csvHeaders.name, 'type': t.csvHeaders.type, 'componentNum': t.csvHeaders.componentNum,
-                  'model': t.csvHeaders.model, 'amps': t.csvHeaders.amps, 'voltage': t.csvHeaders.voltage,
-                  'kva': t.csvHeaders.kva, 'parent': t.csvHeaders.parent, 'description': t.csvHeaders.description,
-                  'hasMeter': t.csvHeaders.hasMeter, 'meterNum': t.csvHeaders.meterNum,
-                  'place': t.csvHeaders.place, 'building': t.csvHeaders.building, 'floor': t.csvHeaders.floor
-              };
-              const headers = columns.map(k => headerMap[k]);
-              const csvContent = [
-                  headers.join(','),
-                  ...rows.map(row => headers.map(header => {
-                      const val = row[header];
-                      const valStr = val !== undefined && val !== null ? String(val) : '';
-                      return `"${valStr.replace(/"/g, '""')}"`;
-                  }).join(','))
-              ].join('\n');
-              const blob = new Blob(["\uFEFF" + csvContent], { type: 'text/csv;charset=utf-8;' });
-              const url = URL.createObjectURL(blob);
-              triggerDownload(url, `${baseFileName}.csv`);
-          }
+          downloadXlsx(writeXlsx(pagesToWorkbook(activeProject.pages, t)), `${safeProjectName}.xlsx`);
+          setShowExportModal(false);
+          return;
+      }
+
+      if (format === 'csv') {
+          const { headers, rows } = pageToNodeTable(activePage);
+          downloadCsv(toCsv(headers, rows), `${baseFileName}.csv`);
           setShowExportModal(false);
           return;
       }
 
+      // Large pages are drawn on canvas and culled to the view; the SVG is
+      // rendered in full first and exported once the diagram has updated.
+      setPendingExport(format);
+  };
+
+  const exportDiagram = (format: 'svg' | 'png' | 'pdf') => {
+      const safeProjectName = activeProject.name.trim().replace(/[^\w\u0590-\u05FF\u0600-\u06FF\s-]/g, '_');
+      const safePageName = activePage.name.trim().replace(/[^\w\u0590-\u05FF\u0600-\u06FF\s-]/g, '_');
+      const baseFileName = `${safeProjectName} - ${safePageName}`;
+
       const svgString = getFullSVGString();
       if (!svgString) return;
 
@@ -1088,67 +1342,157 @@ export default function App() {
       img.src = url;
   };
 
+  useEffect(() => {
+      if (!pendingExport) return;
+      exportDiagram(pendingExport);
+      setPendingExport(null);
+  }, [pendingExport]);
+
+  const handleImportSpreadsheet = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+        try {
+            const { pages, issues } = workbookToPages(readXlsx(new Uint8Array(reader.result as ArrayBuffer)), generateId);
+            const issueReport = issues.length > 0 ? `\n\n${t.spreadsheetImport.issuesTitle}\n${formatImportIssues(issues, t)}` : '';
+            if (pages.length === 0) {
+                alert(`${t.spreadsheetImport.empty}${issueReport}`);
+            } else {
+                recordStructureChange(actionLabel('import', { name: file.name }));
+                const project: Project = { id: generateId('proj'), name: file.name.replace(/\.xlsx$/i, ''), pages };
+                setProjects(prev => [...prev, project]);
+                setActiveProjectId(project.id);
+                setActivePageId(pages[0].id);
+                alert(`${t.spreadsheetImport.success.replace('{pages}', String(pages.length))}${issueReport}`);
+            }
+        } catch (error: any) {
+            alert(`${t.spreadsheetImport.failed}`);
+        }
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+    reader.readAsArrayBuffer(file);
+  };
+
+  const handleImportCsv = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+        if (typeof reader.result === 'string') {
+            const rows = parseCsv(reader.result);
+            const pageName = file.name.replace(/\.csv$/i, '');
+            if (isNodeTable(rows[0])) {
+                // Offer to write the edits back onto the page the table was exported from.
+                const { page, issues } = nodeTableToPage(rows, pageName, generateId);
+                const source = activeProject.pages.find(p => page.items.some(root => findNode(p.items, root.id)));
+                setCsvImportPreview({ fileName: file.name, page, issues, replacePage: source && { id: source.id, name: source.name } });
+            } else {
+                const { page, issues } = csvToPage(rows, pageName, generateId);
+                setCsvImportPreview({ fileName: file.name, page, issues });
+            }
+        }
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+    reader.readAsText(file);
+  };
+
+  const handleConfirmCsvImport = (pageName: string, replace: boolean) => {
+    if (!csvImportPreview) return;
+    const { page, replacePage } = csvImportPreview;
+    const label = actionLabel('import', { name: csvImportPreview.fileName });
+    if (replace && replacePage) {
+        recordEdit(label, replacePage.id);
+        setProjects(prev => prev.map(p => p.id === activeProjectId ? {
+            ...p,
+            pages: p.pages.map(existing => existing.id === replacePage.id ? { ...existing, items: page.items } : existing)
+        } : p));
+        setActivePageId(replacePage.id);
+    } else {
+        recordStructureChange(label);
+        // IDs from a node table may still exist on another page, so the copy gets its own.
+        const newPage: Page = { ...page, name: pageName, items: replacePage ? reassignNodeIds(page.items, generateId) : page.items };
+        setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, pages: [...p.pages, newPage] } : p));
+        setActivePageId(newPage.id);
+    }
+    setSelectedNode(null);
+    setCsvImportPreview(null);
+  };
+
   const handleImportProject = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    if (/\.xlsx$/i.test(file.name)) {
+        handleImportSpreadsheet(file);
+        return;
+    }
+    if (/\.csv$/i.test(file.name)) {
+        handleImportCsv(file);
+        return;
+    }
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = () => {
+        if (fileInputRef.current) fileInputRef.current.value = '';
+        if (typeof reader.result !== 'string') return;
+        let importedData: unknown;
         try {
-            const content = reader.result;
-            if (typeof content !== 'string') return;
-            
-            let importedData: any = JSON.parse(content);
-            if (Array.isArray(importedData)) {
-                saveToHistory();
-                const restoredProjects = importedData.map((p: any) => {
-                    if (!p.pages) return null;
-                    const migratedPages = p.pages.map((page: any) => {
-                        if (page.rootNode && !page.items) {
-                            return { ...page, items: [page.rootNode], rootNode: undefined };
-                        }
-                        return page;
-                    });
-                    return { ...p, id: generateId('proj'), pages: migratedPages };
-                }).filter(Boolean) as Project[];
-                if(restoredProjects.length > 0) {
-                    setProjects(prev => [...prev, ...restoredProjects]);
-                    alert(`${t.dialogs.restoreSuccess}`);
-                } else {
-                    alert(`${t.dialogs.importError}`);
-                }
-            } 
-            else {
-                if(importedData.pages && importedData.pages[0].rootNode && !importedData.pages[0].items) {
-                     importedData = {
-                         ...importedData,
-                         pages: importedData.pages.map((p: any) => ({
-                             ...p,
-                             items: [p.rootNode],
-                             rootNode: undefined
-                         }))
-                     };
-                }
-                if (importedData.id && importedData.pages) {
-                    saveToHistory();
-                    const exists = projects.some(p => p.id === importedData.id);
-                    if (exists) importedData = { ...importedData, id: generateId('proj') };
-                    setProjects(prev => [...prev, importedData]);
-                    setActiveProjectId(importedData.id);
-                    setActivePageId(importedData.pages[0].id);
-                } else {
-                    alert(`${t.dialogs.importError}`);
-                }
-            }
+            importedData = JSON.parse(reader.result);
         } catch (error: any) {
-            alert(`${t.dialogs.importError}`);
+            setImportReport({ fileName: file.name, issues: [{ path: [], kind: 'invalidJson', value: error.message }] });
+            return;
+        }
+
+        // A full backup is an array of projects, a single project export is one object.
+        const isBackup = Array.isArray(importedData);
+        const results = (isBackup ? importedData as unknown[] : [importedData]).map(migrateProject);
+        const issues: SchemaIssue[] = results.length > 0
+            ? results.flatMap(result => result.issues)
+            : [{ path: [], field: 'projects', kind: 'missing' }];
+        if (issues.length > 0) {
+            setImportReport({ fileName: file.name, issues });
+            return;
+        }
+
+        // Another copy of a project we already have: offer to merge the two.
+        const existing = !isBackup && projects.find(p => p.id === results[0].project!.id);
+        if (existing) {
+            setMergeRequest({ fileName: file.name, ours: existing, theirs: results[0].project! });
+            return;
+        }
+
+        recordStructureChange(actionLabel('import', { name: file.name }));
+        const imported = results.map(result => result.project!).map(project =>
+            isBackup || projects.some(p => p.id === project.id) ? { ...project, id: generateId('proj') } : project
+        );
+        setProjects(prev => [...prev, ...imported]);
+        if (isBackup) {
+            alert(`${t.dialogs.restoreSuccess}`);
+        } else {
+            setActiveProjectId(imported[0].id);
+            setActivePageId(imported[0].pages[0].id);
         }
-        if (fileInputRef.current) fileInputRef.current.value = '';
     };
     reader.readAsText(file);
   };
 
+  const handleConfirmMerge = (merged: Project) => {
+      if (!mergeRequest) return;
+      recordStructureChange(actionLabel('merge', { name: mergeRequest.fileName }));
+      setProjects(prev => prev.map(p => p.id === merged.id ? merged : p));
+      setActiveProjectId(merged.id);
+      if (!merged.pages.some(p => p.id === activePageId)) setActivePageId(merged.pages[0].id);
+      setSelectedNode(null);
+      setMergeRequest(null);
+  };
+
+  const handleImportMergeAsCopy = () => {
+      if (!mergeRequest) return;
+      recordStructureChange(actionLabel('import', { name: mergeRequest.fileName }));
+      const copy = { ...mergeRequest.theirs, id: generateId('proj') };
+      setProjects(prev => [...prev, copy]);
+      setActiveProjectId(copy.id);
+      setActivePageId(copy.pages[0].id);
+      setMergeRequest(null);
+  };
+
   const handleAddProject = () => {
-      saveToHistory();
+      recordStructureChange(actionLabel('addProject'));
       const newProj: Project = {
           id: generateId('proj'),
           name: `${t.projects} ${projects.length + 1}`,
@@ -1164,7 +1508,7 @@ export default function App() {
   };
 
   const handleAddPage = () => {
-      saveToHistory();
+      recordStructureChange(actionLabel('addPage'));
       const newPage: Page = {
         id: generateId('page'),
         name: `${t.pages} ${activeProject.pages.length + 1}`,
@@ -1177,7 +1521,7 @@ export default function App() {
   const deletePage = (projectId: string, pageId: string) => {
       const project = projects.find(p => p.id === projectId);
       if (!project || project.pages.length <= 1) { alert("Cannot delete last page."); return; }
-      saveToHistory();
+      recordStructureChange(actionLabel('deletePage', { name: project.pages.find(p => p.id === pageId)?.name || '' }));
       const newPages = project.pages.filter(p => p.id !== pageId);
       setProjects(prev => prev.map(p => p.id === projectId ? { ...p, pages: newPages } : p));
       if (activePageId === pageId) setActivePageId(newPages[0].id);
@@ -1189,7 +1533,7 @@ export default function App() {
 
   const deleteProject = (projId: string) => {
       if (projects.length <= 1) return;
-      saveToHistory();
+      recordStructureChange(actionLabel('deleteProject', { name: projects.find(p => p.id === projId)?.name || '' }));
       const newProjs = projects.filter(p => p.id !== projId);
       setProjects(newProjs);
       if (activeProjectId === projId) {
@@ -1212,12 +1556,12 @@ export default function App() {
       const projIndex = projects.findIndex(p => p.id === editingId);
       if (projIndex !== -1) {
           if(projects[projIndex].name !== editName) {
-              saveToHistory();
+              recordStructureChange(actionLabel('rename', { name: editName }));
               setProjects(prev => prev.map((p, idx) => idx === projIndex ? { ...p, name: editName } : p));
           }
       } else {
           if (activeProject.pages.some(p => p.id === editingId)) {
-               saveToHistory();
+               recordStructureChange(actionLabel('rename', { name: editName }));
                setProjects(prev => prev.map(p => {
                    if (p.id !== activeProjectId) return p;
                    return {
@@ -1233,7 +1577,7 @@ export default function App() {
 
   const handleReset = () => {
       if(confirm(`${t.dialogs.reset}`)) {
-          saveToHistory();
+          recordStructureChange(actionLabel('reset'));
           setProjects([DEFAULT_PROJECT]);
           setActiveProjectId(DEFAULT_PROJECT.id);
           setActivePageId(DEFAULT_PROJECT.pages[0].id);
@@ -1242,29 +1586,83 @@ export default function App() {
       }
   };
 
-  const searchMatches = useMemo(() => {
-    if (!searchTerm.trim()) return null;
-    const matches = new Set<string>();
-    const term = searchTerm.toLowerCase();
-    const traverse = (node: ElectricalNode) => {
-      if (
-        (node.name && node.name.toLowerCase().includes(term)) || 
-        (node.model && node.model.toLowerCase().includes(term)) ||
-        (node.componentNumber && node.componentNumber.toLowerCase().includes(term)) ||
-        (node.meterNumber && node.meterNumber.toLowerCase().includes(term)) ||
-        (node.place && node.place.toLowerCase().includes(term)) ||
-        (node.building && node.building.toLowerCase().includes(term)) ||
-        (node.floor && node.floor.toLowerCase().includes(term)) ||
-        (node.description && node.description.toLowerCase().includes(term)) ||
-        node.type.toLowerCase().includes(term)
-      ) {
-        matches.add(node.id);
-      }
-      node.children.forEach(traverse);
-    };
-    activePage.items.forEach(traverse);
-    return matches;
-  }, [activePage.items, searchTerm]);
+  const searchMatches = useMemo(() => searchItems(activePage.items, searchTerm), [activePage.items, searchTerm]);
+  const globalSearchResults = useMemo(
+      () => (showSearchResults ? searchProjects(projects, searchTerm) : []),
+      [showSearchResults, projects, searchTerm]
+  );
+
+  // Loads are calculated for the whole project so off-page connectors carry what they feed on other pages.
+  const projectLoads = useMemo(() => calculateProjectLoads(activeProject.pages), [activeProject.pages]);
+  const itemsWithLoads = projectLoads[activePageId] || activePage.items;
+
+  // Nodes an off-page connector on the active page can refer to.
+  const offPageTargets = useMemo(() => {
+      const options: { id: string; label: string }[] = [];
+      activeProject.pages.filter(page => page.id !== activePageId).forEach(page => {
+          const collect = (node: ElectricalNode) => {
+              options.push({ id: node.id, label: `${page.name} / ${nodeLabel(node)}` });
+              node.children.forEach(collect);
+          };
+          page.items.forEach(collect);
+      });
+      return options;
+  }, [activeProject.pages, activePageId]);
+
+  // Read-only view of the active page as of the compared revision, with removed nodes put back in red.
+  const revisionView = useMemo(() => {
+      if (!revisionCompare) return null;
+      const before = revisionPages(activeProject, revisionCompare.fromId);
+      const after = revisionPages(activeProject, revisionCompare.toId);
+      return {
+          items: calculateLoads(withRemovedNodes(before, after, activePageId)),
+          highlights: diffHighlights(diffPages(before, after))
+      };
+  }, [revisionCompare, activeProject, activePageId]);
+
+  useEffect(() => {
+      setRevisionCompare(null);
+  }, [activeProjectId]);
+  const phaseBalanceReport = useMemo(() => buildPhaseBalanceReport(itemsWithLoads), [itemsWithLoads]);
+  const calculationSettings = useMemo(
+      () => ({ ...DEFAULT_CALCULATION_SETTINGS, ...activeProject.calculationSettings }),
+      [activeProject.calculationSettings]
+  );
+  const voltageDropReport = useMemo(
+      () => calculateVoltageDrop(itemsWithLoads, calculationSettings.voltageDropLimit),
+      [itemsWithLoads, calculationSettings.voltageDropLimit]
+  );
+  const panelSchedules = useMemo(() => buildPanelSchedules(itemsWithLoads), [itemsWithLoads]);
+  const faultLevels = useMemo(() => calculateFaultLevels(activePage.items), [activePage.items]);
+  const cableSuggestions = useMemo(
+      () => buildCableSuggestions(itemsWithLoads, calculationSettings),
+      [itemsWithLoads, calculationSettings]
+  );
+
+  const selectivityResult = useMemo(() => {
+      if (!showCoordination || !selectedNode || selectionMode !== 'link') return null;
+      const pair = findCoordinationPair(activePage.items, selectedNode.id);
+      if (!pair) return null;
+      const fault = faultLevels[pair.downstream.id];
+      return checkSelectivity(pair.upstream, pair.downstream, fault ? fault.faultCurrentKa * 1000 : undefined);
+  }, [showCoordination, selectedNode, selectionMode, activePage.items, faultLevels]);
+
+  // Sizes every link that is undersized or has no size entered yet.
+  const handleApplyAllCableSuggestions = () => {
+      const pending = Object.values(cableSuggestions).filter(s => s.suggestedSize && (s.isUndersized || !s.currentSize));
+      if (pending.length === 0) return;
+      let items = activePage.items;
+      pending.forEach(suggestion => {
+          const node = findNode(items, suggestion.nodeId);
+          if (!node) return;
+          const style = applyCableSuggestion(node.connectionStyle || DEFAULT_CONNECTION_STYLE, suggestion);
+          items = items.map(root => editNodeInTree(root, suggestion.nodeId, { connectionStyle: style }));
+      });
+      recordEdit(actionLabel('cableSizes'));
+      updatePage((page) => ({ ...page, items }));
+      const fresh = selectedNode && findNode(items, selectedNode.id);
+      if (fresh) setSelectedNode(fresh);
+  };
 
   const handleEditPrintSettings = useCallback((focusField?: string) => {
       setIsPrintMode(true);
@@ -1304,12 +1702,38 @@ export default function App() {
                 type="text" 
                 placeholder={t.searchPlaceholder}
                 value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                onChange={(e) => { setSearchTerm(e.target.value); setShowSearchResults(true); }}
+                onFocus={() => setShowSearchResults(true)}
+                onBlur={() => setShowSearchResults(false)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Escape') setShowSearchResults(false);
+                    if (e.key === 'Enter' && globalSearchResults.length > 0) handleSelectSearchResult(globalSearchResults[0]);
+                }}
                 className="w-full bg-slate-800 border border-slate-700 rounded-full py-2 pl-10 pr-4 text-sm text-white focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all placeholder-slate-500"
             />
+            {showSearchResults && searchTerm.trim() && (
+                <SearchPanel
+                    results={globalSearchResults}
+                    activePageId={activePageId}
+                    onSelect={handleSelectSearchResult}
+                    t={t}
+                />
+            )}
         </div>
 
         <div className="flex items-center gap-3">
+             {isPrintMode && (activePage.annotations || []).length > 0 && (
+                <button
+                    onClick={() => handleUpdatePrintMetadata({
+                        ...(activeProject.printMetadata || DEFAULT_PRINT_METADATA),
+                        showAnnotations: activeProject.printMetadata?.showAnnotations === false
+                    })}
+                    className="p-2 text-slate-400 hover:text-white bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700"
+                    title={activeProject.printMetadata?.showAnnotations === false ? t.annotations.show : t.annotations.hide}
+                >
+                    <span className="material-icons-round">{activeProject.printMetadata?.showAnnotations === false ? 'visibility_off' : 'visibility'}</span>
+                </button>
+             )}
              {isPrintMode && (
                 <button 
                     onClick={() => {
@@ -1350,18 +1774,66 @@ export default function App() {
                              <span className="material-icons-round text-cyan-500">battery_charging_full</span>
                              UPS
                          </button>
+                         <button onClick={() => handleAddIndependentNode(ComponentType.OFF_PAGE_CONNECTOR)} className="w-full text-left px-4 py-3 text-sm text-slate-300 hover:bg-slate-700 hover:text-white flex items-center gap-2">
+                             <span className="material-icons-round text-teal-400">double_arrow</span>
+                             {t.componentTypes[ComponentType.OFF_PAGE_CONNECTOR]}
+                         </button>
+                    </div>
+                 )}
+             </div>
+
+             <div className="relative">
+                 <button 
+                    onClick={() => setShowToolsMenu(!showToolsMenu)}
+                    className="p-2 text-slate-400 hover:text-white bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 flex items-center gap-2"
+                    title={t.tools}
+                 >
+                     <span className="material-icons-round text-amber-400">construction</span>
+                     <span className="text-xs font-medium hidden md:block">{t.tools}</span>
+                     <span className="material-icons-round text-sm">expand_more</span>
+                 </button>
+                 {showToolsMenu && (
+                    <div className="absolute top-full right-0 mt-2 w-56 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-50 overflow-hidden animate-fadeIn">
+                         <button onClick={() => { setShowPhaseBalance(true); setShowToolsMenu(false); }} className="w-full text-left px-4 py-3 text-sm text-slate-300 hover:bg-slate-700 hover:text-white flex items-center gap-2">
+                             <span className="material-icons-round text-amber-400">balance</span>
+                             {t.phaseBalance.title}
+                         </button>
+                         <button onClick={() => { setShowVoltageDrop(true); setShowToolsMenu(false); }} className="w-full text-left px-4 py-3 text-sm text-slate-300 hover:bg-slate-700 hover:text-white flex items-center gap-2">
+                             <span className="material-icons-round text-orange-400">trending_down</span>
+                             {t.voltageDrop.title}
+                         </button>
+                         <button onClick={() => { setShowCoordination(true); setShowToolsMenu(false); }} className="w-full text-left px-4 py-3 text-sm text-slate-300 hover:bg-slate-700 hover:text-white flex items-center gap-2">
+                             <span className="material-icons-round text-blue-400">stacked_line_chart</span>
+                             {t.coordination.title}
+                         </button>
+                         <button onClick={() => { setShowPanelSchedule(true); setShowToolsMenu(false); }} className="w-full text-left px-4 py-3 text-sm text-slate-300 hover:bg-slate-700 hover:text-white flex items-center gap-2">
+                             <span className="material-icons-round text-purple-400">view_list</span>
+                             {t.panelSchedule.title}
+                         </button>
+                         <button onClick={() => { setShowBom(true); setShowToolsMenu(false); }} className="w-full text-left px-4 py-3 text-sm text-slate-300 hover:bg-slate-700 hover:text-white flex items-center gap-2">
+                             <span className="material-icons-round text-cyan-400">inventory_2</span>
+                             {t.bom.title}
+                         </button>
+                         <button onClick={() => { setShowRevisions(true); setShowToolsMenu(false); }} className="w-full text-left px-4 py-3 text-sm text-slate-300 hover:bg-slate-700 hover:text-white flex items-center gap-2">
+                             <span className="material-icons-round text-amber-400">difference</span>
+                             {t.revisions.title}
+                         </button>
                     </div>
                  )}
              </div>
 
              <div className="flex bg-slate-800 rounded-lg border border-slate-700 overflow-hidden mr-2">
-                 <button onClick={handleUndo} disabled={history.length === 0} className="px-3 py-2 text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30">
+                 <button onClick={handleUndo} disabled={!canUndo(history, activePageId)} className="px-3 py-2 text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30">
                      <span className="material-icons-round text-sm">undo</span>
                  </button>
                  <div className="w-px bg-slate-700"></div>
-                 <button onClick={handleRedo} disabled={future.length === 0} className="px-3 py-2 text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30">
+                 <button onClick={handleRedo} disabled={!canRedo(history, activePageId)} className="px-3 py-2 text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30">
                      <span className="material-icons-round text-sm">redo</span>
                  </button>
+                 <div className="w-px bg-slate-700"></div>
+                 <button onClick={() => setShowHistory(true)} className="px-3 py-2 text-slate-400 hover:text-white hover:bg-slate-700" title={t.history.open}>
+                     <span className="material-icons-round text-sm">history</span>
+                 </button>
              </div>
 
              <div className="flex bg-slate-800 rounded-lg border border-slate-700 overflow-hidden">
@@ -1427,6 +1899,27 @@ export default function App() {
                 <span className="material-icons-round transform transition-transform duration-300" style={{ rotate: orientation === 'vertical' ? '90deg' : '0deg' }}>schema</span>
             </button>
 
+             <button onClick={handleCycleSymbolLibrary} className="p-2 text-slate-400 hover:text-white bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 flex items-center gap-1" title={symbolLibraryTitle}>
+                <span className="material-icons-round">category</span>
+                {symbolLibrary !== 'cards' && <span className="text-xs font-bold">{symbolLibrary.toUpperCase()}</span>}
+            </button>
+
+             <button 
+                onClick={() => setShowLoads(prev => !prev)} 
+                className={`p-2 rounded-lg border transition-colors ${showLoads ? 'bg-emerald-600/20 text-emerald-400 border-emerald-500/50' : 'text-slate-400 hover:text-white bg-slate-800 hover:bg-slate-700 border-slate-700'}`}
+                title={t.calculateLoad}
+             >
+                <span className="material-icons-round">functions</span>
+            </button>
+
+             <button
+                onClick={() => setShowVoltageDrops(prev => !prev)}
+                className={`p-2 rounded-lg border transition-colors ${showVoltageDrops ? 'bg-amber-600/20 text-amber-400 border-amber-500/50' : 'text-slate-400 hover:text-white bg-slate-800 hover:bg-slate-700 border-slate-700'}`}
+                title={t.showVoltageDrops}
+             >
+                <span className="material-icons-round">trending_down</span>
+            </button>
+
              <button onClick={() => setShowExportModal(true)} className="p-2 text-slate-400 hover:text-white bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700">
                 <span className="material-icons-round">save_alt</span>
             </button>
@@ -1439,6 +1932,19 @@ export default function App() {
       </nav>
       )}
 
+      {storageError && (
+        <div className="bg-red-950/90 border-b border-red-800 px-6 py-2 flex items-center gap-3 text-sm text-red-200">
+            <span className="material-icons-round text-red-400">report</span>
+            <span className="flex-1">{t.storage.errors[storageError]}</span>
+            <button onClick={handleBackupAll} className="px-3 py-1 bg-red-800 hover:bg-red-700 text-white rounded flex items-center gap-1">
+                <span className="material-icons-round text-sm">archive</span>{t.storage.backup}
+            </button>
+            <button onClick={() => setSaveAttempt(n => n + 1)} className="px-3 py-1 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded border border-slate-700 flex items-center gap-1">
+                <span className="material-icons-round text-sm">refresh</span>{t.storage.retry}
+            </button>
+        </div>
+      )}
+
       <main className="flex-1 flex overflow-hidden relative">
         {/* Sidebar */}
         {showProjectSidebar && !isCleanView && (
@@ -1446,7 +1952,7 @@ export default function App() {
                 <div className="p-4 border-b border-slate-800 flex items-center justify-between">
                     <h2 className="font-bold text-slate-300 text-sm uppercase tracking-wider">{t.projects}</h2>
                     <div className="flex gap-1">
-                         <input type="file" ref={fileInputRef} onChange={handleImportProject} accept=".json" className="hidden" />
+                         <input type="file" ref={fileInputRef} onChange={handleImportProject} accept=".json,.xlsx,.csv" className="hidden" />
                          <button onClick={handleBackupAll} className="text-slate-400 hover:text-green-400 p-1 hover:bg-slate-800 rounded" title={t.backupAll}>
                             <span className="material-icons-round text-lg">archive</span>
                          </button>
@@ -1567,6 +2073,27 @@ export default function App() {
 
                     {isAnnotating && (
                         <>
+                            <div className="flex bg-slate-800 rounded-lg border border-slate-700 overflow-hidden">
+                                {ANNOTATION_TOOLS.map(tool => (
+                                    <button
+                                        key={tool.id}
+                                        onClick={() => setAnnotationTool(tool.id)}
+                                        className={`p-1.5 ${annotationTool === tool.id ? 'bg-purple-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                                        title={t.annotations.tools[tool.id]}
+                                    >
+                                        <span className="material-icons-round text-base">{tool.icon}</span>
+                                    </button>
+                                ))}
+                            </div>
+                            {selectedAnnotationId && (
+                                <button
+                                    onClick={handleDeleteAnnotation}
+                                    className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700/50 rounded-lg transition-colors"
+                                    title={t.annotations.delete}
+                                >
+                                    <span className="material-icons-round">delete</span>
+                                </button>
+                            )}
                             <input 
                                 type="color" 
                                 value={annotationColor} 
@@ -1595,6 +2122,15 @@ export default function App() {
                         <span className="material-icons-round transform transition-transform duration-300" style={{ rotate: orientation === 'vertical' ? '90deg' : '0deg' }}>schema</span>
                     </button>
 
+                    <button
+                        onClick={handleCycleSymbolLibrary}
+                        className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition-colors flex items-center gap-1"
+                        title={symbolLibraryTitle}
+                    >
+                        <span className="material-icons-round">category</span>
+                        {symbolLibrary !== 'cards' && <span className="text-xs font-bold">{symbolLibrary.toUpperCase()}</span>}
+                    </button>
+
                     <button
                         onClick={() => setTheme(prev => prev === 'light' ? 'dark' : 'light')}
                         className="p-2 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded-lg transition-colors"
@@ -1622,6 +2158,24 @@ export default function App() {
                         <span className="text-xs text-slate-500">{t.active}:</span>
                         <span className="text-sm font-medium text-slate-200">{activeProject.name} / {activePage.name}</span>
                      </div>
+                     {revisionCompare && (
+                        <div className="flex items-center gap-3 bg-slate-800 border border-slate-700 px-3 py-1 rounded text-xs text-slate-300">
+                            <span className="font-bold">
+                                {t.revisions.comparing
+                                    .replace('{from}', t.revisions.label.replace('{name}', activeProject.revisions?.find(r => r.id === revisionCompare.fromId)?.name || ''))
+                                    .replace('{to}', revisionCompare.toId === 'current' ? t.revisions.current : t.revisions.label.replace('{name}', activeProject.revisions?.find(r => r.id === revisionCompare.toId)?.name || ''))}
+                            </span>
+                            {(['added', 'removed', 'changed'] as const).map(kind => (
+                                <span key={kind} className="flex items-center gap-1">
+                                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: DIFF_COLORS[kind] }}></span>
+                                    {t.revisions.kinds[kind]}
+                                </span>
+                            ))}
+                            <button onClick={() => setRevisionCompare(null)} className="text-blue-400 hover:text-blue-300 font-medium">
+                                {t.revisions.exitCompare}
+                            </button>
+                        </div>
+                     )}
                      {isConnectMode && (
                         <div className="bg-amber-900/40 border border-amber-700/50 px-3 py-1 rounded text-xs text-amber-300 animate-pulse font-bold">
                             {connectionSource ? t.connectMode.target : t.connectMode.source}
@@ -1631,7 +2185,7 @@ export default function App() {
             )}
             <div className={`flex-1 rounded-xl border shadow-xl relative overflow-hidden ${isConnectMode ? 'border-amber-600/50 shadow-amber-900/20' : 'border-slate-800'} ${theme === 'light' ? 'bg-white' : 'bg-slate-900'}`}>
                 <Diagram 
-                    data={activePage.items} 
+                    data={revisionView ? revisionView.items : itemsWithLoads} 
                     onNodeClick={handleNodeClick} 
                     onLinkClick={handleLinkClick}
                     onDuplicateChild={handleAddDuplicatedChild}
@@ -1656,13 +2210,27 @@ export default function App() {
                     t={t}
                     language={language}
                     theme={theme}
-                    isCleanView={isCleanView}
+                    isCleanView={isCleanView || !!revisionView}
                     activeFilters={activeFilters}
-                    annotations={annotations}
+                    annotations={isPrintMode && activeProject.printMetadata?.showAnnotations === false ? [] : activePage.annotations}
                     isAnnotating={isAnnotating}
+                    annotationTool={annotationTool}
                     annotationColor={annotationColor}
+                    selectedAnnotationId={selectedAnnotationId}
                     onAnnotationAdd={handleAnnotationAdd}
+                    onAnnotationSelect={setSelectedAnnotationId}
+                    onAnnotationMove={handleAnnotationMove}
+                    onAnnotationEdit={handleAnnotationEdit}
                     isLayoutLocked={isLayoutLocked}
+                    showLoads={showLoads}
+                    showVoltageDrops={showVoltageDrops}
+                    voltageDrops={voltageDropReport.links}
+                    faultLevels={faultLevels}
+                    revisionHighlights={revisionView?.highlights}
+                    onNavigateOffPage={revisionView ? undefined : handleNavigateOffPage}
+                    onLinkRoute={handleLinkRoute}
+                    focusRequest={focusRequest}
+                    renderForExport={!!pendingExport}
                 />
             </div>
         </div>
@@ -1726,7 +2294,14 @@ export default function App() {
                                 onDetach={handleDetachNode}
                                 onStartConnection={handleStartConnection}
                                 onNavigate={handleNavigateToNode}
+                                offPageTargets={offPageTargets}
+                                onNavigateOffPage={handleNavigateOffPage}
                                 onDisconnectLink={handleDisconnectLink}
+                                cableSuggestion={selectedNode ? cableSuggestions[selectedNode.id] : undefined}
+                                onApplyAllCableSuggestions={handleApplyAllCableSuggestions}
+                                calculationSettings={calculationSettings}
+                                onCalculationSettingsChange={handleUpdateCalculationSettings}
+                                onOpenCoordination={() => setShowCoordination(true)}
                                 t={t}
                             />
                         </div>
@@ -1742,10 +2317,45 @@ export default function App() {
         )}
       </main>
 
-      <AnalysisModal isOpen={showAnalysis} onClose={() => setShowAnalysis(false)} loading={isAnalyzing} result={analysisResult} t={t} />
+      <AnalysisModal isOpen={showAnalysis} onClose={() => setShowAnalysis(false)} loading={isAnalyzing} result={analysisResult} aiStatus={aiStatus} t={t} />
       <ConfirmationModal isOpen={confirmModal.isOpen} title={confirmModal.title} message={confirmModal.message} onConfirm={confirmModal.onConfirm} onCancel={() => setConfirmModal(prev => ({ ...prev, isOpen: false }))} t={t} />
       <ExportModal isOpen={showExportModal} onClose={() => setShowExportModal(false)} onExport={handleExport} t={t} />
       <AboutModal isOpen={showAboutModal} onClose={() => setShowAboutModal(false)} t={t} />
+      <VoltageDropModal isOpen={showVoltageDrop} onClose={() => setShowVoltageDrop(false)} report={voltageDropReport} onLimitChange={(limit) => handleUpdateCalculationSettings({ voltageDropLimit: limit })} t={t} />
+      <CoordinationModal isOpen={showCoordination} onClose={() => setShowCoordination(false)} result={selectivityResult} t={t} />
+      <PanelScheduleModal isOpen={showPanelSchedule} onClose={() => setShowPanelSchedule(false)} schedules={panelSchedules} project={activeProject} dir={isRTL ? 'rtl' : 'ltr'} lang={language} t={t} />
+      <MergeModal
+        request={mergeRequest}
+        onMerge={handleConfirmMerge}
+        onImportCopy={handleImportMergeAsCopy}
+        onClose={() => setMergeRequest(null)}
+        t={t}
+      />
+      <RevisionsModal
+        isOpen={showRevisions}
+        onClose={() => setShowRevisions(false)}
+        project={activeProject}
+        onCreate={handleCreateRevision}
+        onDelete={handleDeleteRevision}
+        onShowOnDiagram={(fromId, toId) => { setRevisionCompare({ fromId, toId }); setShowRevisions(false); setSelectedNode(null); }}
+        dir={isRTL ? 'rtl' : 'ltr'}
+        lang={language}
+        t={t}
+      />
+      <BomModal isOpen={showBom} onClose={() => setShowBom(false)} project={activeProject} page={activePage} dir={isRTL ? 'rtl' : 'ltr'} lang={language} t={t} />
+      <ImportReportModal report={importReport} onClose={() => setImportReport(null)} t={t} />
+
+      <HistoryPanel
+        isOpen={showHistory}
+        pageName={activePage.name}
+        pageTimeline={getPageTimeline(history, activePageId)}
+        workspaceTimeline={history.workspace}
+        onJump={handleJumpToHistory}
+        onClose={() => setShowHistory(false)}
+        t={t}
+      />
+      <ImportPreviewModal preview={csvImportPreview} onConfirm={handleConfirmCsvImport} onClose={() => setCsvImportPreview(null)} t={t} />
+      <PhaseBalanceModal isOpen={showPhaseBalance} onClose={() => setShowPhaseBalance(false)} reports={phaseBalanceReport} onApplySuggestions={handleApplyPhaseSuggestions} t={t} />
     </div>
   );
 }
@@ -6,10 +6,11 @@ interface AnalysisModalProps {
   onClose: () => void;
   loading: boolean;
   result: AnalysisResult | null;
+  aiStatus?: 'pending' | 'done' | 'unavailable';
   t: any;
 }
 
-export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, loading, result, t }) => {
+export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, loading, result, aiStatus = 'done', t }) => {
   if (!isOpen) return null;
 
   return (
@@ -29,7 +30,7 @@ export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, l
 
         {/* Content */}
         <div className="p-6 overflow-y-auto flex-1">
-          {loading ? (
+          {loading && !result ? (
             <div className="flex flex-col items-center justify-center py-12">
               <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mb-4"></div>
               <p className="text-blue-400 font-medium animate-pulse">{t.analysis.analyzing}</p>
@@ -37,6 +38,19 @@ export const AnalysisModal: React.FC<AnalysisModalProps> = ({ isOpen, onClose, l
             </div>
           ) : result ? (
             <div className="space-y-6">
+
+              {/* AI Source */}
+              {loading ? (
+                <div className="flex items-center gap-3 p-3 rounded-lg bg-blue-500/10 border border-blue-500/30">
+                  <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+                  <p className="text-blue-400 text-xs font-medium">{t.analysis.aiPending}</p>
+                </div>
+              ) : aiStatus === 'unavailable' ? (
+                <div className="flex items-center gap-3 p-3 rounded-lg bg-slate-800 border border-slate-700">
+                  <span className="material-icons-round text-slate-400 text-base">cloud_off</span>
+                  <p className="text-slate-400 text-xs">{t.analysis.aiUnavailable}</p>
+                </div>
+              ) : null}
               
               {/* Status Banner */}
               <div className={`p-4 rounded-lg border flex items-start gap-4 ${
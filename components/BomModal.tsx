@@ -0,0 +1,149 @@
+import React, { useState, useMemo } from 'react';
+import { Project, Page } from '../types';
+import { BillOfMaterials, buildBillOfMaterials } from '../services/billOfMaterials';
+import { CellValue, toCsv, downloadCsv, renderHtmlTable, openPrintWindow, escapeHtml, safeFileName } from '../services/documentExport';
+
+interface BomModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project;
+  page: Page;
+  dir: 'ltr' | 'rtl';
+  lang: string;
+  t: any;
+}
+
+const toTables = (bom: BillOfMaterials, t: any) => {
+  const c = t.bom.columns;
+  const equipment = {
+    headers: [c.type, c.model, c.rating, c.quantity, c.references],
+    rows: bom.items.map(item => [
+      t.componentTypes[item.type] || item.type,
+      item.model,
+      [item.rating ? `${item.rating}A` : '', item.kva ? `${item.kva}kVA` : ''].filter(Boolean).join(' / '),
+      item.quantity,
+      item.references.join(', ')
+    ]) as CellValue[][]
+  };
+  const cables = {
+    headers: [c.cable, c.runs, c.length],
+    rows: bom.cables.map(cable => [
+      cable.label,
+      cable.runs,
+      cable.runsWithoutLength > 0
+        ? `${cable.totalLength} (+${cable.runsWithoutLength} ${t.bom.withoutLength})`
+        : cable.totalLength
+    ]) as CellValue[][]
+  };
+  return { equipment, cables };
+};
+
+export const BomModal: React.FC<BomModalProps> = ({ isOpen, onClose, project, page, dir, lang, t }) => {
+  const [scope, setScope] = useState<'page' | 'project'>('page');
+
+  const bom = useMemo(
+    () => (isOpen ? buildBillOfMaterials(scope === 'page' ? [page] : project.pages) : null),
+    [isOpen, scope, page, project.pages]
+  );
+
+  if (!isOpen || !bom) return null;
+
+  const tables = toTables(bom, t);
+  const scopeName = scope === 'page' ? `${project.name} - ${page.name}` : project.name;
+
+  const handleCsv = () => {
+    const rows: CellValue[][] = [
+      ...tables.equipment.rows,
+      [],
+      tables.cables.headers,
+      ...tables.cables.rows
+    ];
+    downloadCsv(toCsv(tables.equipment.headers, rows), `${safeFileName(scopeName)} - BOM.csv`);
+  };
+
+  const handlePrint = () => {
+    openPrintWindow({
+      title: `${scopeName} - ${t.bom.title}`,
+      body: `<h1>${escapeHtml(t.bom.title)}</h1>
+        <div class="meta">${escapeHtml(scopeName)}</div>
+        <h2>${escapeHtml(t.bom.equipment)}</h2>
+        ${renderHtmlTable(tables.equipment.headers, tables.equipment.rows)}
+        ${tables.cables.rows.length > 0 ? `<h2>${escapeHtml(t.bom.cables)}</h2>${renderHtmlTable(tables.cables.headers, tables.cables.rows)}` : ''}`,
+      project, t, dir, lang
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 w-full max-w-4xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800">
+          <div className="flex items-center gap-3">
+             <span className="material-icons-round text-cyan-400 text-3xl">inventory_2</span>
+             <h2 className="text-xl font-bold text-white">{t.bom.title}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto flex-1 space-y-6">
+          <div className="flex bg-slate-800 rounded-lg border border-slate-700 overflow-hidden w-fit">
+            {(['page', 'project'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setScope(option)}
+                className={`px-4 py-1.5 text-sm ${scope === option ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-700'}`}
+              >
+                {t.bom.scopes[option]}
+              </button>
+            ))}
+          </div>
+
+          {[
+            { key: 'equipment', title: t.bom.equipment, table: tables.equipment },
+            { key: 'cables', title: t.bom.cables, table: tables.cables }
+          ].map(section => (
+            <div key={section.key}>
+              <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-2">{section.title}</h3>
+              {section.table.rows.length === 0 ? (
+                <p className="text-sm text-slate-500">{t.bom.empty}</p>
+              ) : (
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-slate-400 uppercase border-b border-slate-700">
+                    <tr>{section.table.headers.map((h: string) => <th key={h} className="py-2 px-2">{h}</th>)}</tr>
+                  </thead>
+                  <tbody>
+                    {section.table.rows.map((row, i) => (
+                      <tr key={i} className="border-b border-slate-800 text-slate-300">
+                        {row.map((cell, j) => <td key={j} className="py-2 px-2">{cell}</td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 flex justify-end gap-2">
+             <button onClick={handleCsv} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded border border-slate-700 transition-colors text-sm flex items-center gap-2">
+                <span className="material-icons-round text-sm">table_view</span>CSV
+             </button>
+             <button onClick={handlePrint} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors text-sm flex items-center gap-2">
+                <span className="material-icons-round text-sm">print</span>{t.panelSchedule.print}
+             </button>
+             <button
+                onClick={onClose}
+                className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded transition-colors font-medium"
+            >
+                {t.inputPanel.close}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useMemo } from 'react';
+import * as d3 from 'd3';
+import { ElectricalNode } from '../types';
+import { SelectivityResult, TripCurvePoint, buildTripCurve, getTripSettings } from '../services/selectivity';
+
+interface CoordinationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  result: SelectivityResult | null;
+  t: any;
+}
+
+const WIDTH = 640;
+const HEIGHT = 400;
+const MARGIN = { top: 20, right: 20, bottom: 40, left: 56 };
+const TIME_RANGE: [number, number] = [0.001, 10000];
+
+const UPSTREAM_COLOR = '#f59e0b';
+const DOWNSTREAM_COLOR = '#3b82f6';
+
+const VERDICT_STYLES: Record<SelectivityResult['verdict'], string> = {
+  total: 'bg-green-500/10 text-green-400 border-green-500/30',
+  partial: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30',
+  none: 'bg-red-500/10 text-red-400 border-red-500/30'
+};
+
+const decades = (from: number, to: number) => {
+  const ticks: number[] = [];
+  for (let p = Math.floor(Math.log10(from)); p <= Math.ceil(Math.log10(to)); p++) ticks.push(10 ** p);
+  return ticks.filter(v => v >= from && v <= to);
+};
+
+const formatTick = (value: number) => value >= 1000 ? `${value / 1000}k` : String(value);
+
+const describe = (node: ElectricalNode) => {
+  const settings = getTripSettings(node);
+  const curve = settings.curve === 'electronic' ? 'LSI' : settings.curve;
+  return `${node.name} · ${curve}${node.amps}`;
+};
+
+export const CoordinationModal: React.FC<CoordinationModalProps> = ({ isOpen, onClose, result, t }) => {
+  const chart = useMemo(() => {
+    if (!result) return null;
+    const from = (result.downstream.amps || 1) * 0.8;
+    const to = result.maxCurrent * 1.5;
+    const x = d3.scaleLog().domain([from, to]).range([MARGIN.left, WIDTH - MARGIN.right]);
+    const y = d3.scaleLog().domain(TIME_RANGE).range([HEIGHT - MARGIN.bottom, MARGIN.top]);
+    const clamp = (value: number) => Math.min(Math.max(value, TIME_RANGE[0]), TIME_RANGE[1]);
+
+    const band = d3.area<TripCurvePoint>()
+      .defined(p => Number.isFinite(p.max))
+      .x(p => x(p.current))
+      .y0(p => y(clamp(p.max)))
+      .y1(p => y(clamp(p.min)));
+
+    const curve = (node: ElectricalNode) => band(buildTripCurve(node, from, to)) || '';
+
+    return {
+      x, y,
+      upstream: curve(result.upstream),
+      downstream: curve(result.downstream),
+      currentTicks: decades(from, to),
+      timeTicks: decades(TIME_RANGE[0], TIME_RANGE[1])
+    };
+  }, [result]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 w-full max-w-3xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800">
+          <div className="flex items-center gap-3">
+             <span className="material-icons-round text-blue-400 text-3xl">stacked_line_chart</span>
+             <h2 className="text-xl font-bold text-white">{t.coordination.title}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          {!result || !chart ? (
+            <div className="text-center text-slate-500">{t.coordination.selectLink}</div>
+          ) : (
+            <>
+              <div className={`p-3 rounded-lg border text-sm ${VERDICT_STYLES[result.verdict]}`}>
+                <strong>{t.coordination.verdicts[result.verdict]}</strong>
+                {result.limitCurrent !== undefined && (
+                  <span dir="ltr"> · I<sub>s</sub> ≈ {(result.limitCurrent / 1000).toFixed(2)} kA</span>
+                )}
+                <span className="text-slate-400" dir="ltr"> · {t.coordination.checkedUpTo} {(result.maxCurrent / 1000).toFixed(2)} kA</span>
+              </div>
+
+              <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full bg-slate-950 rounded-lg border border-slate-800" style={{ direction: 'ltr' }}>
+                {chart.currentTicks.map(v => (
+                  <g key={`x-${v}`}>
+                    <line x1={chart.x(v)} x2={chart.x(v)} y1={MARGIN.top} y2={HEIGHT - MARGIN.bottom} stroke="#1e293b" />
+                    <text x={chart.x(v)} y={HEIGHT - MARGIN.bottom + 16} textAnchor="middle" fontSize="10" fill="#94a3b8">{formatTick(v)}</text>
+                  </g>
+                ))}
+                {chart.timeTicks.map(v => (
+                  <g key={`y-${v}`}>
+                    <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={chart.y(v)} y2={chart.y(v)} stroke="#1e293b" />
+                    <text x={MARGIN.left - 6} y={chart.y(v) + 3} textAnchor="end" fontSize="10" fill="#94a3b8">{v}</text>
+                  </g>
+                ))}
+                <text x={(WIDTH + MARGIN.left) / 2} y={HEIGHT - 6} textAnchor="middle" fontSize="11" fill="#cbd5e1">{t.coordination.current} (A)</text>
+                <text transform={`translate(14, ${HEIGHT / 2}) rotate(-90)`} textAnchor="middle" fontSize="11" fill="#cbd5e1">{t.coordination.time} (s)</text>
+
+                <path d={chart.upstream} fill={UPSTREAM_COLOR} fillOpacity={0.35} stroke={UPSTREAM_COLOR} strokeWidth={1.5} />
+                <path d={chart.downstream} fill={DOWNSTREAM_COLOR} fillOpacity={0.35} stroke={DOWNSTREAM_COLOR} strokeWidth={1.5} />
+
+                {result.limitCurrent !== undefined && (
+                  <line
+                    x1={chart.x(result.limitCurrent)} x2={chart.x(result.limitCurrent)}
+                    y1={MARGIN.top} y2={HEIGHT - MARGIN.bottom}
+                    stroke="#ef4444" strokeDasharray="4,3"
+                  />
+                )}
+                <line
+                  x1={chart.x(result.maxCurrent)} x2={chart.x(result.maxCurrent)}
+                  y1={MARGIN.top} y2={HEIGHT - MARGIN.bottom}
+                  stroke="#a855f7" strokeDasharray="2,3"
+                />
+              </svg>
+
+              <div className="flex flex-wrap gap-4 text-xs text-slate-300">
+                <span className="flex items-center gap-2"><span className="w-3 h-3 rounded-sm" style={{ background: UPSTREAM_COLOR }}></span>{t.coordination.upstream}: {describe(result.upstream)}</span>
+                <span className="flex items-center gap-2"><span className="w-3 h-3 rounded-sm" style={{ background: DOWNSTREAM_COLOR }}></span>{t.coordination.downstream}: {describe(result.downstream)}</span>
+                <span className="flex items-center gap-2"><span className="w-3 border-t border-dashed border-purple-500"></span>{t.coordination.faultLevel}</span>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 flex justify-end">
+             <button
+                onClick={onClose}
+                className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded transition-colors font-medium"
+            >
+                {t.inputPanel.close}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
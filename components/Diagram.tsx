@@ -1,8 +1,17 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { ElectricalNode, ComponentType, Project } from '../types';
-import { COMPONENT_CONFIG, ICON_PATHS, SNAP_GRID_SIZE } from '../constants';
+import { ElectricalNode, ComponentType, Project, Annotation, AnnotationKind, LinkWaypoint } from '../types';
+import { BUSBAR_TYPES, COMPONENT_CONFIG, ICON_PATHS, SNAP_GRID_SIZE } from '../constants';
+import { LinkVoltageDrop, formatCableLabel } from '../services/voltageDrop';
+import { NodeFaultLevel } from '../services/shortCircuit';
+import { DiffHighlight, DIFF_COLORS } from '../services/revisions';
+import { annotationPath, cloudPath, isTooSmall } from '../services/annotations';
+import { measureText } from '../services/textMetrics';
+import { Bounds, CanvasScene, CANVAS_NODE_THRESHOLD, drawScene, hitTest, intersects, ViewTransform, visibleBounds } from '../services/diagramRendering';
+import { Minimap, MinimapNode, MinimapScene } from './Minimap';
+import { moveSegment, Point, RouteRequest, routeLinks, routePaths } from '../services/linkRouting';
+import { getSymbol, SYMBOL_SIZE, SymbolDefinition } from '../services/symbols';
 
 interface DiagramProps {
   data: ElectricalNode[];
@@ -32,11 +41,28 @@ interface DiagramProps {
   theme: 'light' | 'dark';
   isCleanView?: boolean;
   activeFilters?: Set<string>;
-  annotations?: {id: string, path: string, color: string}[];
+  annotations?: Annotation[];
   isAnnotating?: boolean;
+  annotationTool?: 'select' | AnnotationKind;
   annotationColor?: string;
-  onAnnotationAdd?: (path: string, color: string) => void;
+  selectedAnnotationId?: string | null;
+  onAnnotationAdd?: (annotation: Omit<Annotation, 'id'>) => void;
+  onAnnotationSelect?: (id: string | null) => void;
+  onAnnotationMove?: (id: string, dx: number, dy: number) => void;
+  onAnnotationEdit?: (id: string) => void;
   isLayoutLocked?: boolean;
+  showLoads?: boolean;
+  showVoltageDrops?: boolean;
+  voltageDrops?: Record<string, LinkVoltageDrop>;
+  faultLevels?: Record<string, NodeFaultLevel>;
+  revisionHighlights?: Record<string, DiffHighlight>;
+  onNavigateOffPage?: (targetId: string) => void;
+  /** Saves the waypoints of the link from `sourceId` into `targetId`; undefined goes back to automatic routing. */
+  onLinkRoute?: (sourceId: string, targetId: string, waypoints?: LinkWaypoint[]) => void;
+  /** Pans to a node once per request; a new `key` asks again for the same node. */
+  focusRequest?: { nodeId: string; key: number } | null;
+  /** Draws every node as SVG, ignoring the viewport, so the page can be exported. */
+  renderForExport?: boolean;
 }
 
 type ExtendedHierarchyNode = Omit<
@@ -58,6 +84,23 @@ type ExtendedHierarchyNode = Omit<
   data: ElectricalNode;
 };
 
+const BADGE_FONT = 'bold 9px';
+const LINE_DASHES: Record<string, number[]> = {
+  dashed: [8, 4],
+  dotted: [2, 4],
+  'dash-dot': [8, 4, 2, 4],
+  'long-dash': [16, 4]
+};
+const LABEL_FONT = 'bold 10px';
+// Distance from a busbar node to its bus, and how far the bus runs past the outermost child.
+const BUSBAR_GAP = 40;
+const BUSBAR_OVERHANG = 15;
+// Labels written beside single-line symbols.
+const SYMBOL_LABEL_FONT = '10px';
+const SYMBOL_LINE_HEIGHT = 13;
+// Height of the badge row under those labels, with its gap.
+const SYMBOL_BADGE_ROW = 22;
+
 type DiagramLink = {
   source: ExtendedHierarchyNode;
   target: ExtendedHierarchyNode;
@@ -93,14 +136,43 @@ export const Diagram: React.FC<DiagramProps> = ({
   activeFilters = new Set(),
   annotations = [],
   isAnnotating = false,
+  annotationTool = 'freehand',
   annotationColor = '#ef4444',
+  selectedAnnotationId = null,
   onAnnotationAdd,
-  isLayoutLocked = false
+  onAnnotationSelect,
+  onAnnotationMove,
+  onAnnotationEdit,
+  isLayoutLocked = false,
+  showLoads = false,
+  showVoltageDrops = false,
+  voltageDrops = {},
+  faultLevels = {},
+  revisionHighlights = {},
+  onNavigateOffPage,
+  onLinkRoute,
+  focusRequest = null,
+  renderForExport = false
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
   const transformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity);
+  const focusedKeyRef = useRef<number | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewportFrameRef = useRef<number | null>(null);
+  const [minimap, setMinimap] = useState<MinimapScene | null>(null);
+  const [view, setView] = useState<ViewTransform>(d3.zoomIdentity);
+  const panToRef = useRef<(x: number, y: number) => void>(() => {});
+  // Node elements are kept across renders while what they show is unchanged,
+  // so the handlers inside them read the latest callbacks and data from here.
+  const liveRef = useRef<{
+    nodes: Map<string, ExtendedHierarchyNode>;
+    onDeleteNode: (node: ElectricalNode) => void;
+    onDuplicateChild: (node: ElectricalNode) => void;
+    onToggleCollapse: (node: ElectricalNode) => void;
+    onNavigateOffPage?: (targetId: string) => void;
+  }>({ nodes: new Map(), onDeleteNode, onDuplicateChild, onToggleCollapse, onNavigateOffPage });
 
   const isRTL = language === 'he' || language === 'ar';
   const isDark = theme === 'dark';
@@ -125,6 +197,48 @@ export const Diagram: React.FC<DiagramProps> = ({
     return defaults[desc] || desc;
   };
 
+  // Off-page connectors show where they continue instead of a description:
+  // an outgoing one the node it feeds, an incoming one (with children) its source.
+  const getNodeDescription = (node: ElectricalNode) => {
+    if (node.type !== ComponentType.OFF_PAGE_CONNECTOR) return getTranslatedDescription(node.description);
+    if (!node.offPageTarget) return t.offPage.noTarget;
+    const find = (nodes: ElectricalNode[]): ElectricalNode | undefined => {
+      for (const n of nodes) {
+        if (n.id === node.offPageTarget) return n;
+        const found = find(n.children);
+        if (found) return found;
+      }
+      return undefined;
+    };
+    for (const page of activeProject?.pages || []) {
+      const target = find(page.items);
+      if (target) {
+        const template = node.children.length > 0 ? t.offPage.fedFrom : t.offPage.continuesTo;
+        return template.replace('{page}', page.name).replace('{name}', target.componentNumber || target.name);
+      }
+    }
+    return t.offPage.missing;
+  };
+
+  const getLoadText = (node: ElectricalNode) => {
+    if (!showLoads) return '';
+    const parts: string[] = [];
+    if (node.calculatedLoad && node.calculatedLoad.kva > 0) {
+      parts.push(`Σ ${node.calculatedLoad.amps.toFixed(1)}A`, `${node.calculatedLoad.kva.toFixed(1)}kVA`);
+    }
+    const fault = faultLevels[node.id];
+    if (fault) parts.push(`Ik ${fault.faultCurrentKa.toFixed(1)}kA`);
+    return parts.join(' | ');
+  };
+
+  const isUnderrated = (node: ElectricalNode) => !!faultLevels[node.id]?.isUnderrated;
+
+  const getPhaseTag = (node: ElectricalNode) => {
+    if (node.phaseType === 'three') return '3Φ';
+    if (node.phaseType === 'single') return node.phase || '1Φ';
+    return '';
+  };
+
   const getTranslatedName = (name: string, type: string) => {
     if (
       !name ||
@@ -159,12 +273,24 @@ export const Diagram: React.FC<DiagramProps> = ({
     if (!svgRef.current) return;
 
     const svg = d3.select(svgRef.current);
-    svg.selectAll('*').remove();
+    // Everything but the diagram group is redrawn; inside it, the nodes and
+    // links layers are updated in place (see below).
+    svg.selectChildren().filter(function () {
+      return !(this as Element).classList.contains('diagram-root');
+    }).remove();
+    svg.style('cursor', null).on('.annotate', null);
+    if (viewportFrameRef.current !== null) {
+      cancelAnimationFrame(viewportFrameRef.current);
+      viewportFrameRef.current = null;
+    }
+    const canvas = canvasRef.current;
+    if (canvas) canvas.style.display = 'none';
 
     svg.on('click', (event) => {
       if (event.defaultPrevented) return;
       if (isCleanView && !isAnnotating) return;
       onBackgroundClick?.();
+      if (isAnnotating) onAnnotationSelect?.(null);
     });
 
     const defs = svg.append('defs');
@@ -203,40 +329,9 @@ export const Diagram: React.FC<DiagramProps> = ({
 
     const { width, height } = dimensions;
 
-    if (isAnnotating) {
-        svg.style('cursor', 'crosshair');
-        svg.append('rect')
-           .attr('width', '100%')
-           .attr('height', '100%')
-           .attr('fill', 'transparent')
-           .on('mousedown', function(event) {
-               const coords = d3.pointer(event, g.node());
-               let currentPath = `M ${coords[0]} ${coords[1]}`;
-               
-               const pathEl = g.append('path')
-                   .attr('class', 'temp-drawing')
-                   .attr('d', currentPath)
-                   .attr('stroke', annotationColor)
-                   .attr('stroke-width', 3)
-                   .attr('fill', 'none')
-                   .attr('stroke-linecap', 'round')
-                   .attr('stroke-linejoin', 'round');
-
-               d3.select(this)
-                   .on('mousemove', (e) => {
-                       const m = d3.pointer(e, g.node());
-                       currentPath += ` L ${m[0]} ${m[1]}`;
-                       pathEl.attr('d', currentPath);
-                   })
-                   .on('mouseup', () => {
-                       d3.select(this).on('mousemove', null).on('mouseup', null);
-                       if (onAnnotationAdd) onAnnotationAdd(currentPath, annotationColor);
-                       pathEl.remove();
-                   });
-           });
-    }
-
     if (!data || data.length === 0) {
+      svg.select('g.diagram-root').remove();
+      setMinimap(null);
       const g = svg
         .append('g')
         .attr('transform', `translate(${width / 2},${height / 2})`);
@@ -321,9 +416,37 @@ export const Diagram: React.FC<DiagramProps> = ({
       .attr('d', 'M0,0 L10,5 L0,10 z')
       .attr('fill', isDark ? '#f59e0b' : '#d97706');
 
-    const g = svg
-      .append('g')
-      .attr('transform', `translate(${margin.left},${margin.top})`);
+    let g = svg.select<SVGGElement>('g.diagram-root');
+    if (g.empty()) {
+      g = svg
+        .append('g')
+        .attr('class', 'diagram-root')
+        .attr('transform', `translate(${margin.left},${margin.top})`);
+    }
+    // Kept layers first, in drawing order; the rest is rebuilt on every render.
+    const layer = (parent: d3.Selection<SVGGElement, unknown, null, undefined>, name: string) => {
+      const existing = parent.select<SVGGElement>(`g.${name}`);
+      return existing.empty() ? parent.append('g').attr('class', name) : existing;
+    };
+    const linksGroup = layer(g, 'links');
+    const linkPathsGroup = layer(linksGroup, 'link-paths');
+    const linkExtrasGroup = layer(linksGroup, 'link-extras');
+    const linkHitsGroup = layer(linksGroup, 'link-hits');
+    const nodesGroup = layer(g, 'nodes');
+    g.selectChildren().filter(function () {
+      return !(this as Element).classList.contains('links') && !(this as Element).classList.contains('nodes');
+    }).remove();
+
+    // Set once the scene is known; zooming only updates what is in view.
+    let updateViewport = () => {};
+    const scheduleViewportUpdate = () => {
+      if (viewportFrameRef.current !== null) return;
+      viewportFrameRef.current = requestAnimationFrame(() => {
+        viewportFrameRef.current = null;
+        updateViewport();
+        setView(transformRef.current);
+      });
+    };
 
     const zoom = d3
       .zoom<SVGSVGElement, unknown>()
@@ -335,10 +458,15 @@ export const Diagram: React.FC<DiagramProps> = ({
       .on('zoom', (event) => {
         transformRef.current = event.transform;
         g.attr('transform', event.transform);
+        scheduleViewportUpdate();
       });
 
     svg.call(zoom);
     svg.call(zoom.transform, transformRef.current);
+    panToRef.current = (x, y) => {
+      const k = transformRef.current.k;
+      svg.call(zoom.transform, d3.zoomIdentity.translate(width / 2 - k * x, height / 2 - k * y).scale(k));
+    };
 
     const virtualRootData: ElectricalNode = {
       id: 'virtual-root',
@@ -356,15 +484,57 @@ export const Diagram: React.FC<DiagramProps> = ({
       }
     });
 
-    const tempText = svg
-      .append('text')
-      .style('font-size', '9px')
-      .style('font-weight', 'bold')
-      .style('visibility', 'hidden');
+    // Cards, or the symbols of a standard with the labels beside them.
+    const symbolLibrary = activeProject?.symbolLibrary || 'cards';
+    const isSymbolView = symbolLibrary !== 'cards';
+    const symbolLabelLines = (node: ElectricalNode) => {
+      const name = getTranslatedName(node.name, node.type);
+      let rating = '';
+      if (node.amps) rating += `${node.amps}A `;
+      if (node.voltage) rating += `${node.voltage}V `;
+      if (node.kva) rating += `${node.kva}kVA `;
+      rating += getPhaseTag(node);
+      return [node.componentNumber || name, node.componentNumber ? name : '', rating.trim()].filter(Boolean);
+    };
+
+    type Badge = { text: string; icon: string; color: string; bgLight: string; bgDark: string };
+    const nodeBadges = (node: ElectricalNode) => {
+      const badges: Badge[] = [];
+      if (node.hasMeter) badges.push({ text: node.meterNumber || '', icon: 'speed', color: '#3b82f6', bgLight: '#dbeafe', bgDark: '#1e3a8a' });
+      if (node.hasGeneratorConnection) badges.push({ text: node.generatorName || '', icon: 'letter_g', color: '#ef4444', bgLight: '#fee2e2', bgDark: '#7f1d1d' });
+      if (node.isExcludedFromMeter) badges.push({ text: '', icon: 'power_off', color: '#64748b', bgLight: '#f1f5f9', bgDark: '#334155' });
+      if (node.isAirConditioning) badges.push({ text: '', icon: 'ac_unit', color: '#06b6d4', bgLight: '#cffafe', bgDark: '#155e75' });
+      if (node.isReserved) badges.push({ text: '', icon: 'lock', color: '#eab308', bgLight: '#fef9c3', bgDark: '#713f12' });
+      if (isUnderrated(node)) badges.push({ text: `${node.breakingCapacity}kA`, icon: 'flash_on', color: '#dc2626', bgLight: '#fee2e2', bgDark: '#7f1d1d' });
+      return badges;
+    };
+    const badgeWidth = (badge: Badge) => 20 + (badge.text ? measureText(badge.text, BADGE_FONT) + 6 : 0);
+
+    // In symbol view the off-page button leads the badge row under the labels.
+    const hasSymbolNav = (node: ElectricalNode) =>
+      !!onNavigateOffPage && node.type === ComponentType.OFF_PAGE_CONNECTOR && !!node.offPageTarget;
+    const symbolBadgeRowWidth = (node: ElectricalNode) => {
+      const widths = [...(hasSymbolNav(node) ? [18] : []), ...nodeBadges(node).map(badgeWidth)];
+      return widths.length > 0 ? widths.reduce((sum, w) => sum + w + 5, -5) : 0;
+    };
 
     const getNodeSize = (d: d3.HierarchyNode<ElectricalNode>) => {
       if (d.data.id === 'virtual-root') return { w: 1, h: 1 };
 
+      // The node box holds the symbol and its labels: under it when the tree
+      // runs left to right, beside it when it runs top down. The box stays
+      // centered on the symbol so links meet its leads.
+      if (isSymbolView) {
+        const loadText = getLoadText(d.data);
+        const lines = [...symbolLabelLines(d.data), ...(loadText ? [loadText] : [])];
+        const rowW = symbolBadgeRowWidth(d.data);
+        const labelW = Math.max(rowW, Math.min(160, Math.max(0, ...lines.map(line => measureText(line, `bold ${SYMBOL_LABEL_FONT}`)))));
+        const labelH = lines.length * SYMBOL_LINE_HEIGHT + (rowW > 0 ? SYMBOL_BADGE_ROW : 0);
+        return orientation === 'horizontal'
+          ? { w: SYMBOL_SIZE, h: SYMBOL_SIZE + 2 * (labelH + 4) }
+          : { w: SYMBOL_SIZE + 2 * (labelW + 8), h: SYMBOL_SIZE };
+      }
+
       const isCircle = d.data.shape === 'circle';
       const isSquare = d.data.shape === 'square';
 
@@ -375,7 +545,7 @@ export const Diagram: React.FC<DiagramProps> = ({
       const displayName = getTranslatedName(d.data.name, d.data.type);
       const compNum = d.data.componentNumber || t.componentTypes[d.data.type] || d.data.type;
       const model = d.data.model || '';
-      const desc = getTranslatedDescription(d.data.description);
+      const desc = getNodeDescription(d.data);
       
       const descLines = desc.length > 25 ? Math.ceil(desc.length / 25) : 1;
       const descLen = Math.min(desc.length * 7, 220);
@@ -384,23 +554,24 @@ export const Diagram: React.FC<DiagramProps> = ({
       if (d.data.amps) specText += `${d.data.amps}A`;
       if (d.data.voltage) specText += `${d.data.voltage}V`;
       if (d.data.kva) specText += `${d.data.kva}kVA`;
+      specText += getPhaseTag(d.data);
+      const loadText = getLoadText(d.data);
 
       const charWidth = 8.5;
       const nameLen = (displayName?.length || 0) * charWidth;
       const typeLen = (compNum?.length || 0) * 7.5;
       const specLen = specText.length * 7.5;
       const modelLen = model.length * 7;
+      const loadLen = loadText.length * 7;
       
       let badgeWidth = 0;
       if (d.data.hasMeter) {
-        tempText.text(d.data.meterNumber || '');
-        const width = tempText.node()?.getComputedTextLength() || 0;
+        const width = measureText(d.data.meterNumber || '', BADGE_FONT);
         const totalW = 20 + (d.data.meterNumber ? width + 6 : 0);
         badgeWidth += totalW;
       }
       if (d.data.hasGeneratorConnection) {
-        tempText.text(d.data.generatorName || '');
-        const width = tempText.node()?.getComputedTextLength() || 0;
+        const width = measureText(d.data.generatorName || '', BADGE_FONT);
         const totalW = 20 + (d.data.generatorName ? width + 6 : 0);
         badgeWidth += totalW;
       }
@@ -408,6 +579,9 @@ export const Diagram: React.FC<DiagramProps> = ({
       if (d.data.isExcludedFromMeter) badgeWidth += 24;
       if (d.data.isAirConditioning) badgeWidth += 24;
       if (d.data.isReserved) badgeWidth += 24;
+      if (isUnderrated(d.data)) {
+        badgeWidth += 20 + measureText(`${d.data.breakingCapacity}kA`, BADGE_FONT) + 6;
+      }
 
       if (d.data.hasMeter && d.data.hasGeneratorConnection) badgeWidth += 5;
 
@@ -416,6 +590,7 @@ export const Diagram: React.FC<DiagramProps> = ({
         typeLen,
         specLen,
         modelLen,
+        loadLen,
         descLen,
         badgeWidth,
         90
@@ -426,6 +601,7 @@ export const Diagram: React.FC<DiagramProps> = ({
       contentHeight += 24; 
       contentHeight += 16; 
       if (specText) contentHeight += 14;
+      if (loadText) contentHeight += 14;
       if (model) contentHeight += 14;
       if (desc) contentHeight += (14 * descLines); 
       
@@ -433,7 +609,7 @@ export const Diagram: React.FC<DiagramProps> = ({
           contentHeight += 14;
       }
 
-      if (d.data.hasMeter || d.data.hasGeneratorConnection || d.data.isExcludedFromMeter || d.data.isAirConditioning || d.data.isReserved) contentHeight += 26;
+      if (d.data.hasMeter || d.data.hasGeneratorConnection || d.data.isExcludedFromMeter || d.data.isAirConditioning || d.data.isReserved || isUnderrated(d.data)) contentHeight += 26;
       contentHeight += 12;
 
       return { w: nodeW, h: contentHeight };
@@ -505,41 +681,91 @@ export const Diagram: React.FC<DiagramProps> = ({
       }
     };
 
-    const linkGenerator = (source: ExtendedHierarchyNode, target: ExtendedHierarchyNode) => {
-      const sXOffset = source.data.manualX || 0;
-      const sYOffset = source.data.manualY || 0;
-      const tXOffset = target.data.manualX || 0;
-      const tYOffset = target.data.manualY || 0;
-      const lineType = target.data.connectionStyle?.lineType || 'orthogonal';
+    // Manual offset of a node; while dragging, the one it is being dragged to.
+    type NodeOffset = (d: ExtendedHierarchyNode) => Point;
+    const savedOffset: NodeOffset = (d) => [d.data.manualX || 0, d.data.manualY || 0];
+
+    const hasBusbar = (d: ExtendedHierarchyNode) =>
+      !!d.data.busbar && BUSBAR_TYPES.includes(d.data.type) && !!d.children && d.children.length > 0;
+
+    // A busbar runs across the tree a fixed gap past its node, from the feed
+    // out of the node to the outermost child, and a little beyond.
+    const busbarOf = (d: ExtendedHierarchyNode, offset: NodeOffset = savedOffset) => {
+      const [sXOffset, sYOffset] = offset(d);
+      const across = (n: ExtendedHierarchyNode) => n.x + offset(n)[orientation === 'horizontal' ? 1 : 0];
+      const extent = [across(d), ...(d.children || []).map(across)];
+      const from = Math.min(...extent) - BUSBAR_OVERHANG;
+      const to = Math.max(...extent) + BUSBAR_OVERHANG;
 
       if (orientation === 'horizontal') {
+        const exit: Point = [d.y + d.width + sXOffset, d.x + sYOffset];
+        const busX = exit[0] + BUSBAR_GAP;
+        return { feed: [exit, [busX, exit[1]]] as [Point, Point], bus: [[busX, from], [busX, to]] as [Point, Point] };
+      }
+      const exit: Point = [d.x + sXOffset, d.y + d.height + sYOffset];
+      const busY = exit[1] + BUSBAR_GAP;
+      return { feed: [exit, [exit[0], busY]] as [Point, Point], bus: [[from, busY], [to, busY]] as [Point, Point] };
+    };
+
+    // Where a link leaves its source and enters its target. Children of a
+    // busbar node drop straight from the bus.
+    const linkEnds = (
+      source: ExtendedHierarchyNode,
+      target: ExtendedHierarchyNode,
+      offset: NodeOffset = savedOffset
+    ): { start: Point; end: Point } => {
+      const [sXOffset, sYOffset] = offset(source);
+      const [tXOffset, tYOffset] = offset(target);
+      const fromBus = hasBusbar(source) && target.parent === source;
+
+      if (orientation === 'horizontal') {
+        const end: Point = [target.y + tXOffset, target.x + tYOffset];
         const srcX = source.y + source.width + sXOffset;
-        const srcY = source.x + sYOffset;
-        const tgtX = target.y + tXOffset;
-        const tgtY = target.x + tYOffset;
+        return { start: fromBus ? [srcX + BUSBAR_GAP, end[1]] : [srcX, source.x + sYOffset], end };
+      }
+      const end: Point = [target.x + tXOffset, target.y + tYOffset];
+      const srcY = source.y + source.height + sYOffset;
+      return { start: fromBus ? [end[0], srcY + BUSBAR_GAP] : [source.x + sXOffset, srcY], end };
+    };
 
-        if (lineType === 'straight') {
-            return `M${srcX},${srcY} L${tgtX},${tgtY}`;
-        } else {
-            return `M${srcX},${srcY} H${(srcX + tgtX) / 2} V${tgtY} H${tgtX}`;
-        }
-      } else {
-        const srcX = source.x + sXOffset;
-        const srcY = source.y + source.height + sYOffset;
-        const tgtX = target.x + tXOffset;
-        const tgtY = target.y + tYOffset;
+    const linkGenerator = (source: ExtendedHierarchyNode, target: ExtendedHierarchyNode, offset: NodeOffset = savedOffset) => {
+      const { start: [srcX, srcY], end: [tgtX, tgtY] } = linkEnds(source, target, offset);
+      const lineType = target.data.connectionStyle?.lineType || 'orthogonal';
 
-        if (lineType === 'straight') {
-            return `M${srcX},${srcY} L${tgtX},${tgtY}`;
-        } else {
-            return `M${srcX},${srcY} V${(srcY + tgtY) / 2} H${tgtX} V${tgtY}`;
-        }
+      if (lineType === 'straight') {
+        return `M${srcX},${srcY} L${tgtX},${tgtY}`;
       }
+      return orientation === 'horizontal'
+        ? `M${srcX},${srcY} H${(srcX + tgtX) / 2} V${tgtY} H${tgtX}`
+        : `M${srcX},${srcY} V${(srcY + tgtY) / 2} H${tgtX} V${tgtY}`;
+    };
+
+    // Where a node is drawn on the page, and the same grown by room for its buttons and badges.
+    const nodeBox = (d: ExtendedHierarchyNode, offset: NodeOffset = savedOffset): Bounds => {
+      const [dx, dy] = offset(d);
+      const px = (orientation === 'horizontal' ? d.y : d.x) + dx;
+      const py = (orientation === 'horizontal' ? d.x : d.y) + dy;
+      const box = isSymbolView || (d.data.shape || 'rectangle') === 'rectangle' ? getRectBox(d) : { x: -40, y: -40, w: 80, h: 80 };
+      return { x1: px + box.x, y1: py + box.y, x2: px + box.x + box.w, y2: py + box.y + box.h };
+    };
+    const nodeBounds = (d: ExtendedHierarchyNode): Bounds => {
+      const b = nodeBox(d);
+      return { x1: b.x1 - 30, y1: b.y1 - 30, x2: b.x2 + 30, y2: b.y2 + 30 };
+    };
+    const linkBounds = (d: DiagramLink): Bounds => {
+      const a = nodeBounds(d.source), b = nodeBounds(d.target);
+      // A routed link can swing out past both of its nodes.
+      const xs = (routes.get(linkKey(d)) || []).map(p => p[0]), ys = (routes.get(linkKey(d)) || []).map(p => p[1]);
+      return {
+        x1: Math.min(a.x1, b.x1, ...xs), y1: Math.min(a.y1, b.y1, ...ys),
+        x2: Math.max(a.x2, b.x2, ...xs), y2: Math.max(a.y2, b.y2, ...ys)
+      };
     };
 
     const extraLinksToRender: DiagramLink[] = [];
     const nodeLookup = new Map<string, ExtendedHierarchyNode>();
     nodesToRender.forEach((d) => nodeLookup.set(d.data.id, d));
+    liveRef.current = { nodes: nodeLookup, onDeleteNode, onDuplicateChild, onToggleCollapse, onNavigateOffPage };
 
     nodesToRender.forEach((d) => {
       if (d.data.extraConnections) {
@@ -552,26 +778,145 @@ export const Diagram: React.FC<DiagramProps> = ({
       }
     });
 
-    if (annotations.length > 0) {
-        annotations.forEach(ant => {
-            g.append('path')
-             .attr('d', ant.path)
-             .attr('stroke', ant.color)
-             .attr('stroke-width', 3)
-             .attr('fill', 'none')
-             .attr('stroke-linecap', 'round')
-             .attr('stroke-linejoin', 'round')
-             .attr('opacity', 0.8);
-        });
+    // Very large pages are drawn on canvas; print layout and export always get SVG.
+    const useCanvas = !!canvas && !renderForExport && !isPrintMode && nodesToRender.length > CANVAS_NODE_THRESHOLD;
+    if (useCanvas) {
+      svg.style('background-color', null).style('background-image', null);
     }
 
-    const linksGroup = g.append('g').attr('class', 'links');
-    const nodesGroup = g.append('g').attr('class', 'nodes');
+    const linkKey = (d: DiagramLink) => `${d.source.data.id}>${d.target.data.id}`;
+
+    // Orthogonal links are routed around the node boxes, tree links first. The
+    // canvas keeps plain elbows: at that size the picture is an overview anyway.
+    const isOrthogonal = (d: DiagramLink) => (d.target.data.connectionStyle?.lineType || 'orthogonal') === 'orthogonal';
+    const isExtraLink = (d: DiagramLink) => d.target.parent !== d.source;
+    const savedWaypoints = (d: DiagramLink) => isExtraLink(d)
+      ? d.target.data.extraConnectionRoutes?.[d.source.data.id]
+      : d.target.data.connectionStyle?.waypoints;
+    // Waypoints are saved relative to where the link leaves its source.
+    const toWaypoint = ([sx, sy]: Point, [x, y]: Point): LinkWaypoint =>
+      orientation === 'horizontal' ? { along: x - sx, across: y - sy } : { along: y - sy, across: x - sx };
+    const fromWaypoint = ([sx, sy]: Point, { along, across }: LinkWaypoint): Point =>
+      orientation === 'horizontal' ? [sx + along, sy + across] : [sx + across, sy + along];
+    const routeRequest = (d: DiagramLink, offset: NodeOffset = savedOffset, withWaypoints = true): RouteRequest => {
+      const ends = linkEnds(d.source, d.target, offset);
+      return {
+        id: linkKey(d),
+        sourceId: d.source.data.id,
+        targetId: d.target.data.id,
+        ...ends,
+        axis: orientation === 'horizontal' ? 'x' : 'y',
+        waypoints: withWaypoints ? savedWaypoints(d)?.map(w => fromWaypoint(ends.start, w)) : undefined
+      };
+    };
+    const routes = useCanvas ? new Map<string, Point[]>() : routeLinks(
+      [...linksToRender, ...extraLinksToRender].filter(isOrthogonal).map(d => routeRequest(d)),
+      nodesToRender.map(d => ({ id: d.data.id, bounds: nodeBox(d) }))
+    );
+    const routedPaths = routePaths(routes);
+    const linkPath = (d: DiagramLink) => routedPaths.get(linkKey(d)) ?? linkGenerator(d.source, d.target);
+
     const labelsGroup = g.append('g').attr('class', 'labels');
+    const annotationsGroup = g.append('g')
+      .attr('class', 'annotations')
+      .style('pointer-events', isAnnotating && annotationTool === 'select' ? 'all' : 'none');
+
+    annotations.forEach(ant => {
+      const antG = annotationsGroup.append('g').attr('class', 'annotation').style('cursor', 'move');
+      if (ant.kind === 'text') {
+        antG.append('text')
+          .attr('x', ant.x || 0)
+          .attr('y', ant.y || 0)
+          .attr('fill', ant.color)
+          .attr('font-size', '16px')
+          .attr('font-weight', 'bold')
+          .attr('dominant-baseline', 'middle')
+          .text(ant.text || '');
+      } else {
+        const d = annotationPath(ant);
+        // Wide transparent copy so thin strokes are easy to grab.
+        antG.append('path').attr('class', 'annotation-hit').attr('d', d).attr('stroke', 'transparent').attr('stroke-width', 14).attr('fill', 'none');
+        antG.append('path')
+          .attr('d', d)
+          .attr('stroke', ant.color)
+          .attr('stroke-width', ant.kind === 'freehand' ? 3 : 2)
+          .attr('fill', ant.kind === 'rect' || ant.kind === 'cloud' ? ant.color : 'none')
+          .attr('fill-opacity', 0.05)
+          .attr('stroke-linecap', 'round')
+          .attr('stroke-linejoin', 'round')
+          .attr('opacity', 0.9);
+      }
+
+      if (ant.id === selectedAnnotationId) {
+        const bbox = (antG.node() as SVGGElement).getBBox();
+        antG.append('rect')
+          .attr('class', 'annotation-selection')
+          .attr('x', bbox.x - 6).attr('y', bbox.y - 6)
+          .attr('width', bbox.width + 12).attr('height', bbox.height + 12)
+          .attr('fill', 'none')
+          .attr('stroke', '#3b82f6')
+          .attr('stroke-dasharray', '4,3');
+      }
+
+      let moved = { dx: 0, dy: 0 };
+      antG
+        .on('click', (event) => event.stopPropagation())
+        .on('dblclick', (event) => {
+          event.stopPropagation();
+          if (ant.kind === 'text') onAnnotationEdit?.(ant.id);
+        })
+        .call(d3.drag<SVGGElement, unknown>()
+          .on('start', () => { moved = { dx: 0, dy: 0 }; })
+          .on('drag', (event) => {
+            moved = { dx: moved.dx + event.dx, dy: moved.dy + event.dy };
+            antG.attr('transform', `translate(${moved.dx},${moved.dy})`);
+          })
+          .on('end', () => {
+            if (moved.dx !== 0 || moved.dy !== 0) onAnnotationMove?.(ant.id, moved.dx, moved.dy);
+            onAnnotationSelect?.(ant.id);
+          }) as any);
+    });
+
+    if (isAnnotating && annotationTool !== 'select') {
+      svg.style('cursor', 'crosshair');
+      svg.on('mousedown.annotate', (event) => {
+        if (event.button) return;
+        const [x, y] = d3.pointer(event, g.node());
+        if (annotationTool === 'text') {
+          onAnnotationAdd?.({ kind: 'text', color: annotationColor, x, y });
+          return;
+        }
+
+        const draft: Annotation = annotationTool === 'freehand'
+          ? { id: 'draft', kind: 'freehand', color: annotationColor, points: [[x, y]] }
+          : { id: 'draft', kind: annotationTool, color: annotationColor, x, y, x2: x, y2: y };
+        const preview = annotationsGroup.append('path')
+          .attr('class', 'temp-drawing')
+          .attr('stroke', annotationColor)
+          .attr('stroke-width', annotationTool === 'freehand' ? 3 : 2)
+          .attr('fill', 'none')
+          .attr('stroke-linecap', 'round')
+          .attr('stroke-linejoin', 'round');
+
+        svg
+          .on('mousemove.annotate', (e) => {
+            const [mx, my] = d3.pointer(e, g.node());
+            if (draft.points) draft.points.push([mx, my]);
+            else { draft.x2 = mx; draft.y2 = my; }
+            preview.attr('d', annotationPath(draft));
+          })
+          .on('mouseup.annotate', () => {
+            svg.on('mousemove.annotate', null).on('mouseup.annotate', null);
+            preview.remove();
+            const { id, ...annotation } = draft;
+            if (!isTooSmall(draft)) onAnnotationAdd?.(annotation);
+          });
+      });
+    }
 
     const drag = d3
       .drag<SVGGElement, ExtendedHierarchyNode>()
-      .filter((event) => !isLayoutLocked && !event.button) 
+      .filter((event) => !isLayoutLocked && !isAnnotating && !event.button) 
       .on('start', function (event, d) {
         if (isCleanView) return; 
         const node = d as ExtendedHierarchyNode;
@@ -612,30 +957,32 @@ export const Diagram: React.FC<DiagramProps> = ({
           (desc.data as any)._tempY = snappedY;
         });
         
-        linkPathSelection.attr('d', (lk) => {
-           const sX = (lk.source.data as any)._tempX ?? (lk.source.data.manualX || 0);
-           const sY = (lk.source.data as any)._tempY ?? (lk.source.data.manualY || 0);
-           const tX = (lk.target.data as any)._tempX ?? (lk.target.data.manualX || 0);
-           const tY = (lk.target.data as any)._tempY ?? (lk.target.data.manualY || 0);
-           
-           const lineType = lk.target.data.connectionStyle?.lineType || 'orthogonal';
-
-           if (orientation === 'horizontal') {
-             const srcX = lk.source.y + lk.source.width + sX;
-             const srcY = lk.source.x + sY;
-             const tgtX = lk.target.y + tX;
-             const tgtY = lk.target.x + tY;
-             if (lineType === 'straight') return `M${srcX},${srcY} L${tgtX},${tgtY}`;
-             return `M${srcX},${srcY} H${(srcX + tgtX) / 2} V${tgtY} H${tgtX}`;
-           } else {
-             const srcX = lk.source.x + sX;
-             const srcY = lk.source.y + lk.source.height + sY;
-             const tgtX = lk.target.x + tX;
-             const tgtY = lk.target.y + tY;
-             if (lineType === 'straight') return `M${srcX},${srcY} L${tgtX},${tgtY}`;
-             return `M${srcX},${srcY} V${(srcY + tgtY) / 2} H${tgtX} V${tgtY}`;
-           }
+        const draggedOffset: NodeOffset = (n) => [
+          (n.data as any)._tempX ?? (n.data.manualX || 0),
+          (n.data as any)._tempY ?? (n.data.manualY || 0)
+        ];
+        // Routes inside the dragged subtree move along with it. Links into or
+        // out of it lose their waypoints on drop, so they are routed afresh.
+        const movedIds = new Set(descendants.map(desc => desc.data.id));
+        const [shiftX, shiftY] = draggedOffset(node).map((v, i) => v - savedOffset(node)[i]);
+        const dragLinks = [...linksToRender, ...extraLinksToRender];
+        const preview = useCanvas ? new Map<string, Point[]>() : routeLinks(
+          dragLinks
+            .filter(lk => isOrthogonal(lk) && movedIds.has(lk.source.data.id) !== movedIds.has(lk.target.data.id))
+            .map(lk => routeRequest(lk, draggedOffset, false)),
+          nodesToRender.map(n => ({ id: n.data.id, bounds: nodeBox(n, draggedOffset) }))
+        );
+        dragLinks.forEach(lk => {
+          const route = routes.get(linkKey(lk));
+          if (route && movedIds.has(lk.source.data.id) && movedIds.has(lk.target.data.id)) {
+            preview.set(linkKey(lk), route.map(([x, y]) => [x + shiftX, y + shiftY] as Point));
+          }
         });
+        const previewPaths = routePaths(preview);
+        const draggedPath = (lk: DiagramLink) => previewPaths.get(linkKey(lk)) ?? linkGenerator(lk.source, lk.target, draggedOffset);
+        linkPathSelection.attr('d', draggedPath);
+        linkExtraSelection.attr('d', draggedPath);
+        positionBusbars(draggedOffset);
       })
       .on('end', function (event, d) {
         if (isCleanView) return; 
@@ -669,7 +1016,7 @@ export const Diagram: React.FC<DiagramProps> = ({
       selection
         .attr('class', className)
         .attr('data-target-id', (d) => d.target.data.id)
-        .attr('d', (d) => linkGenerator(d.source, d.target))
+        .attr('d', linkPath)
         .attr('fill', 'none')
         .each(function (d) {
           if (isHitArea) return;
@@ -692,18 +1039,7 @@ export const Diagram: React.FC<DiagramProps> = ({
             d3.select(this)
               .attr('stroke', stroke)
               .attr('stroke-width', isSelected ? 4 : 2.5)
-              .attr(
-                'stroke-dasharray',
-                style.lineStyle === 'dashed'
-                  ? '8,4'
-                  : style.lineStyle === 'dotted'
-                  ? '2,4'
-                  : style.lineStyle === 'dash-dot'
-                  ? '8,4,2,4'
-                  : style.lineStyle === 'long-dash'
-                  ? '16,4'
-                  : 'none'
-              )
+              .attr('stroke-dasharray', LINE_DASHES[style.lineStyle || '']?.join(',') || 'none')
               .attr(
                 'marker-start',
                 style.startMarker && style.startMarker !== 'none'
@@ -733,37 +1069,84 @@ export const Diagram: React.FC<DiagramProps> = ({
         });
     };
 
-    const linkPathSelection = linksGroup
+    // Dragging a segment of a routed link moves it sideways. The corners of the
+    // new route are kept as waypoints, which later routing passes through.
+    const segmentDrag = d3
+      .drag<SVGPathElement, DiagramLink>()
+      .filter((event, d) => !isCleanView && !isLayoutLocked && !isAnnotating && !event.button && !!onLinkRoute && routes.has(linkKey(d)))
+      .clickDistance(4)
+      .on('start', function (event, d) {
+        const points = routes.get(linkKey(d))!;
+        // The segment nearest to where the link was grabbed.
+        let index = 0, nearest = Infinity;
+        points.slice(1).forEach(([x2, y2], i) => {
+          const [x1, y1] = points[i];
+          const px = Math.max(Math.min(x1, x2), Math.min(Math.max(x1, x2), event.x));
+          const py = Math.max(Math.min(y1, y2), Math.min(Math.max(y1, y2), event.y));
+          const distance = Math.hypot(px - event.x, py - event.y);
+          if (distance < nearest) {
+            nearest = distance;
+            index = i;
+          }
+        });
+        (this as any).__segment = { points, index, moved: null };
+      })
+      .on('drag', function (event, d) {
+        const segment = (this as any).__segment;
+        if (!segment) return;
+        const to: Point = [
+          Math.round(event.x / SNAP_GRID_SIZE) * SNAP_GRID_SIZE,
+          Math.round(event.y / SNAP_GRID_SIZE) * SNAP_GRID_SIZE
+        ];
+        segment.moved = moveSegment(segment.points, segment.index, to);
+        const path = routePaths(new Map([[linkKey(d), segment.moved]])).get(linkKey(d))!;
+        d3.select(this).attr('d', path);
+        (isExtraLink(d) ? linkExtraSelection : linkPathSelection).filter((l) => l === d).attr('d', path);
+      })
+      .on('end', function (event, d) {
+        const segment = (this as any).__segment;
+        delete (this as any).__segment;
+        if (!segment?.moved) return;
+        const start: Point = segment.points[0];
+        onLinkRoute?.(d.source.data.id, d.target.data.id, segment.moved.slice(1, -1).map((p: Point) => toWaypoint(start, p)));
+      });
+
+    const linkPathSelection = linkPathsGroup
       .selectAll<SVGPathElement, DiagramLink>('path.link-visible')
-      .data(linksToRender)
-      .enter()
-      .append('path')
+      .data(useCanvas ? [] : linksToRender, linkKey)
+      .join('path')
       .call(renderLinks, 'link-visible');
 
-    linksGroup
+    const linkExtraSelection = linkExtrasGroup
       .selectAll<SVGPathElement, DiagramLink>('path.link-extra')
-      .data(extraLinksToRender)
-      .enter()
-      .append('path')
+      .data(useCanvas ? [] : extraLinksToRender, linkKey)
+      .join('path')
       .call(renderLinks, 'link-extra');
 
-    linksGroup
+    // Extra links get hit areas too, so their routes can be dragged, but
+    // clicking one selects nothing: the link panel edits tree links only.
+    const linkHitSelection = linkHitsGroup
       .selectAll<SVGPathElement, DiagramLink>('path.link-hit')
-      .data(linksToRender)
-      .enter()
-      .append('path')
+      .data(useCanvas ? [] : [...linksToRender, ...extraLinksToRender], linkKey)
+      .join('path')
       .attr('class', 'link-hit')
       .attr('data-target-id', (d) => d.target.data.id)
-      .attr('d', (d) => linkGenerator(d.source, d.target))
+      .attr('d', linkPath)
       .attr('fill', 'none')
       .attr('stroke', 'transparent')
       .attr('stroke-width', 15)
       .style('cursor', 'pointer')
       .on('click', (e, d) => {
-        if (isCleanView) return;
+        if (isCleanView || isExtraLink(d)) return;
         e.stopPropagation();
         onLinkClick(d.source.data.id, d.target.data.id);
-      });
+      })
+      .on('dblclick', (e, d) => {
+        if (isCleanView || !savedWaypoints(d)) return;
+        e.stopPropagation();
+        onLinkRoute?.(d.source.data.id, d.target.data.id, undefined);
+      })
+      .call(segmentDrag);
 
     const renderIcon = (parent: d3.Selection<SVGGElement, unknown, null, undefined>, iconName: string, color: string, defaultTransform: string) => {
         const iconData = ICON_PATHS[iconName] || ICON_PATHS['help'];
@@ -784,6 +1167,45 @@ export const Diagram: React.FC<DiagramProps> = ({
         }
     };
     
+    // Draws a single-line symbol centered at the origin of `transform`. Text in
+    // a turned symbol is turned back so it reads upright.
+    const renderSymbol = (
+      parent: d3.Selection<SVGGElement, unknown, null, undefined>,
+      symbol: SymbolDefinition,
+      color: string,
+      transform: string,
+      isTurned: boolean = false
+    ) => {
+        const symbolG = parent.append('g')
+            .attr('class', 'node-symbol')
+            .attr('transform', isTurned ? `${transform} rotate(90)` : transform)
+            .attr('fill', 'none')
+            .attr('stroke', color)
+            .attr('stroke-width', 2)
+            .attr('stroke-linejoin', 'round')
+            .style('pointer-events', 'none');
+        symbolG.append('path').attr('d', symbol.path);
+        (symbol.circles || []).forEach(([cx, cy, r]) => symbolG.append('circle').attr('cx', cx).attr('cy', cy).attr('r', r));
+        (symbol.dots || []).forEach(([cx, cy, r]) => symbolG.append('circle').attr('cx', cx).attr('cy', cy).attr('r', r).attr('fill', color));
+        (symbol.texts || []).forEach((item) => {
+            symbolG.append('text')
+                .attr('x', item.x)
+                .attr('y', item.y)
+                .attr('transform', isTurned ? `rotate(-90, ${item.x}, ${item.y})` : null)
+                .attr('text-anchor', 'middle')
+                .attr('dominant-baseline', 'central')
+                .attr('stroke', 'none')
+                .attr('fill', color)
+                .style('font-size', `${item.size}px`)
+                .style('font-weight', 'bold')
+                .style('direction', 'ltr')
+                .text(item.text);
+        });
+    };
+
+    // Current version of a node, for handlers on elements kept from an earlier render.
+    const liveNode = (d: ExtendedHierarchyNode) => liveRef.current.nodes.get(d.data.id)?.data || d.data;
+
     const renderActionButtons = (nodeG: d3.Selection<SVGGElement, unknown, null, undefined>, d: ExtendedHierarchyNode, isPermanent: boolean = false) => {
         nodeG.selectAll('.action-buttons').remove();
         if (isCleanView) return;
@@ -801,7 +1223,7 @@ export const Diagram: React.FC<DiagramProps> = ({
             .style('cursor', 'pointer')
             .on('click', (e) => {
                 e.stopPropagation();
-                onDeleteNode(d.data);
+                liveRef.current.onDeleteNode(liveNode(d));
             });
         deleteBtn.append('circle').attr('r', 8).attr('fill', '#ef4444');
         deleteBtn.append('path').attr('d', 'M-2.5,-2.5 L2.5,2.5 M-2.5,2.5 L2.5,-2.5').attr('stroke', 'white').attr('stroke-width', 1.5);
@@ -811,7 +1233,7 @@ export const Diagram: React.FC<DiagramProps> = ({
             .style('cursor', 'pointer')
             .on('click', (e) => {
                 e.stopPropagation();
-                onDuplicateChild(d.data);
+                liveRef.current.onDuplicateChild(liveNode(d));
             });
         dupBtn.append('circle').attr('r', 8).attr('fill', '#3b82f6');
         dupBtn.append('path').attr('d', 'M-3,3 L-3,-3 L3,-3 L3,3 Z M0,-3 L0,3 M-3,0 L3,0').attr('stroke', 'white').attr('stroke-width', 1.5).attr('fill', 'none');
@@ -822,7 +1244,7 @@ export const Diagram: React.FC<DiagramProps> = ({
                 .style('cursor', 'pointer')
                 .on('click', (e) => {
                     e.stopPropagation();
-                    onToggleCollapse(d.data);
+                    liveRef.current.onToggleCollapse(liveNode(d));
                 });
              collapseBtn.append('circle').attr('r', 8).attr('fill', '#f59e0b');
              collapseBtn.append('path').attr('d', 'M-4,0 L4,0').attr('stroke', 'white').attr('stroke-width', 1.5);
@@ -833,11 +1255,78 @@ export const Diagram: React.FC<DiagramProps> = ({
         }
     };
 
-    const nodesSelection = nodesGroup
+    const matchesFilters = (node: ElectricalNode) =>
+      (activeFilters.has('meter') && node.hasMeter) ||
+      (activeFilters.has('generator') && node.hasGeneratorConnection) ||
+      (activeFilters.has('no-meter') && node.isExcludedFromMeter) ||
+      (activeFilters.has('ac') && node.isAirConditioning) ||
+      (activeFilters.has('reserved') && node.isReserved) ||
+      activeFilters.has(node.type);
+
+    const nodeOpacity = (d: ExtendedHierarchyNode) => {
+      if (isCleanView && activeFilters.size > 0) return matchesFilters(d.data) ? 1 : 0.2;
+      if (!searchMatches) return 1;
+      if (searchMatches.has(d.data.id)) return 1;
+      if (d.parent && d.parent.data.id !== 'virtual-root' && searchMatches.has(d.parent.data.id)) return 1;
+      if (d.children && d.children.some((c: any) => searchMatches.has(c.data.id))) return 1;
+      return 0.2;
+    };
+
+    // Busbar nodes: the feed out of the node, the bus its children drop from,
+    // and the rating written along the bus.
+    const busbarColor = (d: ExtendedHierarchyNode) => d.data.customColor || COMPONENT_CONFIG[d.data.type]?.color || linkColor;
+    const busbarSelection = g.insert('g', 'g.nodes')
+      .attr('class', 'busbars')
+      .selectAll<SVGGElement, ExtendedHierarchyNode>('g.busbar')
+      .data(useCanvas ? [] : nodesToRender.filter(hasBusbar))
+      .join('g')
+      .attr('class', 'busbar')
+      .style('opacity', (d) => nodeOpacity(d))
+      .style('cursor', isCleanView ? 'default' : 'pointer')
+      .on('click', (event, d) => {
+        if (isCleanView) return;
+        event.stopPropagation();
+        onNodeClick(d.data, event.shiftKey);
+      });
+    busbarSelection.append('line')
+      .attr('class', 'busbar-feed')
+      .attr('stroke', busbarColor)
+      .attr('stroke-width', 2.5);
+    busbarSelection.append('line')
+      .attr('class', 'busbar-bar')
+      .attr('stroke', busbarColor)
+      .attr('stroke-width', 6)
+      .attr('stroke-linecap', 'round');
+    busbarSelection.append('text')
+      .attr('class', 'busbar-rating')
+      .attr('text-anchor', 'middle')
+      .style('font-size', '10px')
+      .style('font-weight', 'bold')
+      .style('fill', textColor)
+      .style('direction', 'ltr')
+      .attr('stroke', bgColor)
+      .attr('stroke-width', 3)
+      .attr('paint-order', 'stroke')
+      .text((d) => [d.data.amps ? `${d.data.amps} A` : '', d.data.voltage ? `${d.data.voltage} V` : ''].filter(Boolean).join(' · '));
+
+    const positionBusbars = (offset: NodeOffset = savedOffset) => busbarSelection.each(function (d) {
+      const { feed, bus } = busbarOf(d, offset);
+      const el = d3.select(this);
+      el.select('.busbar-feed').attr('x1', feed[0][0]).attr('y1', feed[0][1]).attr('x2', feed[1][0]).attr('y2', feed[1][1]);
+      el.select('.busbar-bar').attr('x1', bus[0][0]).attr('y1', bus[0][1]).attr('x2', bus[1][0]).attr('y2', bus[1][1]);
+      const midX = (bus[0][0] + bus[1][0]) / 2;
+      const midY = (bus[0][1] + bus[1][1]) / 2;
+      el.select('.busbar-rating').attr(
+        'transform',
+        orientation === 'horizontal' ? `translate(${midX - 8},${midY}) rotate(-90)` : `translate(${midX},${midY - 8})`
+      );
+    });
+    positionBusbars();
+
+    const nodeElements = nodesGroup
       .selectAll<SVGGElement, ExtendedHierarchyNode>('g.node')
-      .data(nodesToRender)
-      .enter()
-      .append('g')
+      .data(useCanvas ? [] : nodesToRender, (d) => d.data.id)
+      .join('g')
       .attr('class', (d) =>
         `node group ${
           d.data.id === selectedNodeId || multiSelection.has(d.data.id)
@@ -905,418 +1394,556 @@ export const Diagram: React.FC<DiagramProps> = ({
           .transition()
           .duration(200)
           .attr('fill', (d2: ExtendedHierarchyNode) =>
-             d2.data.customBgColor || (d2.data.type === ComponentType.SYSTEM_ROOT ? rootNodeBgColor : nodeBgColor)
+             isSymbolView ? 'transparent' : d2.data.customBgColor || (d2.data.type === ComponentType.SYSTEM_ROOT ? rootNodeBgColor : nodeBgColor)
           )
-          .attr('stroke', isSource ? '#f59e0b' : isSelected ? '#3b82f6' : secondaryTextColor);
+          .attr('stroke', isSource ? '#f59e0b' : isSelected ? '#3b82f6' : isSymbolView ? 'transparent' : secondaryTextColor);
       })
       .style('cursor', () => isCleanView ? 'default' : isLayoutLocked ? 'pointer' : 'move')
-      .style('filter', (d) => {
-          if (isCleanView && activeFilters.size > 0) {
-              const matches = 
-                  (activeFilters.has('meter') && d.data.hasMeter) || 
-                  (activeFilters.has('generator') && d.data.hasGeneratorConnection) ||
-                  (activeFilters.has('no-meter') && d.data.isExcludedFromMeter) ||
-                  (activeFilters.has('ac') && d.data.isAirConditioning) ||
-                  (activeFilters.has('reserved') && d.data.isReserved) ||
-                  (activeFilters.has(d.data.type));
-                  
-              if (matches) return 'url(#filter-glow)';
-          }
-          return null;
-      })
-      .style('opacity', (d) => {
-        if (isCleanView && activeFilters.size > 0) {
-            const matches = 
-                  (activeFilters.has('meter') && d.data.hasMeter) || 
-                  (activeFilters.has('generator') && d.data.hasGeneratorConnection) ||
-                  (activeFilters.has('no-meter') && d.data.isExcludedFromMeter) ||
-                  (activeFilters.has('ac') && d.data.isAirConditioning) ||
-                  (activeFilters.has('reserved') && d.data.isReserved) ||
-                  (activeFilters.has(d.data.type));
-            return matches ? 1 : 0.2;
-        }
-
-        if (!searchMatches) return 1;
-        if (searchMatches.has(d.data.id)) return 1;
-        if (d.parent && d.parent.data.id !== 'virtual-root' && searchMatches.has(d.parent.data.id)) return 1;
-        if (d.children && d.children.some((c: any) => searchMatches.has(c.data.id))) return 1;
-        return 0.2;
+      .style('filter', (d) => (isCleanView && activeFilters.size > 0 && matchesFilters(d.data) ? 'url(#filter-glow)' : null))
+      .style('opacity', nodeOpacity);
+
+    // Draws the badges of a node in a row from x, y.
+    const renderBadges = (gNode: d3.Selection<SVGGElement, unknown, null, undefined>, node: ElectricalNode, x: number, y: number) => {
+      let xOffset = 0;
+      nodeBadges(node).forEach((badge) => {
+          const group = gNode.append('g').attr('transform', `translate(${x + xOffset}, ${y})`);
+          const totalWidth = badgeWidth(badge);
+
+          group.append('rect')
+            .attr('height', 18)
+            .attr('width', totalWidth)
+            .attr('rx', 9)
+            .attr('fill', isDark ? badge.bgDark : badge.bgLight)
+            .attr('stroke', badge.color)
+            .attr('stroke-width', 0.5);
+
+          group.append('text')
+            .attr('x', 20)
+            .attr('y', 9)
+            .attr('dominant-baseline', 'central')
+            .style('font-size', '9px')
+            .style('font-weight', 'bold')
+            .style('fill', badge.color)
+            .style('direction', 'ltr')
+            .text(badge.text);
+
+          renderIcon(group, badge.icon, badge.color, 'translate(3, 3) scale(0.5)');
+          xOffset += totalWidth + 5;
       });
+    };
 
-    nodesSelection.each(function (d: any) {
-      const nodeG = d3.select(this as SVGGElement);
-      
-      if (d.data.id === selectedNodeId) {
-          renderActionButtons(nodeG, d, true);
-      }
+    // Symbol view: the symbol in the middle of the node box, with the labels
+    // written under it or beside it. The box itself only shows selection.
+    const buildSymbolNodes = (nodesSelection: d3.Selection<SVGGElement, ExtendedHierarchyNode, any, unknown>) => {
+      nodesSelection.each(function (d: ExtendedHierarchyNode) {
+        const nodeG = d3.select(this as SVGGElement);
+        const symbol = getSymbol(symbolLibrary, d.data.type);
+        if (!symbol) return;
 
-      const shape = d.data.shape || 'rectangle';
-      const box = getRectBox(d);
-      
-      const fill = d.data.customBgColor || (d.data.type === ComponentType.SYSTEM_ROOT ? rootNodeBgColor : nodeBgColor);
+        if (d.data.id === selectedNodeId) {
+            renderActionButtons(nodeG, d, true);
+        }
+
+        const box = getRectBox(d);
+        const isHorizontal = orientation === 'horizontal';
+        const isSelected = d.data.id === selectedNodeId || multiSelection.has(d.data.id);
+        const highlight = revisionHighlights[d.data.id];
+        if (highlight) {
+          const pad = 10;
+          nodeG.append('path')
+            .attr('class', 'revision-cloud')
+            .attr('d', cloudPath(box.x - pad, box.y - pad, box.w + 2 * pad, box.h + 2 * pad))
+            .attr('fill', DIFF_COLORS[highlight])
+            .attr('fill-opacity', 0.08)
+            .attr('stroke', DIFF_COLORS[highlight])
+            .attr('stroke-width', 2);
+        }
 
-      if (shape === 'circle') {
-        nodeG.append('circle')
-          .attr('class', 'node-bg')
-          .attr('r', 40)
-          .attr('cx', 0)
-          .attr('cy', 0)
-          .attr('fill', fill)
-          .attr('stroke', (dAny: any) => {
-            if (dAny.data.id === connectionSourceId) return '#f59e0b';
-            if (dAny.data.id === selectedNodeId || multiSelection.has(dAny.data.id)) return '#3b82f6';
-            return dAny.data.type === ComponentType.SYSTEM_ROOT ? '#64748b' : secondaryTextColor;
-          })
-          .attr('stroke-width', (dAny: any) =>
-            dAny.data.id === selectedNodeId || multiSelection.has(dAny.data.id) ? 3 : 1.5
-          );
-      } else if (shape === 'square') {
-        nodeG.append('rect')
-          .attr('class', 'node-bg')
-          .attr('width', 80)
-          .attr('height', 80)
-          .attr('x', -40)
-          .attr('y', -40)
-          .attr('rx', 4)
-          .attr('fill', fill)
-          .attr('stroke', (dAny: any) => {
-            if (dAny.data.id === connectionSourceId) return '#f59e0b';
-            if (dAny.data.id === selectedNodeId || multiSelection.has(dAny.data.id)) return '#3b82f6';
-            return secondaryTextColor;
-          })
-          .attr('stroke-width', (dAny: any) =>
-            dAny.data.id === selectedNodeId || multiSelection.has(dAny.data.id) ? 3 : 1.5
-          );
-      } else {
         nodeG.append('rect')
           .attr('class', 'node-bg')
-          .attr('width', box.w)
-          .attr('height', box.h)
           .attr('x', box.x)
           .attr('y', box.y)
-          .attr('rx', 12)
-          .attr('fill', fill)
-          .attr('stroke', (dAny: any) => {
-            if (dAny.data.id === connectionSourceId) return '#f59e0b';
-            if (dAny.data.id === selectedNodeId || multiSelection.has(dAny.data.id)) return '#3b82f6';
-            return dAny.data.type === ComponentType.SYSTEM_ROOT ? '#64748b' : secondaryTextColor;
-          })
-          .attr('stroke-width', (dAny: any) =>
-            dAny.data.id === selectedNodeId || multiSelection.has(dAny.data.id) || dAny.data.id === connectionSourceId ? 3 : 1.5
-          );
-
-        nodeG.append('path')
-          .attr('d', (dAny: any) => {
-            const r = 12;
-            const box2 = getRectBox(dAny);
-            return `M${box2.x},${box2.y + 6} v${-6 + r} a${r},${r} 0 0 1 ${r},${-r} h${
-              box2.w - 2 * r
-            } a${r},${r} 0 0 1 ${r},${r} v${6 - r}`;
-          })
-          .attr('fill', (dAny: ExtendedHierarchyNode) =>
-            dAny.data.customColor || COMPONENT_CONFIG[dAny.data.type]?.color || '#94a3b8'
-          );
+          .attr('width', box.w)
+          .attr('height', box.h)
+          .attr('rx', 6)
+          .attr('fill', 'transparent')
+          .attr('stroke', d.data.id === connectionSourceId ? '#f59e0b' : isSelected ? '#3b82f6' : 'transparent')
+          .attr('stroke-width', 2);
+
+        const [cx, cy] = isHorizontal ? [SYMBOL_SIZE / 2, 0] : [0, SYMBOL_SIZE / 2];
+        renderSymbol(nodeG, symbol, d.data.customColor || textColor, `translate(${cx}, ${cy})`, !isHorizontal);
+
+        // The labels, the load line and the badge row form one block, under
+        // the symbol or vertically centered beside it.
+        const lines = symbolLabelLines(d.data);
+        const loadText = getLoadText(d.data);
+        const textLines = loadText ? [...lines, loadText] : lines;
+        const rowW = symbolBadgeRowWidth(d.data);
+        const blockH = textLines.length * SYMBOL_LINE_HEIGHT + (rowW > 0 ? SYMBOL_BADGE_ROW : 0);
+        const [labelX, labelY] = isHorizontal ? [cx, SYMBOL_SIZE / 2 + 4] : [SYMBOL_SIZE / 2 + 8, cy - blockH / 2];
+        textLines.forEach((line, i) => {
+          const isLoad = i === lines.length;
+          const label = nodeG.append('text')
+            .attr('class', 'symbol-label')
+            .attr('x', labelX)
+            .attr('y', labelY + (i + 0.5) * SYMBOL_LINE_HEIGHT)
+            .attr('dominant-baseline', 'central')
+            .style('font-size', SYMBOL_LABEL_FONT)
+            .style('font-weight', i === 0 || isLoad ? 'bold' : 'normal')
+            .style('fill', isLoad ? (isDark ? '#34d399' : '#059669') : i === 0 ? textColor : secondaryTextColor)
+            .style('pointer-events', 'none')
+            .text(line);
+          if (isHorizontal) {
+            label.attr('text-anchor', 'middle');
+            if (isLoad) label.style('direction', 'ltr');
+          } else {
+            label.attr('text-anchor', 'start').style('direction', 'ltr');
+          }
+        });
+
+        if (rowW > 0) {
+          const rowY = labelY + textLines.length * SYMBOL_LINE_HEIGHT + 4;
+          let rowX = isHorizontal ? cx - rowW / 2 : labelX;
+          if (hasSymbolNav(d.data)) {
+            const navButton = nodeG.append('g')
+              .attr('class', 'offpage-nav')
+              .attr('transform', `translate(${rowX + 9}, ${rowY + 9})`)
+              .style('cursor', 'pointer')
+              .on('mousedown', (e) => e.stopPropagation())
+              .on('click', (e) => {
+                e.stopPropagation();
+                const target = liveNode(d).offPageTarget;
+                if (target) liveRef.current.onNavigateOffPage?.(target);
+              });
+            navButton.append('title').text(t.offPage.goTo);
+            navButton.append('circle')
+              .attr('r', 9)
+              .attr('fill', COMPONENT_CONFIG[ComponentType.OFF_PAGE_CONNECTOR].color);
+            renderIcon(navButton, 'double_arrow', '#ffffff', 'translate(-6, -6) scale(0.5)');
+            rowX += 18 + 5;
+          }
+          renderBadges(nodeG, d.data, rowX, rowY);
+        }
+
+        if (d.data.isCollapsed && d._children && d._children.length > 0) {
+          const [px, py] = isHorizontal ? [SYMBOL_SIZE, 0] : [0, SYMBOL_SIZE];
+          nodeG.append('circle')
+            .attr('r', 8)
+            .attr('cx', px)
+            .attr('cy', py)
+            .attr('fill', dotColor)
+            .attr('stroke', secondaryTextColor)
+            .attr('stroke-width', 1)
+            .style('cursor', 'pointer')
+            .style('pointer-events', 'all')
+            .on('click', (e) => {
+              e.stopPropagation();
+              liveRef.current.onToggleCollapse(liveNode(d));
+            });
+          nodeG.append('text')
+            .attr('x', px)
+            .attr('y', py)
+            .attr('text-anchor', 'middle')
+            .attr('dominant-baseline', 'central')
+            .attr('fill', secondaryTextColor)
+            .style('font-size', '12px')
+            .style('font-weight', 'bold')
+            .style('pointer-events', 'none')
+            .text('+');
+        }
+      });
+    };
+
+    // Draws the content of node elements: those that come into view and those
+    // whose content changed since they were drawn.
+    const buildNodes = (nodesSelection: d3.Selection<SVGGElement, ExtendedHierarchyNode, any, unknown>) => {
+      if (isSymbolView) {
+        buildSymbolNodes(nodesSelection);
+        return;
       }
-    });
+      nodesSelection.each(function (d: any) {
+        const nodeG = d3.select(this as SVGGElement);
+      
+        if (d.data.id === selectedNodeId) {
+            renderActionButtons(nodeG, d, true);
+        }
 
-    const contentG = nodesSelection.append('g')
-      .attr('transform', (d) => {
         const shape = d.data.shape || 'rectangle';
         const box = getRectBox(d);
-        if (shape === 'circle' || shape === 'square') {
-          return `translate(0, 0)`;
+
+        const highlight = revisionHighlights[d.data.id];
+        if (highlight) {
+          const pad = 10;
+          const outline = shape === 'rectangle' ? box : { x: -40, y: -40, w: 80, h: 80 };
+          nodeG.append('path')
+            .attr('class', 'revision-cloud')
+            .attr('d', cloudPath(outline.x - pad, outline.y - pad, outline.w + 2 * pad, outline.h + 2 * pad))
+            .attr('fill', DIFF_COLORS[highlight])
+            .attr('fill-opacity', 0.08)
+            .attr('stroke', DIFF_COLORS[highlight])
+            .attr('stroke-width', 2);
         }
-        if (orientation === 'horizontal')
-          return `translate(${d.width / 2}, ${box.y + 25})`;
-        else return `translate(0, ${box.y + 25})`;
-      });
+      
+        const fill = d.data.customBgColor || (d.data.type === ComponentType.SYSTEM_ROOT ? rootNodeBgColor : nodeBgColor);
 
-    contentG.each(function (d) {
-      const el = d3.select(this as SVGGElement);
-      const iconColor = d.data.customColor || COMPONENT_CONFIG[d.data.type]?.color || '#94a3b8';
-
-      if (d.data.customImage) {
-        el.append('image')
-          .attr('xlink:href', d.data.customImage)
-          .attr('x', -20)
-          .attr('y', -20)
-          .attr('width', 40)
-          .attr('height', 40)
-          .style('clip-path', 'circle(20px at center)');
-      } else {
-        const shape = d.data.shape || 'rectangle';
-        if (shape === 'rectangle') {
-          el.append('circle')
-            .attr('r', 16)
+        if (shape === 'circle') {
+          nodeG.append('circle')
+            .attr('class', 'node-bg')
+            .attr('r', 40)
             .attr('cx', 0)
             .attr('cy', 0)
-            .attr('fill', isDark ? '#1e293b' : '#ffffff')
-            .attr('stroke', iconColor)
-            .attr('stroke-width', 1.5);
+            .attr('fill', fill)
+            .attr('stroke', (dAny: any) => {
+              if (dAny.data.id === connectionSourceId) return '#f59e0b';
+              if (dAny.data.id === selectedNodeId || multiSelection.has(dAny.data.id)) return '#3b82f6';
+              return dAny.data.type === ComponentType.SYSTEM_ROOT ? '#64748b' : secondaryTextColor;
+            })
+            .attr('stroke-width', (dAny: any) =>
+              dAny.data.id === selectedNodeId || multiSelection.has(dAny.data.id) ? 3 : 1.5
+            );
+        } else if (shape === 'square') {
+          nodeG.append('rect')
+            .attr('class', 'node-bg')
+            .attr('width', 80)
+            .attr('height', 80)
+            .attr('x', -40)
+            .attr('y', -40)
+            .attr('rx', 4)
+            .attr('fill', fill)
+            .attr('stroke', (dAny: any) => {
+              if (dAny.data.id === connectionSourceId) return '#f59e0b';
+              if (dAny.data.id === selectedNodeId || multiSelection.has(dAny.data.id)) return '#3b82f6';
+              return secondaryTextColor;
+            })
+            .attr('stroke-width', (dAny: any) =>
+              dAny.data.id === selectedNodeId || multiSelection.has(dAny.data.id) ? 3 : 1.5
+            );
+        } else if (d.data.type === ComponentType.OFF_PAGE_CONNECTOR) {
+          // Continuation symbol: a box pointing in the direction of flow.
+          const tip = 18;
+          const outline = orientation === 'horizontal'
+            ? `M${box.x},${box.y} h${box.w - tip} l${tip},${box.h / 2} l${-tip},${box.h / 2} h${-(box.w - tip)} Z`
+            : `M${box.x},${box.y} h${box.w} v${box.h - tip} l${-box.w / 2},${tip} l${-box.w / 2},${-tip} Z`;
+          nodeG.append('path')
+            .attr('class', 'node-bg')
+            .attr('d', outline)
+            .attr('fill', fill)
+            .attr('stroke', (dAny: any) => {
+              if (dAny.data.id === connectionSourceId) return '#f59e0b';
+              if (dAny.data.id === selectedNodeId || multiSelection.has(dAny.data.id)) return '#3b82f6';
+              return dAny.data.customColor || COMPONENT_CONFIG[dAny.data.type].color;
+            })
+            .attr('stroke-width', (dAny: any) =>
+              dAny.data.id === selectedNodeId || multiSelection.has(dAny.data.id) || dAny.data.id === connectionSourceId ? 3 : 1.5
+            );
+        } else {
+          nodeG.append('rect')
+            .attr('class', 'node-bg')
+            .attr('width', box.w)
+            .attr('height', box.h)
+            .attr('x', box.x)
+            .attr('y', box.y)
+            .attr('rx', 12)
+            .attr('fill', fill)
+            .attr('stroke', (dAny: any) => {
+              if (dAny.data.id === connectionSourceId) return '#f59e0b';
+              if (dAny.data.id === selectedNodeId || multiSelection.has(dAny.data.id)) return '#3b82f6';
+              return dAny.data.type === ComponentType.SYSTEM_ROOT ? '#64748b' : secondaryTextColor;
+            })
+            .attr('stroke-width', (dAny: any) =>
+              dAny.data.id === selectedNodeId || multiSelection.has(dAny.data.id) || dAny.data.id === connectionSourceId ? 3 : 1.5
+            );
+
+          nodeG.append('path')
+            .attr('d', (dAny: any) => {
+              const r = 12;
+              const box2 = getRectBox(dAny);
+              return `M${box2.x},${box2.y + 6} v${-6 + r} a${r},${r} 0 0 1 ${r},${-r} h${
+                box2.w - 2 * r
+              } a${r},${r} 0 0 1 ${r},${r} v${6 - r}`;
+            })
+            .attr('fill', (dAny: ExtendedHierarchyNode) =>
+              dAny.data.customColor || COMPONENT_CONFIG[dAny.data.type]?.color || '#94a3b8'
+            );
         }
+      });
+
+      const contentG = nodesSelection.append('g')
+        .attr('transform', (d) => {
+          const shape = d.data.shape || 'rectangle';
+          const box = getRectBox(d);
+          if (shape === 'circle' || shape === 'square') {
+            return `translate(0, 0)`;
+          }
+          if (orientation === 'horizontal')
+            return `translate(${d.width / 2}, ${box.y + 25})`;
+          else return `translate(0, ${box.y + 25})`;
+        });
+
+      contentG.each(function (d) {
+        const el = d3.select(this as SVGGElement);
+        const iconColor = d.data.customColor || COMPONENT_CONFIG[d.data.type]?.color || '#94a3b8';
+
+        if (d.data.customImage) {
+          el.append('image')
+            .attr('xlink:href', d.data.customImage)
+            .attr('x', -20)
+            .attr('y', -20)
+            .attr('width', 40)
+            .attr('height', 40)
+            .style('clip-path', 'circle(20px at center)');
+        } else {
+          const shape = d.data.shape || 'rectangle';
+          if (shape === 'rectangle') {
+            el.append('circle')
+              .attr('r', 16)
+              .attr('cx', 0)
+              .attr('cy', 0)
+              .attr('fill', isDark ? '#1e293b' : '#ffffff')
+              .attr('stroke', iconColor)
+              .attr('stroke-width', 1.5);
+          }
         
-        const iconName = COMPONENT_CONFIG[d.data.type]?.icon;
-        const defaultTransform = 'translate(-9, -9) scale(0.75)';
-        renderIcon(el, iconName, iconColor, defaultTransform);
-      }
-    });
+          const iconName = COMPONENT_CONFIG[d.data.type]?.icon;
+          const defaultTransform = 'translate(-9, -9) scale(0.75)';
+          renderIcon(el, iconName, iconColor, defaultTransform);
+        }
+      });
 
-    contentG.each(function (d) {
-      const el = d3.select(this as SVGGElement);
-      const shape = d.data.shape || 'rectangle';
-
-      if (shape === 'circle' || shape === 'square') {
-        el.append('text')
-          .attr('x', 0)
-          .attr('y', 28)
-          .attr('text-anchor', 'middle')
-          .style('font-size', '10px')
-          .style('font-weight', 'bold')
-          .style('fill', textColor)
-          .text(() => getTranslatedName(d.data.name, d.data.type));
-      } else {
-        el.append('text')
-          .attr('x', 0)
-          .attr('y', 32)
-          .attr('text-anchor', 'middle')
-          .style('font-size', '14px')
-          .style('font-weight', 'bold')
-          .style('fill', textColor)
-          .text(() => getTranslatedName(d.data.name, d.data.type));
-
-        el.append('text')
-          .attr('x', 0)
-          .attr('y', 48)
-          .attr('text-anchor', 'middle')
-          .style('font-size', '10px')
-          .style('font-weight', 'bold')
-          .style('fill', () => d.data.customColor || COMPONENT_CONFIG[d.data.type]?.color || '#94a3b8')
-          .style('opacity', 0.9)
-          .text(() => d.data.componentNumber || t.componentTypes[d.data.type] || d.data.type);
-
-        el.append('text')
-          .attr('x', 0)
-          .attr('y', 62)
-          .attr('text-anchor', 'middle')
-          .style('font-size', '11px')
-          .style('fill', secondaryTextColor)
-          .text(() => {
-            const specs: string[] = [];
-            if (d.data.amps) specs.push(`${d.data.amps}A`);
-            if (d.data.voltage) specs.push(`${d.data.voltage}V`);
-            if (d.data.kva) specs.push(`${d.data.kva}kVA`);
-            return specs.join(' | ');
-          });
+      contentG.each(function (d) {
+        const el = d3.select(this as SVGGElement);
+        const shape = d.data.shape || 'rectangle';
 
-        let yOffset = 62;
-        if (d.data.model) {
-          yOffset += 14;
+        if (shape === 'circle' || shape === 'square') {
           el.append('text')
             .attr('x', 0)
-            .attr('y', yOffset)
+            .attr('y', 28)
             .attr('text-anchor', 'middle')
             .style('font-size', '10px')
-            .style('font-style', 'italic')
-            .style('fill', secondaryTextColor)
-            .text(d.data.model);
-        }
-        
-        const desc = getTranslatedDescription(d.data.description);
-        if (desc) {
-          yOffset += 14;
-          const maxLength = 25;
-          const lines = [];
-          if (desc.length > maxLength) {
-              const mid = Math.ceil(desc.length / 2);
-              const splitIndex = desc.indexOf(' ', mid);
-              if (splitIndex !== -1 && splitIndex < desc.length - 5) {
-                 lines.push(desc.substring(0, splitIndex));
-                 lines.push(desc.substring(splitIndex + 1));
-              } else {
-                 lines.push(desc.substring(0, maxLength));
-                 lines.push(desc.substring(maxLength));
-              }
-          } else {
-              lines.push(desc);
-          }
-          
-          const textEl = el.append('text')
+            .style('font-weight', 'bold')
+            .style('fill', textColor)
+            .text(() => getTranslatedName(d.data.name, d.data.type));
+        } else {
+          el.append('text')
             .attr('x', 0)
-            .attr('y', yOffset)
+            .attr('y', 32)
+            .attr('text-anchor', 'middle')
+            .style('font-size', '14px')
+            .style('font-weight', 'bold')
+            .style('fill', textColor)
+            .text(() => getTranslatedName(d.data.name, d.data.type));
+
+          el.append('text')
+            .attr('x', 0)
+            .attr('y', 48)
             .attr('text-anchor', 'middle')
             .style('font-size', '10px')
-            .style('fill', secondaryTextColor);
+            .style('font-weight', 'bold')
+            .style('fill', () => d.data.customColor || COMPONENT_CONFIG[d.data.type]?.color || '#94a3b8')
+            .style('opacity', 0.9)
+            .text(() => d.data.componentNumber || t.componentTypes[d.data.type] || d.data.type);
 
-          lines.forEach((line, i) => {
-              textEl.append('tspan')
+          el.append('text')
+            .attr('x', 0)
+            .attr('y', 62)
+            .attr('text-anchor', 'middle')
+            .style('font-size', '11px')
+            .style('fill', secondaryTextColor)
+            .text(() => {
+              const specs: string[] = [];
+              if (d.data.amps) specs.push(`${d.data.amps}A`);
+              if (d.data.voltage) specs.push(`${d.data.voltage}V`);
+              if (d.data.kva) specs.push(`${d.data.kva}kVA`);
+              const phaseTag = getPhaseTag(d.data);
+              if (phaseTag) specs.push(phaseTag);
+              return specs.join(' | ');
+            });
+
+          let yOffset = 62;
+          const loadText = getLoadText(d.data);
+          if (loadText) {
+            yOffset += 14;
+            el.append('text')
+              .attr('x', 0)
+              .attr('y', yOffset)
+              .attr('text-anchor', 'middle')
+              .style('font-size', '10px')
+              .style('font-weight', 'bold')
+              .style('fill', isDark ? '#34d399' : '#059669')
+              .style('direction', 'ltr')
+              .text(loadText);
+          }
+
+          if (d.data.model) {
+            yOffset += 14;
+            el.append('text')
+              .attr('x', 0)
+              .attr('y', yOffset)
+              .attr('text-anchor', 'middle')
+              .style('font-size', '10px')
+              .style('font-style', 'italic')
+              .style('fill', secondaryTextColor)
+              .text(d.data.model);
+          }
+        
+          const desc = getNodeDescription(d.data);
+          if (desc) {
+            yOffset += 14;
+            const maxLength = 25;
+            const lines = [];
+            if (desc.length > maxLength) {
+                const mid = Math.ceil(desc.length / 2);
+                const splitIndex = desc.indexOf(' ', mid);
+                if (splitIndex !== -1 && splitIndex < desc.length - 5) {
+                   lines.push(desc.substring(0, splitIndex));
+                   lines.push(desc.substring(splitIndex + 1));
+                } else {
+                   lines.push(desc.substring(0, maxLength));
+                   lines.push(desc.substring(maxLength));
+                }
+            } else {
+                lines.push(desc);
+            }
+          
+            const textEl = el.append('text')
+              .attr('x', 0)
+              .attr('y', yOffset)
+              .attr('text-anchor', 'middle')
+              .style('font-size', '10px')
+              .style('fill', secondaryTextColor);
+
+            lines.forEach((line, i) => {
+                textEl.append('tspan')
+                    .attr('x', 0)
+                    .attr('dy', i === 0 ? 0 : '1.2em')
+                    .text(line);
+            });
+            yOffset += (lines.length - 1) * 12;
+          }
+
+          if (d.data.place || d.data.building || d.data.floor) {
+               yOffset += 14;
+               const locText = [];
+               if (d.data.building) locText.push(d.data.building);
+               if (d.data.floor) locText.push(d.data.floor);
+               if (d.data.place) locText.push(d.data.place);
+
+               el.append('text')
                   .attr('x', 0)
-                  .attr('dy', i === 0 ? 0 : '1.2em')
-                  .text(line);
-          });
-          yOffset += (lines.length - 1) * 12;
+                  .attr('y', yOffset)
+                  .attr('text-anchor', 'middle')
+                  .style('font-size', '9px')
+                  .style('font-weight', '500')
+                  .style('fill', isDark ? '#94a3b8' : '#64748b')
+                  .text(locText.join(', '));
+          }
         }
+      });
 
-        if (d.data.place || d.data.building || d.data.floor) {
-             yOffset += 14;
-             const locText = [];
-             if (d.data.building) locText.push(d.data.building);
-             if (d.data.floor) locText.push(d.data.floor);
-             if (d.data.place) locText.push(d.data.place);
+      nodesSelection
+        .filter((d) => !!(d.data.isCollapsed && d._children && d._children.length > 0))
+        .append('circle')
+        .attr('r', 8)
+        .attr('cx', (d) => {
+          const shape = d.data.shape || 'rectangle';
+          return shape === 'rectangle'
+            ? orientation === 'horizontal'
+              ? d.width
+              : 0
+            : 35;
+        })
+        .attr('cy', (d) => {
+          const shape = d.data.shape || 'rectangle';
+          return shape === 'rectangle'
+            ? orientation === 'horizontal'
+              ? 0
+              : d.height
+            : 35;
+        })
+        .attr('fill', dotColor)
+        .attr('stroke', secondaryTextColor)
+        .attr('stroke-width', 1)
+        .style('cursor', 'pointer')
+        .style('pointer-events', 'all')
+        .on('click', function(e, d) {
+            e.stopPropagation();
+            liveRef.current.onToggleCollapse(liveNode(d));
+        });
 
-             el.append('text')
-                .attr('x', 0)
-                .attr('y', yOffset)
-                .attr('text-anchor', 'middle')
-                .style('font-size', '9px')
-                .style('font-weight', '500')
-                .style('fill', isDark ? '#94a3b8' : '#64748b')
-                .text(locText.join(', '));
-        }
+      nodesSelection
+        .filter((d) => !!(d.data.isCollapsed && d._children && d._children.length > 0))
+        .append('text')
+        .attr('text-anchor', 'middle')
+        .attr('dominant-baseline', 'central')
+        .attr('x', (d) => {
+          const shape = d.data.shape || 'rectangle';
+          return shape === 'rectangle'
+            ? orientation === 'horizontal'
+              ? d.width
+              : 0
+            : 35;
+        })
+        .attr('y', (d) => {
+          const shape = d.data.shape || 'rectangle';
+          return shape === 'rectangle'
+            ? orientation === 'horizontal'
+              ? 0
+              : d.height
+            : 35;
+        })
+        .attr('fill', secondaryTextColor)
+        .style('font-size', '12px')
+        .style('font-weight', 'bold')
+        .style('pointer-events', 'none')
+        .text('+');
+
+      if (onNavigateOffPage) {
+        const navButtons = nodesSelection
+          .filter((d) => d.data.type === ComponentType.OFF_PAGE_CONNECTOR && !!d.data.offPageTarget && (d.data.shape || 'rectangle') === 'rectangle')
+          .append('g')
+          .attr('class', 'offpage-nav')
+          .attr('transform', (d) => {
+            const box = getRectBox(d);
+            return `translate(${box.x + 14}, ${box.y + 14})`;
+          })
+          .style('cursor', 'pointer')
+          .on('mousedown', (e) => e.stopPropagation())
+          .on('click', (e, d) => {
+            e.stopPropagation();
+            const target = liveNode(d).offPageTarget;
+            if (target) liveRef.current.onNavigateOffPage?.(target);
+          });
+        navButtons.append('title').text(t.offPage.goTo);
+        navButtons.append('circle')
+          .attr('r', 9)
+          .attr('fill', COMPONENT_CONFIG[ComponentType.OFF_PAGE_CONNECTOR].color);
+        navButtons.each(function () {
+          renderIcon(d3.select(this as SVGGElement), 'double_arrow', '#ffffff', 'translate(-6, -6) scale(0.5)');
+        });
       }
-    });
 
-    nodesSelection
-      .filter((d) => !!(d.data.isCollapsed && d._children && d._children.length > 0))
-      .append('circle')
-      .attr('r', 8)
-      .attr('cx', (d) => {
-        const shape = d.data.shape || 'rectangle';
-        return shape === 'rectangle'
-          ? orientation === 'horizontal'
-            ? d.width
-            : 0
-          : 35;
-      })
-      .attr('cy', (d) => {
-        const shape = d.data.shape || 'rectangle';
-        return shape === 'rectangle'
-          ? orientation === 'horizontal'
-            ? 0
-            : d.height
-          : 35;
-      })
-      .attr('fill', dotColor)
-      .attr('stroke', secondaryTextColor)
-      .attr('stroke-width', 1)
-      .style('cursor', 'pointer')
-      .style('pointer-events', 'all')
-      .on('click', function(e, d) {
-          e.stopPropagation();
-          onToggleCollapse(d.data);
+      nodesSelection.each(function(d: ExtendedHierarchyNode) {
+          const box = getRectBox(d);
+          const [x, y] = d.data.shape && d.data.shape !== 'rectangle' ? [0, -35] : [box.x + 8, box.y + box.h - 24];
+          renderBadges(d3.select(this as SVGGElement), d.data, x, y);
       });
-
-    nodesSelection
-      .filter((d) => !!(d.data.isCollapsed && d._children && d._children.length > 0))
-      .append('text')
-      .attr('text-anchor', 'middle')
-      .attr('dominant-baseline', 'central')
-      .attr('x', (d) => {
-        const shape = d.data.shape || 'rectangle';
-        return shape === 'rectangle'
-          ? orientation === 'horizontal'
-            ? d.width
-            : 0
-          : 35;
-      })
-      .attr('y', (d) => {
-        const shape = d.data.shape || 'rectangle';
-        return shape === 'rectangle'
-          ? orientation === 'horizontal'
-            ? 0
-            : d.height
-          : 35;
-      })
-      .attr('fill', secondaryTextColor)
-      .style('font-size', '12px')
-      .style('font-weight', 'bold')
-      .style('pointer-events', 'none')
-      .text('+');
-
-    const renderBadge = (
-        gNode: d3.Selection<SVGGElement, unknown, null, undefined>, 
-        textValue: string, 
-        iconName: string, 
-        color: string, 
-        bgColorLight: string, 
-        bgColorDark: string, 
-        d: ExtendedHierarchyNode,
-        xOffset: number,
-        customTransform?: string
-    ) => {
-        const group = gNode.append('g');
-        
-        const text = group.append('text')
-          .attr('y', 9)
-          .attr('dominant-baseline', 'central')
-          .style('font-size', '9px')
-          .style('font-weight', 'bold')
-          .style('fill', color)
-          .style('direction', 'ltr')
-          .text(textValue || '');
-
-        const textLen = text.node()?.getComputedTextLength() || 0;
-        const totalWidth = 20 + (textValue ? textLen + 6 : 0);
-
-        text.attr('x', 20);
-
-        group.insert('rect', 'text')
-          .attr('height', 18)
-          .attr('width', totalWidth)
-          .attr('rx', 9)
-          .attr('fill', isDark ? bgColorDark : bgColorLight)
-          .attr('stroke', color)
-          .attr('stroke-width', 0.5);
-
-        const defaultTrans = customTransform || 'translate(3, 3) scale(0.5)';
-        renderIcon(group, iconName, color, defaultTrans);
-        
-        if (d.data.shape && d.data.shape !== 'rectangle') {
-             group.attr('transform', `translate(${xOffset}, -35)`);
-        } else {
-             const box = getRectBox(d);
-             const y = box.y + box.h - 24;
-             group.attr('transform', `translate(${box.x + 8 + xOffset}, ${y})`);
-        }
-        return totalWidth;
     };
 
-    nodesSelection.each(function(d: any) {
-        const gNode = d3.select(this as SVGGElement);
-        let currentXOffset = 0;
-
-        if (d.data.hasMeter) {
-            const w = renderBadge(gNode, d.data.meterNumber || '', 'speed', '#3b82f6', '#dbeafe', '#1e3a8a', d, currentXOffset);
-            currentXOffset += w + 5;
-        }
-        if (d.data.hasGeneratorConnection) {
-            const w = renderBadge(gNode, d.data.generatorName || '', 'letter_g', '#ef4444', '#fee2e2', '#7f1d1d', d, currentXOffset);
-            currentXOffset += w + 5;
-        }
-        if (d.data.isExcludedFromMeter) {
-             const w = renderBadge(gNode, '', 'power_off', '#64748b', '#f1f5f9', '#334155', d, currentXOffset);
-            currentXOffset += w + 5;
-        }
-        if (d.data.isAirConditioning) {
-             const w = renderBadge(gNode, '', 'ac_unit', '#06b6d4', '#cffafe', '#155e75', d, currentXOffset);
-            currentXOffset += w + 5;
-        }
-        if (d.data.isReserved) {
-             const w = renderBadge(gNode, '', 'lock', '#eab308', '#fef9c3', '#713f12', d, currentXOffset);
-            currentXOffset += w + 5;
-        }
-    });
-
-    linksToRender.forEach((d: any) => {
-        const cableText = d.target.data.connectionStyle?.cableSize;
+    if (!useCanvas) linksToRender.forEach((d: any) => {
+        const cableLabel = d.target.data.connectionStyle?.cableSize || formatCableLabel(d.target.data.connectionStyle?.cable);
+        const drop = showVoltageDrops ? voltageDrops[d.target.data.id] : undefined;
+        const cableText = [cableLabel, drop ? `ΔU ${drop.cumulativePercent.toFixed(2)}%` : ''].filter(Boolean).join(' · ');
         if (cableText) {
-            const stroke = d.target.data.connectionStyle?.strokeColor || d.target.data.customColor || COMPONENT_CONFIG[d.target.data.type]?.color || linkColor;
+            const stroke = drop?.exceedsLimit
+                ? '#dc2626'
+                : d.target.data.connectionStyle?.strokeColor || d.target.data.customColor || COMPONENT_CONFIG[d.target.data.type]?.color || linkColor;
             const tXOffset = d.target.data.manualX || 0;
             const tYOffset = d.target.data.manualY || 0;
             
             const tgtX = orientation === 'horizontal' ? d.target.y + tXOffset : d.target.x + tXOffset;
             const tgtY = orientation === 'horizontal' ? d.target.x + tYOffset : d.target.y + tYOffset;
 
-            const labelG = labelsGroup.append('g');
+            const labelG = labelsGroup.append('g').datum(linkBounds(d));
             let xPos = tgtX;
             let yPos = tgtY;
             let rotation = 0;
@@ -1343,18 +1970,182 @@ export const Diagram: React.FC<DiagramProps> = ({
                .style('direction', 'ltr') 
                .text(cableText);
 
-            const bbox = txt.node()?.getBBox();
-            if (bbox) {
-                 labelG.insert('rect', 'text')
-                    .attr('x', bbox.x - 4)
-                    .attr('y', bbox.y - 2)
-                    .attr('width', bbox.width + 8)
-                    .attr('height', bbox.height + 4)
-                    .attr('rx', 4)
-                    .attr('fill', stroke)
-                    .style('opacity', 0.9);
-            }
+            const textWidth = measureText(cableText, LABEL_FONT);
+            labelG.insert('rect', 'text')
+               .attr('x', (textAnchor === 'end' ? -textWidth : 0) - 4)
+               .attr('y', -12)
+               .attr('width', textWidth + 8)
+               .attr('height', 16)
+               .attr('rx', 4)
+               .attr('fill', stroke)
+               .style('opacity', 0.9);
+        }
+    });
+
+    // The request stays pending until the node is drawn, e.g. after its page
+    // is switched to or its collapsed ancestors are expanded.
+    const focusTarget = focusRequest && focusRequest.key !== focusedKeyRef.current
+      ? nodesToRender.find(d => d.data.id === focusRequest.nodeId)
+      : undefined;
+    if (focusRequest && focusTarget) {
+      focusedKeyRef.current = focusRequest.key;
+      const offX = focusTarget.data.manualX || 0;
+      const offY = focusTarget.data.manualY || 0;
+      const [cx, cy] = orientation === 'horizontal'
+        ? [focusTarget.y + offX + focusTarget.width / 2, focusTarget.x + offY]
+        : [focusTarget.x + offX, focusTarget.y + offY + focusTarget.height / 2];
+      const k = Math.max(transformRef.current.k, 1);
+      svg.transition().duration(600)
+        .call(zoom.transform, d3.zoomIdentity.translate(width / 2 - k * cx, height / 2 - k * cy).scale(k));
+
+      // Brief ring around the node so the eye finds it after the jump.
+      const box = nodeBox(focusTarget);
+      g.append('rect')
+        .attr('class', 'focus-pulse')
+        .attr('x', box.x1 - 8).attr('y', box.y1 - 8)
+        .attr('width', box.x2 - box.x1 + 16).attr('height', box.y2 - box.y1 + 16)
+        .attr('rx', 16)
+        .attr('fill', 'none')
+        .attr('stroke', '#f59e0b')
+        .attr('stroke-width', 4)
+        .style('pointer-events', 'none')
+        .transition().delay(600).duration(1200)
+        .attr('opacity', 0)
+        .remove();
+    }
+
+    if (useCanvas && canvas) {
+      canvas.style.display = 'block';
+      const scene: CanvasScene = {
+        background: bgColor,
+        textColor,
+        links: [
+          ...linksToRender.map(d => {
+            const style = d.target.data.connectionStyle || {};
+            return {
+              path: linkPath(d),
+              bounds: linkBounds(d),
+              stroke: style.strokeColor || d.target.data.customColor || COMPONENT_CONFIG[d.target.data.type]?.color || linkColor,
+              width: d.target.data.id === selectedLinkId ? 4 : 2.5,
+              dash: LINE_DASHES[style.lineStyle || ''] || [],
+              opacity: !searchMatches ? 0.8 : searchMatches.has(d.source.data.id) || searchMatches.has(d.target.data.id) ? 1 : 0.1
+            };
+          }),
+          ...extraLinksToRender.map(d => ({
+            path: linkPath(d),
+            bounds: linkBounds(d),
+            stroke: isDark ? '#f59e0b' : '#d97706',
+            width: 2.5,
+            dash: [8, 5],
+            opacity: 0.8
+          })),
+          ...nodesToRender.filter(hasBusbar).flatMap(d => {
+            const { feed, bus } = busbarOf(d);
+            return ([[feed, 2.5], [bus, 6]] as [[Point, Point], number][]).map(([[a, b], lineWidth]) => ({
+              path: `M${a[0]},${a[1]} L${b[0]},${b[1]}`,
+              bounds: { x1: Math.min(a[0], b[0]), y1: Math.min(a[1], b[1]), x2: Math.max(a[0], b[0]), y2: Math.max(a[1], b[1]) },
+              stroke: busbarColor(d),
+              width: lineWidth,
+              dash: [],
+              opacity: nodeOpacity(d)
+            }));
+          })
+        ],
+        nodes: nodesToRender.map(d => {
+          const isSelected = d.data.id === selectedNodeId || multiSelection.has(d.data.id);
+          const accent = d.data.customColor || COMPONENT_CONFIG[d.data.type]?.color || '#94a3b8';
+          return {
+            id: d.data.id,
+            bounds: nodeBox(d),
+            shape: isSymbolView ? 'rectangle' : d.data.shape || 'rectangle',
+            fill: d.data.customBgColor || (d.data.type === ComponentType.SYSTEM_ROOT ? rootNodeBgColor : nodeBgColor),
+            stroke: d.data.id === connectionSourceId ? '#f59e0b' : isSelected ? '#3b82f6' : d.data.type === ComponentType.SYSTEM_ROOT ? '#64748b' : secondaryTextColor,
+            strokeWidth: isSelected || d.data.id === connectionSourceId ? 3 : 1.5,
+            accent,
+            title: getTranslatedName(d.data.name, d.data.type),
+            subtitle: d.data.componentNumber || t.componentTypes[d.data.type] || d.data.type,
+            opacity: nodeOpacity(d)
+          };
+        })
+      };
+      updateViewport = () => drawScene(canvas, scene, transformRef.current, width, height);
+
+      // Nodes are not elements here, so clicks are matched against the layout.
+      svg.on('click', (event) => {
+        if (event.defaultPrevented) return;
+        const [x, y] = d3.pointer(event, g.node());
+        const hit = isAnnotating ? undefined : hitTest(scene, x, y);
+        if (hit) {
+          if (!isCleanView) onNodeClick(nodeLookup.get(hit.id)!.data, event.shiftKey);
+          return;
         }
+        if (isCleanView && !isAnnotating) return;
+        onBackgroundClick?.();
+        if (isAnnotating) onAnnotationSelect?.(null);
+      });
+    } else {
+      // A node element is redrawn only when something it shows has changed;
+      // settings that change every node start over.
+      const renderContext = [orientation, theme, language, isCleanView, showLoads, !!onNavigateOffPage, symbolLibrary].join('|');
+      if (nodesGroup.property('__context') !== renderContext) {
+        nodesGroup.property('__context', renderContext);
+        nodeElements.property('__signature', null);
+      }
+      const signatures = new Map(nodesToRender.map(d => {
+        const { children, manualX, manualY, ...fields } = d.data;
+        return [d.data.id, JSON.stringify([
+          fields, d.children?.length || 0, d._children?.length || 0, d.width, d.height,
+          d.data.id === selectedNodeId, multiSelection.has(d.data.id), d.data.id === connectionSourceId,
+          revisionHighlights[d.data.id], faultLevels[d.data.id], getNodeDescription(d.data)
+        ])];
+      }));
+
+      // Off-screen nodes are hidden and drawn the first time they come into view.
+      updateViewport = () => {
+        const view = renderForExport ? null : visibleBounds(transformRef.current, width, height);
+        const inView = (b: Bounds) => !view || intersects(b, view);
+        const stale: SVGGElement[] = [];
+        nodeElements.each(function (d) {
+          const visible = inView(nodeBounds(d));
+          this.style.display = visible ? '' : 'none';
+          if (visible && (this as any).__signature !== signatures.get(d.data.id)) stale.push(this);
+        });
+        if (stale.length > 0) {
+          const selection = d3.selectAll<SVGGElement, ExtendedHierarchyNode>(stale);
+          selection.selectAll('*').remove();
+          buildNodes(selection);
+          selection.property('__signature', (d) => signatures.get(d.data.id));
+        }
+        [linkPathSelection, linkExtraSelection, linkHitSelection].forEach(selection =>
+          selection.style('display', (d) => (inView(linkBounds(d)) ? null : 'none')));
+        labelsGroup.selectChildren<SVGGElement, Bounds>().style('display', (b) => (inView(b) ? null : 'none'));
+      };
+    }
+    updateViewport();
+    setView(transformRef.current);
+
+    // Overview of the whole page, with the selection and search matches picked out.
+    const minimapNodes: MinimapNode[] = nodesToRender.map(d => ({
+      id: d.data.id,
+      bounds: nodeBox(d),
+      color: d.data.customColor || COMPONENT_CONFIG[d.data.type]?.color || '#94a3b8',
+      highlight: d.data.id === selectedNodeId || multiSelection.has(d.data.id)
+        ? 'selected'
+        : searchMatches?.has(d.data.id) ? 'match' : null
+    }));
+    const center = (d: ExtendedHierarchyNode) => {
+      const b = nodeBox(d);
+      return [(b.x1 + b.x2) / 2, (b.y1 + b.y2) / 2];
+    };
+    setMinimap({
+      bounds: minimapNodes.reduce((b, n) => ({
+        x1: Math.min(b.x1, n.bounds.x1 - 100),
+        y1: Math.min(b.y1, n.bounds.y1 - 100),
+        x2: Math.max(b.x2, n.bounds.x2 + 100),
+        y2: Math.max(b.y2, n.bounds.y2 + 100)
+      }), { x1: Infinity, y1: Infinity, x2: -Infinity, y2: -Infinity }),
+      nodes: minimapNodes,
+      links: [...linksToRender, ...extraLinksToRender].map(d => [...center(d.source), ...center(d.target)] as [number, number, number, number])
     });
 
     let minX = Infinity;
@@ -1485,9 +2276,14 @@ export const Diagram: React.FC<DiagramProps> = ({
       const config = COMPONENT_CONFIG[type];
       let iconX = isRTL ? legendW - 25 : 25;
       let textX = isRTL ? legendW / 2 : 45;
-      legendG.append('circle').attr('cx', iconX).attr('cy', y).attr('r', 8).attr('fill', isDark ? '#0f172a' : '#f8fafc').attr('stroke', config.color).attr('stroke-width', 1.5);
-      const itemG = legendG.append('g').attr('transform', `translate(${iconX - 6}, ${y - 6})`);
-      renderIcon(itemG, config.icon, config.color, 'scale(0.5)');
+      const symbol = getSymbol(symbolLibrary, type);
+      if (symbol) {
+        renderSymbol(legendG, symbol, textColor, `translate(${iconX}, ${y}) scale(0.35)`);
+      } else {
+        legendG.append('circle').attr('cx', iconX).attr('cy', y).attr('r', 8).attr('fill', isDark ? '#0f172a' : '#f8fafc').attr('stroke', config.color).attr('stroke-width', 1.5);
+        const itemG = legendG.append('g').attr('transform', `translate(${iconX - 6}, ${y - 6})`);
+        renderIcon(itemG, config.icon, config.color, 'scale(0.5)');
+      }
       legendG.append('text').attr('x', textX).attr('y', y).attr('dominant-baseline', 'middle').attr('fill', textColor).attr('font-size', '11px').attr('text-anchor', isRTL ? 'middle' : 'start').text(t.componentTypes[type]);
     });
 
@@ -1509,12 +2305,26 @@ export const Diagram: React.FC<DiagramProps> = ({
     isConnectMode, connectionSourceId, t, language, theme, onBackgroundClick, multiSelection, isPrintMode,
     activeProject, onEditPrintSettings, onAddRoot, onAddGenerator, onDuplicateChild, onDeleteNode,
     onToggleCollapse, onGroupNode, onNodeMove, onDisconnectLink, isCleanView, activeFilters, annotations,
-    isAnnotating, annotationColor, isLayoutLocked
+    isAnnotating, annotationTool, annotationColor, selectedAnnotationId, onAnnotationAdd, onAnnotationSelect,
+    onAnnotationMove, onAnnotationEdit, isLayoutLocked, showLoads, showVoltageDrops, voltageDrops, faultLevels, revisionHighlights,
+    onNavigateOffPage, onLinkRoute, focusRequest, renderForExport
   ]);
 
   return (
     <div ref={wrapperRef} className={`w-full h-full relative overflow-hidden ${isDark ? 'bg-slate-900' : 'bg-white'}`} style={{ touchAction: 'none' }}>
-      <svg id="diagram-svg" ref={svgRef} width="100%" height="100%" className="block" />
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" style={{ display: 'none' }} />
+      <svg id="diagram-svg" ref={svgRef} width="100%" height="100%" className="block relative" />
+      {minimap && !isPrintMode && !renderForExport && (
+        <Minimap
+          scene={minimap}
+          view={view}
+          viewWidth={dimensions.width}
+          viewHeight={dimensions.height}
+          onPan={(x, y) => panToRef.current(x, y)}
+          isDark={isDark}
+          t={t}
+        />
+      )}
     </div>
   );
 };
@@ -4,7 +4,7 @@ import React from 'react';
 interface ExportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onExport: (format: 'svg' | 'png' | 'json' | 'excel' | 'pdf') => void;
+  onExport: (format: 'svg' | 'png' | 'json' | 'excel' | 'csv' | 'pdf') => void;
   t: any;
 }
 
@@ -87,6 +87,20 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExp
             <span className="material-icons-round text-slate-500 group-hover:text-blue-400">arrow_forward</span>
           </button>
 
+          <button 
+            onClick={() => onExport('csv')}
+            className="w-full flex items-center justify-between p-4 rounded-lg bg-slate-700/50 hover:bg-slate-700 border border-slate-600 hover:border-blue-500/50 transition-all group"
+          >
+            <div className="flex items-center gap-3">
+              <span className="material-icons-round text-lime-400 text-2xl">list_alt</span>
+              <div className="text-left">
+                <div className="text-sm font-bold text-slate-200 group-hover:text-white">{t.export.formats.csv}</div>
+                <div className="text-xs text-slate-500">{t.export.desc.csv}</div>
+              </div>
+            </div>
+            <span className="material-icons-round text-slate-500 group-hover:text-blue-400">arrow_forward</span>
+          </button>
+
           <button 
             onClick={() => onExport('json')}
             className="w-full flex items-center justify-between p-4 rounded-lg bg-slate-700/50 hover:bg-slate-700 border border-slate-600 hover:border-blue-500/50 transition-all group"
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Timeline, HistoryScope } from '../services/history';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  pageName: string;
+  pageTimeline: Timeline<unknown>;
+  workspaceTimeline: Timeline<unknown>;
+  onJump: (scope: HistoryScope, position: number) => void;
+  onClose: () => void;
+  t: any;
+}
+
+const TimelineList: React.FC<{
+  title: string;
+  timeline: Timeline<unknown>;
+  onJump: (position: number) => void;
+  t: any;
+}> = ({ title, timeline, onJump, t }) => {
+  // Position k means the first k entries are applied; 0 is the state before any of them.
+  const rows = [
+    { id: 'initial', label: t.history.initial, time: undefined as number | undefined },
+    ...timeline.entries.map(entry => ({ id: entry.id, label: entry.label, time: entry.time as number | undefined }))
+  ];
+
+  return (
+    <div>
+      <h3 className="text-xs font-bold text-slate-400 uppercase mb-2">{title}</h3>
+      {timeline.entries.length === 0 ? (
+        <p className="text-sm text-slate-500">{t.history.empty}</p>
+      ) : (
+        <ul className="bg-slate-800/50 border border-slate-700 rounded-lg divide-y divide-slate-800">
+          {rows.map((row, position) => {
+            const isCurrent = position === timeline.cursor;
+            const isUndone = position > timeline.cursor;
+            return (
+              <li key={row.id}>
+                <button
+                  onClick={() => onJump(position)}
+                  className={`w-full flex items-center justify-between gap-3 px-3 py-2 text-sm text-start transition-colors ${
+                    isCurrent ? 'bg-blue-600/20 text-white' : isUndone ? 'text-slate-500 hover:bg-slate-800' : 'text-slate-300 hover:bg-slate-800'
+                  }`}
+                >
+                  <span className="flex items-center gap-2 min-w-0">
+                    <span className={`material-icons-round text-sm ${isCurrent ? 'text-blue-400' : 'text-transparent'}`}>arrow_right</span>
+                    <span className={`truncate ${isUndone ? 'line-through' : ''}`}>{row.label}</span>
+                  </span>
+                  {row.time !== undefined && (
+                    <span className="text-xs text-slate-500 shrink-0" dir="ltr">{new Date(row.time).toLocaleTimeString()}</span>
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, pageName, pageTimeline, workspaceTimeline, onJump, onClose, t }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 w-full max-w-lg rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800">
+          <div className="flex items-center gap-3">
+             <span className="material-icons-round text-blue-400 text-3xl">history</span>
+             <h2 className="text-xl font-bold text-white">{t.history.title}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto flex-1 space-y-6">
+          <TimelineList
+            title={`${t.history.page} — ${pageName}`}
+            timeline={pageTimeline}
+            onJump={position => onJump('page', position)}
+            t={t}
+          />
+          <TimelineList
+            title={t.history.workspace}
+            timeline={workspaceTimeline}
+            onJump={position => onJump('workspace', position)}
+            t={t}
+          />
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 flex justify-end">
+             <button
+                onClick={onClose}
+                className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded transition-colors font-medium"
+            >
+                {t.inputPanel.close}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
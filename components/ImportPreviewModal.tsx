@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { ElectricalNode, Page } from '../types';
+import { SheetImportIssue } from '../services/spreadsheet';
+
+export interface ImportPreview {
+  fileName: string;
+  page: Page;
+  issues: SheetImportIssue[];
+  replacePage?: { id: string; name: string }; // existing page the file was exported from
+}
+
+interface ImportPreviewModalProps {
+  preview: ImportPreview | null;
+  onConfirm: (pageName: string, replace: boolean) => void;
+  onClose: () => void;
+  t: any;
+}
+
+const countNodes = (items: ElectricalNode[]): number =>
+  items.reduce((sum, node) => sum + 1 + countNodes(node.children), 0);
+
+const TreeRow: React.FC<{ node: ElectricalNode; t: any }> = ({ node, t }) => (
+  <li>
+    <div className="flex items-center gap-2 py-0.5 text-sm">
+      <span className="text-slate-200">{node.name}</span>
+      {node.componentNumber && <span className="text-xs text-slate-500">{node.componentNumber}</span>}
+      <span className="text-xs text-slate-400">{t.componentTypes[node.type] || node.type}</span>
+      {node.amps ? <span className="text-xs text-blue-400" dir="ltr">{node.amps}A</span> : null}
+    </div>
+    {node.children.length > 0 && (
+      <ul className="border-s border-slate-700 ms-2 ps-3">
+        {node.children.map(child => <TreeRow key={child.id} node={child} t={t} />)}
+      </ul>
+    )}
+  </li>
+);
+
+export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({ preview, onConfirm, onClose, t }) => {
+  const [pageName, setPageName] = useState('');
+
+  useEffect(() => {
+    if (preview) setPageName(preview.fileName.replace(/\.[^.]+$/, ''));
+  }, [preview]);
+
+  if (!preview) return null;
+
+  const nodeCount = countNodes(preview.page.items);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 w-full max-w-3xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800">
+          <div className="flex items-center gap-3">
+             <span className="material-icons-round text-emerald-400 text-3xl">playlist_add</span>
+             <div>
+               <h2 className="text-xl font-bold text-white">{t.csvImport.title}</h2>
+               <p className="text-xs text-slate-400">{preview.fileName}</p>
+             </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">{t.csvImport.pageName}</label>
+            <input
+              type="text"
+              value={pageName}
+              onChange={(e) => setPageName(e.target.value)}
+              className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+            />
+          </div>
+
+          <p className="text-sm text-slate-300">
+            {t.csvImport.summary.replace('{nodes}', String(nodeCount)).replace('{roots}', String(preview.page.items.length))}
+          </p>
+
+          {preview.issues.length > 0 ? (
+            <div className="bg-amber-500/10 border border-amber-500/30 rounded-lg p-3">
+              <h3 className="text-sm font-bold text-amber-400 mb-2">{t.spreadsheetImport.issuesTitle}</h3>
+              <ul className="space-y-1 text-xs text-amber-200">
+                {preview.issues.map((issue, i) => (
+                  <li key={i}>
+                    #{issue.row}: {t.spreadsheetImport.issues[issue.kind]}{issue.value ? ` (${issue.value})` : ''}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="text-sm text-emerald-400">{t.csvImport.noIssues}</p>
+          )}
+
+          {nodeCount === 0 ? (
+            <p className="text-sm text-slate-500">{t.csvImport.empty}</p>
+          ) : (
+            <ul className="bg-slate-800/50 border border-slate-700 rounded-lg p-3">
+              {preview.page.items.map(root => <TreeRow key={root.id} node={root} t={t} />)}
+            </ul>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 flex justify-end gap-2">
+             <button
+                onClick={onClose}
+                className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded transition-colors font-medium"
+            >
+                {t.inputPanel.close}
+            </button>
+             {preview.replacePage && (
+               <button
+                  onClick={() => onConfirm(preview.replacePage!.name, true)}
+                  disabled={nodeCount === 0}
+                  className="px-6 py-2 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded transition-colors font-medium"
+              >
+                  {t.csvImport.replace.replace('{page}', preview.replacePage.name)}
+              </button>
+             )}
+             <button
+                onClick={() => onConfirm(pageName.trim() || preview.page.name, false)}
+                disabled={nodeCount === 0}
+                className="px-6 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded transition-colors font-medium"
+            >
+                {t.csvImport.confirm}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { SchemaIssue, formatSchemaIssue } from '../services/projectSchema';
+
+interface ImportReportModalProps {
+  report: { fileName: string; issues: SchemaIssue[] } | null;
+  onClose: () => void;
+  t: any;
+}
+
+export const ImportReportModal: React.FC<ImportReportModalProps> = ({ report, onClose, t }) => {
+  if (!report) return null;
+
+  const lines = report.issues.map(issue => formatSchemaIssue(issue, t));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 w-full max-w-2xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800">
+          <div className="flex items-center gap-3">
+             <span className="material-icons-round text-red-400 text-3xl">error_outline</span>
+             <div>
+               <h2 className="text-xl font-bold text-white">{t.schema.title}</h2>
+               <p className="text-xs text-slate-400">{report.fileName}</p>
+             </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          <p className="text-sm text-slate-300">
+            {t.schema.subtitle.replace('{count}', String(report.issues.length))}
+          </p>
+          <ul className="bg-red-500/5 border border-red-500/30 rounded-lg p-3 space-y-1 text-xs text-red-200 font-mono">
+            {lines.map((line, i) => <li key={i}>{line}</li>)}
+          </ul>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 flex justify-end gap-2">
+             <button
+                onClick={() => navigator.clipboard?.writeText(`${report.fileName}\n${lines.join('\n')}`)}
+                className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded border border-slate-700 transition-colors text-sm flex items-center gap-2"
+            >
+                <span className="material-icons-round text-sm">content_copy</span>{t.schema.copy}
+            </button>
+             <button
+                onClick={onClose}
+                className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded transition-colors font-medium"
+            >
+                {t.inputPanel.close}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,8 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { ComponentType, NewNodeData, ElectricalNode, ConnectionStyle, NodeShape } from '../types';
-import { COMMON_MODELS, COMPONENT_CONFIG, DEFAULT_CONNECTION_STYLE } from '../constants';
+import { ComponentType, NewNodeData, ElectricalNode, ConnectionStyle, NodeShape, CalculationSettings, TripSettings } from '../types';
+import { COMMON_MODELS, COMPONENT_CONFIG, DEFAULT_CONNECTION_STYLE, DEFAULT_CALCULATION_SETTINGS, DEFAULT_ELECTRONIC_TRIP_SETTINGS, BUSBAR_TYPES } from '../constants';
+import { CableSuggestion, applyCableSuggestion } from '../services/cableSizing';
 
 interface InputPanelProps {
   selectedNode: ElectricalNode | null;
@@ -17,7 +18,14 @@ interface InputPanelProps {
   onDetach?: (nodeId: string) => void;
   onStartConnection?: (nodeId: string) => void;
   onNavigate?: (nodeId: string) => void;
+  offPageTargets?: { id: string; label: string }[];
+  onNavigateOffPage?: (nodeId: string) => void;
   onDisconnectLink?: () => void; 
+  cableSuggestion?: CableSuggestion;
+  onApplyAllCableSuggestions?: () => void;
+  calculationSettings?: CalculationSettings;
+  onCalculationSettingsChange?: (settings: Partial<CalculationSettings>) => void;
+  onOpenCoordination?: () => void;
   t: any;
 }
 
@@ -35,7 +43,14 @@ export const InputPanel: React.FC<InputPanelProps> = ({
     onDetach,
     onStartConnection,
     onNavigate,
+    offPageTargets = [],
+    onNavigateOffPage,
     onDisconnectLink,
+    cableSuggestion,
+    onApplyAllCableSuggestions,
+    calculationSettings = DEFAULT_CALCULATION_SETTINGS,
+    onCalculationSettingsChange,
+    onOpenCoordination,
     t
 }) => {
   const [activeTab, setActiveTab] = useState<'add' | 'edit'>('add');
@@ -62,7 +77,15 @@ export const InputPanel: React.FC<InputPanelProps> = ({
     hasGeneratorConnection: false,
     generatorName: '',
     isAirConditioning: false,
-    isReserved: false
+    isReserved: false,
+    offPageTarget: undefined,
+    busbar: false,
+    phaseType: undefined,
+    phase: undefined,
+    impedancePercent: undefined,
+    faultLevel: undefined,
+    breakingCapacity: undefined,
+    tripSettings: undefined
   });
 
   const [connectionData, setConnectionData] = useState<ConnectionStyle>(DEFAULT_CONNECTION_STYLE);
@@ -92,7 +115,15 @@ export const InputPanel: React.FC<InputPanelProps> = ({
             hasGeneratorConnection: selectedNode.hasGeneratorConnection || false,
             generatorName: selectedNode.generatorName || '',
             isAirConditioning: selectedNode.isAirConditioning || false,
-            isReserved: selectedNode.isReserved || false
+            isReserved: selectedNode.isReserved || false,
+            offPageTarget: selectedNode.offPageTarget,
+            busbar: selectedNode.busbar || false,
+            phaseType: selectedNode.phaseType,
+            phase: selectedNode.phase,
+            impedancePercent: selectedNode.impedancePercent,
+            faultLevel: selectedNode.faultLevel,
+            breakingCapacity: selectedNode.breakingCapacity,
+            tripSettings: selectedNode.tripSettings
         });
     } else if (activeTab === 'add') {
         setFormData({
@@ -117,7 +148,15 @@ export const InputPanel: React.FC<InputPanelProps> = ({
             hasGeneratorConnection: false,
             generatorName: '',
             isAirConditioning: false,
-            isReserved: false
+            isReserved: false,
+            offPageTarget: undefined,
+            busbar: false,
+            phaseType: undefined,
+            phase: undefined,
+            impedancePercent: undefined,
+            faultLevel: undefined,
+            breakingCapacity: undefined,
+            tripSettings: undefined
         });
     }
   }, [activeTab, selectedNode]);
@@ -136,7 +175,9 @@ export const InputPanel: React.FC<InputPanelProps> = ({
               lineType: selectedNode.connectionStyle?.lineType || 'orthogonal',
               startMarker: selectedNode.connectionStyle?.startMarker || 'none',
               endMarker: selectedNode.connectionStyle?.endMarker || 'none',
-              cableSize: selectedNode.connectionStyle?.cableSize || ''
+              cableSize: selectedNode.connectionStyle?.cableSize || '',
+              cable: selectedNode.connectionStyle?.cable,
+              waypoints: selectedNode.connectionStyle?.waypoints
           });
       }
   }, [selectedNode, selectionMode]);
@@ -147,12 +188,30 @@ export const InputPanel: React.FC<InputPanelProps> = ({
       ...prev,
       [name]: type === 'checkbox' 
         ? (e.target as HTMLInputElement).checked 
-        : (name === 'amps' || name === 'voltage' || name === 'kva') 
+        : (name === 'amps' || name === 'voltage' || name === 'kva' || name === 'impedancePercent' || name === 'faultLevel' || name === 'breakingCapacity') 
             ? (value === '' ? undefined : Number(value)) 
-            : value
+            : (name === 'phaseType' || name === 'phase' || name === 'offPageTarget') && value === ''
+                ? undefined
+                : value
     }));
   };
 
+  const handleTripChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => {
+      const tripSettings: TripSettings = { ...(prev.tripSettings || { curve: 'C' }) };
+      if (name === 'curve') {
+        tripSettings.curve = value as TripSettings['curve'];
+      } else {
+        // An empty field goes back to the default, so the key must not stay behind as undefined.
+        const key = name as keyof typeof DEFAULT_ELECTRONIC_TRIP_SETTINGS;
+        if (value === '') delete tripSettings[key];
+        else tripSettings[key] = Number(value);
+      }
+      return { ...prev, tripSettings };
+    });
+  };
+
   const handleConnectionChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
       const { name, value } = e.target;
       const newStyle = { ...connectionData, [name]: value };
@@ -160,6 +219,24 @@ export const InputPanel: React.FC<InputPanelProps> = ({
       onEditConnection(newStyle);
   };
 
+  const handleCableChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      const { name, value, type } = e.target;
+      const cable = {
+          ...connectionData.cable,
+          [name]: value === '' ? undefined : type === 'number' ? Number(value) : value
+      };
+      const newStyle = { ...connectionData, cable };
+      setConnectionData(newStyle);
+      onEditConnection(newStyle);
+  };
+
+  const handleApplyCableSuggestion = () => {
+      if (!cableSuggestion) return;
+      const newStyle = applyCableSuggestion(connectionData, cableSuggestion);
+      setConnectionData(newStyle);
+      onEditConnection(newStyle);
+  };
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (file) {
@@ -205,7 +282,15 @@ export const InputPanel: React.FC<InputPanelProps> = ({
             hasGeneratorConnection: false,
             generatorName: '',
             isAirConditioning: false,
-            isReserved: false
+            isReserved: false,
+            offPageTarget: undefined,
+            busbar: false,
+            phaseType: undefined,
+            phase: undefined,
+            impedancePercent: undefined,
+            faultLevel: undefined,
+            breakingCapacity: undefined,
+            tripSettings: undefined
         }));
     } else {
         onEdit(formData);
@@ -428,6 +513,146 @@ export const InputPanel: React.FC<InputPanelProps> = ({
                     />
                   </div>
 
+                  <div className="bg-slate-900/50 p-3 rounded border border-slate-700/50 space-y-3">
+                      <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t.inputPanel.cableData}</h4>
+                      <div className="grid grid-cols-2 gap-4">
+                          <div>
+                              <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.conductorMaterial}</label>
+                              <select
+                                name="material"
+                                value={connectionData.cable?.material || 'copper'}
+                                onChange={handleCableChange}
+                                className="w-full bg-slate-900 border border-slate-700 text-white rounded px-3 py-2 text-sm"
+                              >
+                                  <option value="copper">{t.inputPanel.materials.copper}</option>
+                                  <option value="aluminium">{t.inputPanel.materials.aluminium}</option>
+                              </select>
+                          </div>
+                          <div>
+                              <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.installationMethod}</label>
+                              <select
+                                name="installationMethod"
+                                value={connectionData.cable?.installationMethod || 'conduit'}
+                                onChange={handleCableChange}
+                                className="w-full bg-slate-900 border border-slate-700 text-white rounded px-3 py-2 text-sm"
+                              >
+                                  <option value="conduit">{t.inputPanel.installationMethods.conduit}</option>
+                                  <option value="tray">{t.inputPanel.installationMethods.tray}</option>
+                                  <option value="air">{t.inputPanel.installationMethods.air}</option>
+                                  <option value="buried">{t.inputPanel.installationMethods.buried}</option>
+                              </select>
+                          </div>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                          <div>
+                              <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.crossSection}</label>
+                              <input
+                                type="number"
+                                name="crossSection"
+                                min="0"
+                                step="any"
+                                value={connectionData.cable?.crossSection ?? ''}
+                                onChange={handleCableChange}
+                                className="w-full bg-slate-900 border border-slate-700 text-white rounded px-2 py-2 focus:outline-none focus:border-blue-500 text-sm"
+                              />
+                          </div>
+                          <div>
+                              <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.cores}</label>
+                              <input
+                                type="number"
+                                name="cores"
+                                min="1"
+                                value={connectionData.cable?.cores ?? ''}
+                                onChange={handleCableChange}
+                                className="w-full bg-slate-900 border border-slate-700 text-white rounded px-2 py-2 focus:outline-none focus:border-blue-500 text-sm"
+                              />
+                          </div>
+                          <div>
+                              <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.cableLength}</label>
+                              <input
+                                type="number"
+                                name="length"
+                                min="0"
+                                step="any"
+                                value={connectionData.cable?.length ?? ''}
+                                onChange={handleCableChange}
+                                className="w-full bg-slate-900 border border-slate-700 text-white rounded px-2 py-2 focus:outline-none focus:border-blue-500 text-sm"
+                              />
+                          </div>
+                      </div>
+                  </div>
+
+                  <div className="bg-slate-900/50 p-3 rounded border border-slate-700/50 space-y-3">
+                      <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t.inputPanel.cableSizing.title}</h4>
+                      <div className="grid grid-cols-2 gap-4">
+                          <div>
+                              <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.cableSizing.ambient}</label>
+                              <input
+                                type="number"
+                                value={calculationSettings.ambientTemperature}
+                                onChange={(e) => e.target.value !== '' && onCalculationSettingsChange?.({ ambientTemperature: Number(e.target.value) })}
+                                className="w-full bg-slate-900 border border-slate-700 text-white rounded px-2 py-2 focus:outline-none focus:border-blue-500 text-sm"
+                              />
+                          </div>
+                          <div>
+                              <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.cableSizing.grouping}</label>
+                              <input
+                                type="number"
+                                min="0.1"
+                                max="1"
+                                step="0.05"
+                                value={calculationSettings.groupingFactor}
+                                onChange={(e) => e.target.value !== '' && onCalculationSettingsChange?.({ groupingFactor: Number(e.target.value) })}
+                                className="w-full bg-slate-900 border border-slate-700 text-white rounded px-2 py-2 focus:outline-none focus:border-blue-500 text-sm"
+                              />
+                          </div>
+                      </div>
+                      {cableSuggestion ? (
+                          <div className="space-y-2 text-xs text-slate-300">
+                              <div className="grid grid-cols-2 gap-1" dir="ltr">
+                                  <span className="text-slate-500">I<sub>b</sub></span><span>{cableSuggestion.designCurrent.toFixed(1)} A</span>
+                                  <span className="text-slate-500">I<sub>n</sub></span><span>{cableSuggestion.protectiveRating ? `${cableSuggestion.protectiveRating} A` : '-'}</span>
+                                  <span className="text-slate-500">k</span><span>{cableSuggestion.deratingFactor}</span>
+                                  <span className="text-slate-500">I<sub>z</sub> ≥</span><span>{cableSuggestion.requiredAmpacity.toFixed(1)} A</span>
+                              </div>
+                              <div className="flex items-center justify-between">
+                                  <span>
+                                      {t.inputPanel.cableSizing.suggested}:{' '}
+                                      <strong className="text-blue-400" dir="ltr">
+                                          {cableSuggestion.suggestedSize ? `${cableSuggestion.suggestedSize} mm²` : t.inputPanel.cableSizing.noSize}
+                                      </strong>
+                                  </span>
+                                  {cableSuggestion.suggestedSize && cableSuggestion.suggestedSize !== cableSuggestion.currentSize && (
+                                      <button
+                                        type="button"
+                                        onClick={handleApplyCableSuggestion}
+                                        className="px-2 py-1 bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors"
+                                      >
+                                          {t.inputPanel.cableSizing.apply}
+                                      </button>
+                                  )}
+                              </div>
+                              {cableSuggestion.isUndersized && (
+                                  <p className="text-red-400 flex items-center gap-1">
+                                      <span className="material-icons-round text-sm">warning</span>
+                                      {t.inputPanel.cableSizing.undersized.replace('{size}', String(cableSuggestion.currentSize))}
+                                  </p>
+                              )}
+                          </div>
+                      ) : (
+                          <p className="text-xs text-slate-500">{t.inputPanel.cableSizing.noCurrent}</p>
+                      )}
+                      {onApplyAllCableSuggestions && (
+                          <button
+                            type="button"
+                            onClick={onApplyAllCableSuggestions}
+                            className="w-full py-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-white rounded transition-colors"
+                          >
+                              {t.inputPanel.cableSizing.applyAll}
+                          </button>
+                      )}
+                  </div>
+
                   <div>
                       <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.lineType}</label>
                       <select 
@@ -439,6 +664,23 @@ export const InputPanel: React.FC<InputPanelProps> = ({
                           <option value="orthogonal">{t.inputPanel.routeTypes.orthogonal}</option>
                           <option value="straight">{t.inputPanel.routeTypes.straight}</option>
                       </select>
+                      {(connectionData.lineType || 'orthogonal') === 'orthogonal' && (
+                          <div className="flex items-center justify-between gap-2 mt-1.5">
+                              <p className="text-[11px] text-slate-500">{t.inputPanel.routeHint}</p>
+                              {connectionData.waypoints && (
+                                  <button
+                                    onClick={() => {
+                                        const newStyle = { ...connectionData, waypoints: undefined };
+                                        setConnectionData(newStyle);
+                                        onEditConnection(newStyle);
+                                    }}
+                                    className="shrink-0 text-xs text-blue-400 hover:text-blue-300"
+                                  >
+                                      {t.inputPanel.resetRoute}
+                                  </button>
+                              )}
+                          </div>
+                      )}
                   </div>
                   
                   <div>
@@ -492,6 +734,17 @@ export const InputPanel: React.FC<InputPanelProps> = ({
                       Styling the connection to: <strong>{selectedNode.name}</strong>
                   </div>
 
+                  {onOpenCoordination && (
+                      <button
+                        type="button"
+                        onClick={onOpenCoordination}
+                        className="w-full py-2 mt-2 bg-slate-700 hover:bg-slate-600 text-white rounded transition-colors flex items-center justify-center gap-2 text-sm"
+                      >
+                        <span className="material-icons-round text-sm">stacked_line_chart</span>
+                        {t.coordination.title}
+                      </button>
+                  )}
+
                   <button 
                     type="button"
                     onClick={onDisconnectLink}
@@ -804,6 +1057,38 @@ export const InputPanel: React.FC<InputPanelProps> = ({
           </div>
         </div>
 
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.phaseType}</label>
+            <select
+              name="phaseType"
+              value={formData.phaseType || ''}
+              onChange={handleChange}
+              className="w-full bg-slate-900 border border-slate-700 text-white rounded px-3 py-2 focus:outline-none focus:border-blue-500 text-sm"
+            >
+              <option value="">{t.inputPanel.phaseAuto}</option>
+              <option value="single">{t.inputPanel.singlePhase}</option>
+              <option value="three">{t.inputPanel.threePhase}</option>
+            </select>
+          </div>
+          {formData.phaseType === 'single' && (
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.phase}</label>
+              <select
+                name="phase"
+                value={formData.phase || ''}
+                onChange={handleChange}
+                className="w-full bg-slate-900 border border-slate-700 text-white rounded px-3 py-2 focus:outline-none focus:border-blue-500 text-sm"
+              >
+                <option value="">-</option>
+                <option value="L1">L1</option>
+                <option value="L2">L2</option>
+                <option value="L3">L3</option>
+              </select>
+            </div>
+          )}
+        </div>
+
         {showKvaOption && (
             <div>
                 <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.kva}</label>
@@ -818,6 +1103,179 @@ export const InputPanel: React.FC<InputPanelProps> = ({
             </div>
         )}
 
+        {formData.type === ComponentType.OFF_PAGE_CONNECTOR && (
+            <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">{t.offPage.target}</label>
+                <div className="flex gap-2">
+                    <select
+                    name="offPageTarget"
+                    value={formData.offPageTarget || ''}
+                    onChange={handleChange}
+                    className="flex-1 min-w-0 bg-slate-900 border border-slate-700 text-white rounded px-3 py-2 focus:outline-none focus:border-blue-500 text-sm"
+                    >
+                        <option value="">{t.offPage.noTarget}</option>
+                        {formData.offPageTarget && !offPageTargets.some(o => o.id === formData.offPageTarget) && (
+                            <option value={formData.offPageTarget}>{t.offPage.missing}</option>
+                        )}
+                        {offPageTargets.map(option => (
+                            <option key={option.id} value={option.id}>{option.label}</option>
+                        ))}
+                    </select>
+                    {activeTab === 'edit' && selectedNode.offPageTarget && onNavigateOffPage && (
+                        <button
+                            type="button"
+                            onClick={() => onNavigateOffPage(selectedNode.offPageTarget!)}
+                            className="px-2 bg-slate-700 hover:bg-slate-600 text-teal-300 rounded transition-colors"
+                            title={t.offPage.goTo}
+                        >
+                            <span className="material-icons-round text-sm">double_arrow</span>
+                        </button>
+                    )}
+                </div>
+            </div>
+        )}
+
+        {BUSBAR_TYPES.includes(formData.type) && (
+            <div className="flex items-center gap-2">
+                <input
+                    type="checkbox"
+                    id="busbar"
+                    name="busbar"
+                    checked={formData.busbar}
+                    onChange={handleChange}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500 bg-slate-700 border-slate-600"
+                />
+                <label htmlFor="busbar" className="text-xs font-medium text-slate-300 select-none">
+                    {t.inputPanel.busbar}
+                </label>
+            </div>
+        )}
+
+        {formData.type === ComponentType.TRANSFORMER && (
+            <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.impedancePercent}</label>
+                <input
+                type="number"
+                name="impedancePercent"
+                step="0.1"
+                value={formData.impedancePercent === undefined ? '' : formData.impedancePercent}
+                onChange={handleChange}
+                placeholder="e.g. 6"
+                className="w-full bg-slate-900 border border-slate-700 text-white rounded px-3 py-2 focus:outline-none focus:border-blue-500 text-sm"
+                />
+            </div>
+        )}
+
+        {formData.type === ComponentType.SYSTEM_ROOT && (
+            <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.faultLevel}</label>
+                <input
+                type="number"
+                name="faultLevel"
+                value={formData.faultLevel === undefined ? '' : formData.faultLevel}
+                onChange={handleChange}
+                placeholder="e.g. 250"
+                className="w-full bg-slate-900 border border-slate-700 text-white rounded px-3 py-2 focus:outline-none focus:border-blue-500 text-sm"
+                />
+            </div>
+        )}
+
+        {formData.type === ComponentType.BREAKER && (
+            <div className="bg-slate-900/50 p-3 rounded border border-slate-700/50 space-y-3">
+                <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t.inputPanel.tripSettings.title}</h4>
+                <select
+                  name="curve"
+                  value={formData.tripSettings?.curve || 'C'}
+                  onChange={handleTripChange}
+                  className="w-full bg-slate-900 border border-slate-700 text-white rounded px-3 py-2 text-sm"
+                >
+                    <option value="B">{t.inputPanel.tripSettings.curves.B}</option>
+                    <option value="C">{t.inputPanel.tripSettings.curves.C}</option>
+                    <option value="D">{t.inputPanel.tripSettings.curves.D}</option>
+                    <option value="electronic">{t.inputPanel.tripSettings.curves.electronic}</option>
+                </select>
+                {formData.tripSettings?.curve === 'electronic' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.tripSettings.longTimePickup}</label>
+                        <input
+                          type="number"
+                          name="longTimePickup"
+                          step="any"
+                          value={formData.tripSettings?.longTimePickup ?? ''}
+                          onChange={handleTripChange}
+                          placeholder={String(DEFAULT_ELECTRONIC_TRIP_SETTINGS.longTimePickup)}
+                          className="w-full bg-slate-900 border border-slate-700 text-white rounded px-2 py-2 focus:outline-none focus:border-blue-500 text-sm"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.tripSettings.longTimeDelay}</label>
+                        <input
+                          type="number"
+                          name="longTimeDelay"
+                          step="any"
+                          value={formData.tripSettings?.longTimeDelay ?? ''}
+                          onChange={handleTripChange}
+                          placeholder={String(DEFAULT_ELECTRONIC_TRIP_SETTINGS.longTimeDelay)}
+                          className="w-full bg-slate-900 border border-slate-700 text-white rounded px-2 py-2 focus:outline-none focus:border-blue-500 text-sm"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.tripSettings.shortTimePickup}</label>
+                        <input
+                          type="number"
+                          name="shortTimePickup"
+                          step="any"
+                          value={formData.tripSettings?.shortTimePickup ?? ''}
+                          onChange={handleTripChange}
+                          placeholder={String(DEFAULT_ELECTRONIC_TRIP_SETTINGS.shortTimePickup)}
+                          className="w-full bg-slate-900 border border-slate-700 text-white rounded px-2 py-2 focus:outline-none focus:border-blue-500 text-sm"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.tripSettings.shortTimeDelay}</label>
+                        <input
+                          type="number"
+                          name="shortTimeDelay"
+                          step="any"
+                          value={formData.tripSettings?.shortTimeDelay ?? ''}
+                          onChange={handleTripChange}
+                          placeholder={String(DEFAULT_ELECTRONIC_TRIP_SETTINGS.shortTimeDelay)}
+                          className="w-full bg-slate-900 border border-slate-700 text-white rounded px-2 py-2 focus:outline-none focus:border-blue-500 text-sm"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.tripSettings.instantaneousPickup}</label>
+                        <input
+                          type="number"
+                          name="instantaneousPickup"
+                          step="any"
+                          value={formData.tripSettings?.instantaneousPickup ?? ''}
+                          onChange={handleTripChange}
+                          placeholder={String(DEFAULT_ELECTRONIC_TRIP_SETTINGS.instantaneousPickup)}
+                          className="w-full bg-slate-900 border border-slate-700 text-white rounded px-2 py-2 focus:outline-none focus:border-blue-500 text-sm"
+                        />
+                    </div>
+                  </div>
+                )}
+            </div>
+        )}
+
+        {(formData.type === ComponentType.BREAKER || formData.type === ComponentType.FUSE) && (
+            <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">{t.inputPanel.breakingCapacity}</label>
+                <input
+                type="number"
+                name="breakingCapacity"
+                step="0.1"
+                value={formData.breakingCapacity === undefined ? '' : formData.breakingCapacity}
+                onChange={handleChange}
+                placeholder="e.g. 10"
+                className="w-full bg-slate-900 border border-slate-700 text-white rounded px-3 py-2 focus:outline-none focus:border-blue-500 text-sm"
+                />
+            </div>
+        )}
+
         <div className="bg-slate-900/50 p-3 rounded border border-slate-700/50 space-y-3">
             <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t.inputPanel.location}</h4>
             <div className="grid grid-cols-2 gap-4">
@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Project } from '../types';
+import { MergeConflict, MergeSide, mergeProjects } from '../services/merge';
+
+export interface MergeRequest {
+  fileName: string;
+  ours: Project;
+  theirs: Project;
+}
+
+interface MergeModalProps {
+  request: MergeRequest | null;
+  onMerge: (project: Project) => void;
+  onImportCopy: () => void;
+  onClose: () => void;
+  t: any;
+}
+
+const describeConflict = (conflict: MergeConflict, t: any) => {
+  if (conflict.kind !== 'field') return t.merge[conflict.kind];
+  if (conflict.field === 'placement') return t.merge.placement;
+  if (conflict.field === 'annotation') return t.merge.annotation;
+  return t.revisions.fields[conflict.field!] || conflict.field;
+};
+
+export const MergeModal: React.FC<MergeModalProps> = ({ request, onMerge, onImportCopy, onClose, t }) => {
+  const [resolutions, setResolutions] = useState<Record<string, MergeSide>>({});
+
+  useEffect(() => {
+    setResolutions({});
+  }, [request]);
+
+  const result = useMemo(
+    () => (request ? mergeProjects(request.ours, request.theirs, resolutions) : null),
+    [request, resolutions]
+  );
+
+  if (!request || !result) return null;
+
+  const setAll = (side: MergeSide) =>
+    setResolutions(Object.fromEntries(result.conflicts.map(conflict => [conflict.key, side])));
+
+  const sideButton = (conflict: MergeConflict, side: MergeSide) => {
+    const isChosen = (resolutions[conflict.key] || 'ours') === side;
+    const value = conflict[side] || (conflict.kind === 'field' ? '—' : t.merge.deleted);
+    return (
+      <button
+        onClick={() => setResolutions(prev => ({ ...prev, [conflict.key]: side }))}
+        className={`flex-1 text-start px-3 py-2 rounded border text-xs transition-colors ${
+          isChosen ? 'border-blue-500 bg-blue-600/20 text-white' : 'border-slate-700 text-slate-400 hover:bg-slate-800'
+        }`}
+      >
+        <span className="block text-[10px] uppercase text-slate-500 mb-0.5">{side === 'ours' ? t.merge.ours : t.merge.theirs}</span>
+        <span className="break-all">{value}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 w-full max-w-3xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800">
+          <div className="flex items-center gap-3">
+             <span className="material-icons-round text-purple-400 text-3xl">merge_type</span>
+             <div>
+               <h2 className="text-xl font-bold text-white">{t.merge.title.replace('{name}', request.ours.name)}</h2>
+               <p className="text-xs text-slate-400">{request.fileName}</p>
+             </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          {result.ancestor ? (
+            <p className="text-sm text-slate-300">{t.merge.ancestor.replace('{name}', t.revisions.label.replace('{name}', result.ancestor.name))}</p>
+          ) : (
+            <p className="text-sm text-amber-400">{t.merge.noAncestor}</p>
+          )}
+          <p className="text-sm text-slate-300">
+            {t.merge.summary.replace('{merged}', String(result.autoMerged)).replace('{conflicts}', String(result.conflicts.length))}
+          </p>
+
+          {result.conflicts.length === 0 ? (
+            <p className="text-sm text-emerald-400">{t.merge.noConflicts}</p>
+          ) : (
+            <>
+              <div className="flex gap-2">
+                <button onClick={() => setAll('ours')} className="px-3 py-1 text-xs bg-slate-800 hover:bg-slate-700 text-slate-300 rounded border border-slate-700">{t.merge.allOurs}</button>
+                <button onClick={() => setAll('theirs')} className="px-3 py-1 text-xs bg-slate-800 hover:bg-slate-700 text-slate-300 rounded border border-slate-700">{t.merge.allTheirs}</button>
+              </div>
+              <ul className="space-y-3">
+                {result.conflicts.map(conflict => (
+                  <li key={conflict.key} className="bg-slate-800/50 border border-slate-700 rounded-lg p-3">
+                    <div className="flex items-center justify-between text-sm mb-2">
+                      <span className="text-slate-200 font-medium">
+                        {conflict.label}
+                        {conflict.pageName && <span className="text-xs text-slate-500 ms-2">{conflict.pageName}</span>}
+                      </span>
+                      <span className="text-xs text-amber-400">{describeConflict(conflict, t)}</span>
+                    </div>
+                    {conflict.kind === 'field' && conflict.base && (
+                      <p className="text-xs text-slate-500 mb-2">{t.merge.base}: <span className="break-all">{conflict.base}</span></p>
+                    )}
+                    <div className="flex gap-2">
+                      {sideButton(conflict, 'ours')}
+                      {sideButton(conflict, 'theirs')}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 flex justify-end gap-2">
+             <button
+                onClick={onClose}
+                className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded transition-colors font-medium"
+            >
+                {t.inputPanel.close}
+            </button>
+             <button
+                onClick={onImportCopy}
+                className="px-6 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded border border-slate-700 transition-colors font-medium"
+            >
+                {t.merge.importCopy}
+            </button>
+             <button
+                onClick={() => onMerge(result.project)}
+                className="px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors font-medium"
+            >
+                {t.merge.confirm}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { memo, useRef, useState } from 'react';
+import { Bounds, ViewTransform, visibleBounds } from '../services/diagramRendering';
+
+export interface MinimapNode {
+  id: string;
+  bounds: Bounds;
+  color: string;
+  highlight: 'selected' | 'match' | null;
+}
+
+export interface MinimapScene {
+  bounds: Bounds; // the whole page, in diagram space
+  nodes: MinimapNode[];
+  links: [number, number, number, number][]; // straight lines between node centers
+}
+
+interface MinimapProps {
+  scene: MinimapScene;
+  view: ViewTransform;
+  viewWidth: number;
+  viewHeight: number;
+  onPan: (x: number, y: number) => void; // center the view on a diagram-space point
+  isDark: boolean;
+  t: any;
+}
+
+const MAX_WIDTH = 200;
+const MAX_HEIGHT = 150;
+
+// Nodes and links only change with the diagram, not with the view, so they are
+// not redrawn on every zoom frame; only the viewport frame follows the view.
+const MinimapLayer = memo(({ scene, scale, isDark }: { scene: MinimapScene; scale: number; isDark: boolean }) => (
+  <>
+    <g stroke={isDark ? '#475569' : '#cbd5e1'} strokeWidth={1 / scale}>
+      {scene.links.map(([x1, y1, x2, y2], i) => (
+        <line key={i} x1={x1} y1={y1} x2={x2} y2={y2} />
+      ))}
+    </g>
+    {scene.nodes.map(node => (
+      <rect
+        key={node.id}
+        x={node.bounds.x1}
+        y={node.bounds.y1}
+        width={node.bounds.x2 - node.bounds.x1}
+        height={node.bounds.y2 - node.bounds.y1}
+        fill={node.highlight === 'match' ? '#facc15' : node.highlight === 'selected' ? '#3b82f6' : node.color}
+        fillOpacity={node.highlight ? 1 : 0.5}
+        stroke={node.highlight === 'selected' ? '#3b82f6' : 'none'}
+        strokeWidth={3 / scale}
+      />
+    ))}
+  </>
+));
+
+export const Minimap: React.FC<MinimapProps> = ({ scene, view, viewWidth, viewHeight, onPan, isDark, t }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  // Offset from the pointer to the view center, kept while the frame is dragged.
+  const dragOffsetRef = useRef<[number, number] | null>(null);
+
+  const { bounds } = scene;
+  const worldW = Math.max(1, bounds.x2 - bounds.x1);
+  const worldH = Math.max(1, bounds.y2 - bounds.y1);
+  const scale = Math.min(MAX_WIDTH / worldW, MAX_HEIGHT / worldH);
+  const width = worldW * scale;
+  const height = worldH * scale;
+  const frame = visibleBounds(view, viewWidth, viewHeight, 0);
+
+  const toDiagram = (event: React.PointerEvent<SVGSVGElement>): [number, number] => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return [bounds.x1 + (event.clientX - rect.left) / scale, bounds.y1 + (event.clientY - rect.top) / scale];
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const [x, y] = toDiagram(event);
+    const cx = (frame.x1 + frame.x2) / 2, cy = (frame.y1 + frame.y2) / 2;
+    const insideFrame = x >= frame.x1 && x <= frame.x2 && y >= frame.y1 && y <= frame.y2;
+    // Grabbing the frame moves it from where it was grabbed; a click elsewhere centers it there.
+    dragOffsetRef.current = insideFrame ? [cx - x, cy - y] : [0, 0];
+    if (!insideFrame) onPan(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const offset = dragOffsetRef.current;
+    if (!offset) return;
+    const [x, y] = toDiagram(event);
+    onPan(x + offset[0], y + offset[1]);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    dragOffsetRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+  };
+
+  const panelClass = isDark ? 'bg-slate-800/90 border-slate-700' : 'bg-white/90 border-slate-300';
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        title={t.minimap.show}
+        className={`absolute bottom-4 end-4 z-10 w-9 h-9 rounded-lg border shadow-lg flex items-center justify-center ${panelClass} ${isDark ? 'text-slate-300 hover:text-white' : 'text-slate-600 hover:text-slate-900'}`}
+      >
+        <span className="material-icons-round text-lg">map</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className={`absolute bottom-4 end-4 z-10 p-1.5 rounded-lg border shadow-lg ${panelClass}`}>
+      <button
+        onClick={() => setIsOpen(false)}
+        title={t.minimap.hide}
+        className={`absolute -top-2.5 -end-2.5 w-5 h-5 rounded-full border flex items-center justify-center ${panelClass} ${isDark ? 'text-slate-400 hover:text-white' : 'text-slate-500 hover:text-slate-900'}`}
+      >
+        <span className="material-icons-round text-xs">close</span>
+      </button>
+      <svg
+        width={width}
+        height={height}
+        viewBox={`${bounds.x1} ${bounds.y1} ${worldW} ${worldH}`}
+        className="block cursor-pointer"
+        style={{ touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <MinimapLayer scene={scene} scale={scale} isDark={isDark} />
+        <rect
+          x={frame.x1}
+          y={frame.y1}
+          width={frame.x2 - frame.x1}
+          height={frame.y2 - frame.y1}
+          fill={isDark ? '#3b82f6' : '#2563eb'}
+          fillOpacity={0.12}
+          stroke={isDark ? '#60a5fa' : '#2563eb'}
+          strokeWidth={1.5 / scale}
+          className="cursor-move"
+        />
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { Project } from '../types';
+import { PanelSchedule } from '../services/panelSchedule';
+import { PHASES } from '../services/phaseBalance';
+import { CellValue, toCsv, downloadCsv, renderHtmlTable, openPrintWindow, escapeHtml, safeFileName } from '../services/documentExport';
+
+interface PanelScheduleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  schedules: PanelSchedule[];
+  project: Project;
+  dir: 'ltr' | 'rtl';
+  lang: string;
+  t: any;
+}
+
+const toTable = (schedule: PanelSchedule, t: any) => {
+  const c = t.panelSchedule.columns;
+  const headers = [c.ways, c.circuit, c.rating, c.poles, c.phase, c.load, c.current, c.description];
+  const rows: CellValue[][] = schedule.rows.map(row => [
+    row.ways,
+    row.node.componentNumber ? `${row.node.componentNumber} ${row.node.name}` : row.node.name,
+    row.rating ? `${row.rating}A` : '',
+    row.poles,
+    row.phase,
+    row.isSpare ? '' : row.loadKva.toFixed(2),
+    row.isSpare ? '' : row.loadAmps.toFixed(1),
+    row.isSpare ? t.panelSchedule.spare : row.node.description || ''
+  ]);
+  const footer: CellValue[] = [
+    `${schedule.totalWays}`,
+    t.panelSchedule.total,
+    '',
+    '',
+    PHASES.map(p => `${p}: ${schedule.phaseKva[p].toFixed(1)}`).join(' / '),
+    schedule.totalKva.toFixed(2),
+    schedule.totalAmps.toFixed(1),
+    `${t.panelSchedule.spareWays}: ${schedule.spareWays}`
+  ];
+  return { headers, rows, footer };
+};
+
+const boardTitle = (schedule: PanelSchedule) =>
+  schedule.board.componentNumber ? `${schedule.board.componentNumber} - ${schedule.board.name}` : schedule.board.name;
+
+export const PanelScheduleModal: React.FC<PanelScheduleModalProps> = ({ isOpen, onClose, schedules, project, dir, lang, t }) => {
+  const [boardId, setBoardId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!schedules.some(s => s.board.id === boardId)) setBoardId(schedules[0]?.board.id || null);
+  }, [schedules, boardId]);
+
+  if (!isOpen) return null;
+
+  const schedule = schedules.find(s => s.board.id === boardId);
+  const table = schedule ? toTable(schedule, t) : null;
+
+  const handlePrint = (selected: PanelSchedule[]) => {
+    const body = selected.map(s => {
+      const { headers, rows, footer } = toTable(s, t);
+      return `<div class="section">
+        <h2>${escapeHtml(boardTitle(s))}</h2>
+        <div class="meta">${escapeHtml(s.voltage)}V · ${escapeHtml(s.board.model || '')} ${s.board.amps ? `· ${s.board.amps}A` : ''}</div>
+        ${renderHtmlTable(headers, rows, footer)}
+      </div>`;
+    }).join('');
+    openPrintWindow({
+      title: `${project.name} - ${t.panelSchedule.title}`,
+      body: `<h1>${escapeHtml(t.panelSchedule.title)}</h1>${body}`,
+      project, t, dir, lang
+    });
+  };
+
+  const handleCsv = () => {
+    if (!schedule || !table) return;
+    downloadCsv(toCsv(table.headers, [...table.rows, table.footer]), `${safeFileName(project.name)} - ${safeFileName(boardTitle(schedule))}.csv`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 w-full max-w-5xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800">
+          <div className="flex items-center gap-3">
+             <span className="material-icons-round text-purple-400 text-3xl">view_list</span>
+             <h2 className="text-xl font-bold text-white">{t.panelSchedule.title}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          {schedules.length === 0 || !schedule || !table ? (
+            <div className="text-center text-slate-500">{t.panelSchedule.noBoards}</div>
+          ) : (
+            <>
+              <div className="flex items-center gap-3">
+                <select
+                  value={schedule.board.id}
+                  onChange={(e) => setBoardId(e.target.value)}
+                  className="bg-slate-800 border border-slate-700 text-white rounded px-3 py-2 text-sm flex-1"
+                >
+                  {schedules.map(s => (
+                    <option key={s.board.id} value={s.board.id}>{boardTitle(s)}</option>
+                  ))}
+                </select>
+                <span className="text-xs text-slate-400" dir="ltr">{schedule.voltage}V</span>
+              </div>
+
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs text-slate-400 uppercase border-b border-slate-700">
+                  <tr>{table.headers.map(h => <th key={h} className="py-2 px-2">{h}</th>)}</tr>
+                </thead>
+                <tbody>
+                  {table.rows.map((row, i) => (
+                    <tr key={schedule.rows[i].node.id} className={`border-b border-slate-800 ${schedule.rows[i].isSpare ? 'text-yellow-500/80 italic' : 'text-slate-300'}`}>
+                      {row.map((cell, j) => <td key={j} className="py-2 px-2">{cell}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="text-white font-bold bg-slate-800">
+                    {table.footer.map((cell, j) => <td key={j} className="py-2 px-2 text-xs">{cell}</td>)}
+                  </tr>
+                </tfoot>
+              </table>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 flex justify-end gap-2">
+             {schedule && (
+               <>
+                 <button onClick={handleCsv} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded border border-slate-700 transition-colors text-sm flex items-center gap-2">
+                    <span className="material-icons-round text-sm">table_view</span>CSV
+                 </button>
+                 <button onClick={() => handlePrint([schedule])} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded border border-slate-700 transition-colors text-sm flex items-center gap-2">
+                    <span className="material-icons-round text-sm">print</span>{t.panelSchedule.print}
+                 </button>
+                 <button onClick={() => handlePrint(schedules)} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors text-sm flex items-center gap-2">
+                    <span className="material-icons-round text-sm">print</span>{t.panelSchedule.printAll}
+                 </button>
+               </>
+             )}
+             <button
+                onClick={onClose}
+                className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded transition-colors font-medium"
+            >
+                {t.inputPanel.close}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
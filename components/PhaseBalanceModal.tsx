@@ -0,0 +1,110 @@
+import React from 'react';
+import { PhaseConductor } from '../types';
+import { BoardPhaseBalance, PhaseReassignment, PHASES } from '../services/phaseBalance';
+
+interface PhaseBalanceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  reports: BoardPhaseBalance[];
+  onApplySuggestions: (suggestions: PhaseReassignment[]) => void;
+  t: any;
+}
+
+const PHASE_COLORS: Record<PhaseConductor, string> = {
+  L1: 'bg-amber-500',
+  L2: 'bg-slate-400',
+  L3: 'bg-purple-500'
+};
+
+export const PhaseBalanceModal: React.FC<PhaseBalanceModalProps> = ({ isOpen, onClose, reports, onApplySuggestions, t }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 w-full max-w-3xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800">
+          <div className="flex items-center gap-3">
+             <span className="material-icons-round text-amber-400 text-3xl">balance</span>
+             <h2 className="text-xl font-bold text-white">{t.phaseBalance.title}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto flex-1 space-y-6">
+          {reports.length === 0 ? (
+            <div className="text-center text-slate-500">{t.phaseBalance.noBoards}</div>
+          ) : reports.map(report => {
+            const maxAmps = Math.max(...PHASES.map(p => report.phaseAmps[p]), 1);
+            return (
+              <div key={report.board.id} className="bg-slate-800 rounded-lg border border-slate-700 p-4 space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-white font-semibold">{report.board.name}</h3>
+                    <span className="text-xs text-slate-500">{report.board.componentNumber || t.componentTypes[report.board.type]} · {report.voltage}V</span>
+                  </div>
+                  <span className={`text-xs font-bold px-2 py-1 rounded ${report.isBalanced ? 'bg-green-500/10 text-green-400' : 'bg-red-500/10 text-red-400'}`}>
+                    {t.phaseBalance.imbalance}: {report.imbalancePercent.toFixed(1)}%
+                  </span>
+                </div>
+
+                <div className="space-y-2">
+                  {PHASES.map(phase => (
+                    <div key={phase} className="flex items-center gap-3 text-xs">
+                      <span className="w-6 font-bold text-slate-300">{phase}</span>
+                      <div className="flex-1 h-3 bg-slate-900 rounded overflow-hidden">
+                        <div className={`h-full ${PHASE_COLORS[phase]}`} style={{ width: `${(report.phaseAmps[phase] / maxAmps) * 100}%` }}></div>
+                      </div>
+                      <span className="w-32 text-right text-slate-400" dir="ltr">{report.phaseAmps[phase].toFixed(1)}A · {report.phaseKva[phase].toFixed(1)}kVA</span>
+                    </div>
+                  ))}
+                  {report.unassignedKva > 0 && (
+                    <p className="text-xs text-amber-400">{t.phaseBalance.unassigned}: {report.unassignedKva.toFixed(1)} kVA</p>
+                  )}
+                </div>
+
+                {report.suggestions.length > 0 && (
+                  <div className="border-t border-slate-700 pt-3">
+                    <div className="flex items-center justify-between mb-2">
+                      <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+                        {t.phaseBalance.suggestions} ({report.suggestedImbalancePercent.toFixed(1)}%)
+                      </h4>
+                      <button
+                        onClick={() => onApplySuggestions(report.suggestions)}
+                        className="px-3 py-1 bg-blue-600 hover:bg-blue-500 text-white text-xs rounded transition-colors"
+                      >
+                        {t.phaseBalance.apply}
+                      </button>
+                    </div>
+                    <ul className="space-y-1">
+                      {report.suggestions.map(s => (
+                        <li key={s.nodeId} className="text-slate-300 text-xs bg-slate-900 px-3 py-2 rounded border border-slate-700 flex justify-between">
+                          <span>{s.name}</span>
+                          <span dir="ltr">{s.from || '—'} → <strong className="text-blue-400">{s.to}</strong></span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 flex justify-end">
+             <button
+                onClick={onClose}
+                className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded transition-colors font-medium"
+            >
+                {t.inputPanel.close}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
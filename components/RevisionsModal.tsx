@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Project } from '../types';
+import { diffPages, revisionPages, nextRevisionName, changeListRows, DIFF_COLORS, diffHighlights } from '../services/revisions';
+import { toCsv, downloadCsv, renderHtmlTable, openPrintWindow, escapeHtml, safeFileName } from '../services/documentExport';
+
+interface RevisionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project;
+  onCreate: (name: string) => void;
+  onDelete: (revisionId: string) => void;
+  onShowOnDiagram: (fromId: string, toId: string) => void;
+  dir: 'ltr' | 'rtl';
+  lang: string;
+  t: any;
+}
+
+export const RevisionsModal: React.FC<RevisionsModalProps> = ({ isOpen, onClose, project, onCreate, onDelete, onShowOnDiagram, dir, lang, t }) => {
+  const revisions = project.revisions || [];
+  const [name, setName] = useState('');
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('current');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(nextRevisionName(revisions));
+    // Default to what changed since the last issued revision.
+    if (!revisions.some(r => r.id === fromId)) setFromId(revisions.length > 0 ? revisions[revisions.length - 1].id : '');
+    if (toId !== 'current' && !revisions.some(r => r.id === toId)) setToId('current');
+  }, [isOpen, revisions]);
+
+  const changes = useMemo(
+    () => (isOpen && fromId ? diffPages(revisionPages(project, fromId), revisionPages(project, toId)) : []),
+    [isOpen, project, fromId, toId]
+  );
+
+  if (!isOpen) return null;
+
+  const revisionName = (id: string) => {
+    const revision = revisions.find(r => r.id === id);
+    return revision ? t.revisions.label.replace('{name}', revision.name) : t.revisions.current;
+  };
+  const headers = [t.revisions.columns.page, t.revisions.columns.component, t.revisions.columns.change, t.revisions.columns.details];
+  const rows = changeListRows(changes, t);
+  const highlights = diffHighlights(changes);
+  const title = `${t.revisions.changeList}: ${revisionName(fromId)} → ${revisionName(toId)}`;
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    onCreate(name.trim());
+  };
+
+  const handleCsv = () => {
+    downloadCsv(toCsv(headers, rows), `${safeFileName(project.name)} - ${safeFileName(revisionName(fromId))} - ${safeFileName(revisionName(toId))}.csv`);
+  };
+
+  const handlePrint = () => {
+    openPrintWindow({
+      title: `${project.name} - ${title}`,
+      body: `<h1>${escapeHtml(t.revisions.changeList)}</h1>
+        <div class="meta">${escapeHtml(project.name)} · ${escapeHtml(revisionName(fromId))} → ${escapeHtml(revisionName(toId))}</div>
+        ${renderHtmlTable(headers, rows)}`,
+      project, t, dir, lang
+    });
+  };
+
+  const selectClass = "bg-slate-800 border border-slate-700 rounded px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 w-full max-w-4xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800">
+          <div className="flex items-center gap-3">
+             <span className="material-icons-round text-amber-400 text-3xl">difference</span>
+             <div>
+               <h2 className="text-xl font-bold text-white">{t.revisions.title}</h2>
+               <p className="text-xs text-slate-400">{project.name}</p>
+             </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto flex-1 space-y-6">
+          <div className="flex items-end gap-2">
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">{t.revisions.name}</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-32 bg-slate-800 border border-slate-700 rounded px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+              />
+            </div>
+            <button
+              onClick={handleCreate}
+              disabled={!name.trim()}
+              className="px-4 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded transition-colors text-sm flex items-center gap-2"
+            >
+              <span className="material-icons-round text-sm">flag</span>{t.revisions.create}
+            </button>
+          </div>
+
+          {revisions.length === 0 ? (
+            <p className="text-sm text-slate-500">{t.revisions.none}</p>
+          ) : (
+            <>
+              <ul className="bg-slate-800/50 border border-slate-700 rounded-lg divide-y divide-slate-800">
+                {revisions.map(revision => (
+                  <li key={revision.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <span className="text-slate-200 font-medium">{t.revisions.label.replace('{name}', revision.name)}</span>
+                    <span className="flex items-center gap-3">
+                      <span className="text-xs text-slate-500" dir="ltr">{new Date(revision.createdAt).toLocaleString(lang)}</span>
+                      <button onClick={() => onDelete(revision.id)} className="text-slate-500 hover:text-red-400 transition-colors" title={t.revisions.delete}>
+                        <span className="material-icons-round text-sm">delete</span>
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="text-xs text-slate-400">{t.revisions.from}</label>
+                <select value={fromId} onChange={(e) => setFromId(e.target.value)} className={selectClass}>
+                  {revisions.map(r => <option key={r.id} value={r.id}>{revisionName(r.id)}</option>)}
+                </select>
+                <label className="text-xs text-slate-400">{t.revisions.to}</label>
+                <select value={toId} onChange={(e) => setToId(e.target.value)} className={selectClass}>
+                  {revisions.map(r => <option key={r.id} value={r.id}>{revisionName(r.id)}</option>)}
+                  <option value="current">{t.revisions.current}</option>
+                </select>
+                <span className="text-xs text-slate-500">{t.revisions.summary.replace('{count}', String(changes.length))}</span>
+              </div>
+
+              {changes.length === 0 ? (
+                <p className="text-sm text-slate-500">{t.revisions.noChanges}</p>
+              ) : (
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-slate-400 uppercase border-b border-slate-700">
+                    <tr>{headers.map((h: string) => <th key={h} className="py-2 px-2">{h}</th>)}</tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row, i) => (
+                      <tr key={changes[i].id} className="border-b border-slate-800 text-slate-300">
+                        <td className="py-2 px-2">{row[0]}</td>
+                        <td className="py-2 px-2">{row[1]}</td>
+                        <td className="py-2 px-2 font-medium" style={{ color: DIFF_COLORS[highlights[changes[i].id]] }}>{row[2]}</td>
+                        <td className="py-2 px-2 text-xs">{row[3]}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 flex justify-end gap-2">
+             {fromId && (
+               <>
+                 <button onClick={handleCsv} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded border border-slate-700 transition-colors text-sm flex items-center gap-2">
+                    <span className="material-icons-round text-sm">table_view</span>CSV
+                 </button>
+                 <button onClick={handlePrint} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded border border-slate-700 transition-colors text-sm flex items-center gap-2">
+                    <span className="material-icons-round text-sm">print</span>{t.panelSchedule.print}
+                 </button>
+                 <button onClick={() => onShowOnDiagram(fromId, toId)} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded transition-colors text-sm flex items-center gap-2">
+                    <span className="material-icons-round text-sm">visibility</span>{t.revisions.showOnDiagram}
+                 </button>
+               </>
+             )}
+             <button
+                onClick={onClose}
+                className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded transition-colors font-medium"
+            >
+                {t.inputPanel.close}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { SearchResult } from '../services/search';
+import { COMPONENT_CONFIG } from '../constants';
+
+interface SearchPanelProps {
+  results: SearchResult[];
+  activePageId: string;
+  onSelect: (result: SearchResult) => void;
+  t: any;
+}
+
+// Long result lists are cut off; the count tells the user to refine the search.
+const MAX_RESULTS = 50;
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({ results, activePageId, onSelect, t }) => {
+  const shown = results.slice(0, MAX_RESULTS);
+
+  return (
+    <div
+      className="absolute top-full left-0 right-0 mt-2 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-50 overflow-hidden animate-fadeIn"
+      // Keep focus in the search box so the panel stays open while a result is clicked.
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      <div className="px-4 py-2 text-xs text-slate-400 border-b border-slate-700 flex justify-between">
+        <span>{t.search.results.replace('{count}', String(results.length))}</span>
+        {results.length > shown.length && (
+          <span>{t.search.more.replace('{shown}', String(shown.length))}</span>
+        )}
+      </div>
+      {results.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-slate-500">{t.search.none}</p>
+      ) : (
+        <ul className="max-h-96 overflow-y-auto divide-y divide-slate-700/50">
+          {shown.map(result => (
+            <li key={`${result.projectId}:${result.node.id}`}>
+              <button
+                onClick={() => onSelect(result)}
+                className="w-full text-start px-4 py-2 hover:bg-slate-700 transition-colors flex items-start gap-3"
+              >
+                <span className="material-icons-round text-sm mt-0.5" style={{ color: result.node.customColor || COMPONENT_CONFIG[result.node.type]?.color }}>
+                  {COMPONENT_CONFIG[result.node.type]?.icon}
+                </span>
+                <span className="min-w-0 flex-1">
+                  <span className="block text-sm text-slate-200 truncate">
+                    {[result.node.componentNumber, result.node.name].filter(Boolean).join(' · ')}
+                    {result.pageId === activePageId && <span className="ms-2 text-[10px] text-blue-400">{t.search.thisPage}</span>}
+                  </span>
+                  <span className="block text-xs text-slate-500 truncate">
+                    {[result.projectName, result.pageName, ...result.path].join(' › ')}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
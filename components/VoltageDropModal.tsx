@@ -0,0 +1,108 @@
+import React from 'react';
+import { VoltageDropReport } from '../services/voltageDrop';
+
+interface VoltageDropModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  report: VoltageDropReport;
+  onLimitChange: (limit: number) => void;
+  t: any;
+}
+
+export const VoltageDropModal: React.FC<VoltageDropModalProps> = ({ isOpen, onClose, report, onLimitChange, t }) => {
+  if (!isOpen) return null;
+
+  const paths = [...report.paths].sort((a, b) => b.cumulativePercent - a.cumulativePercent);
+  const failing = paths.filter(p => p.exceedsLimit).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 w-full max-w-4xl rounded-xl border border-slate-700 shadow-2xl flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-slate-800">
+          <div className="flex items-center gap-3">
+             <span className="material-icons-round text-orange-400 text-3xl">trending_down</span>
+             <h2 className="text-xl font-bold text-white">{t.voltageDrop.title}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <span className="material-icons-round">close</span>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              {t.voltageDrop.limit}
+              <input
+                type="number"
+                min="0.1"
+                step="0.1"
+                value={report.limit}
+                onChange={(e) => e.target.value !== '' && onLimitChange(Number(e.target.value))}
+                className="w-20 bg-slate-800 border border-slate-700 text-white rounded px-2 py-1 focus:outline-none focus:border-blue-500 text-sm"
+              />
+              %
+            </label>
+            <span className={`text-xs font-bold px-2 py-1 rounded ${failing > 0 ? 'bg-red-500/10 text-red-400' : 'bg-green-500/10 text-green-400'}`}>
+              {t.voltageDrop.exceeding}: {failing} / {paths.length}
+            </span>
+          </div>
+
+          {paths.length === 0 ? (
+            <div className="text-center text-slate-500">{t.voltageDrop.noLoads}</div>
+          ) : (
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-slate-400 uppercase border-b border-slate-700">
+                <tr>
+                  <th className="py-2 px-2">{t.voltageDrop.load}</th>
+                  <th className="py-2 px-2">{t.voltageDrop.source}</th>
+                  <th className="py-2 px-2 text-right">{t.voltageDrop.length}</th>
+                  <th className="py-2 px-2 text-right">{t.voltageDrop.current}</th>
+                  <th className="py-2 px-2 text-right">ΔU %</th>
+                </tr>
+              </thead>
+              <tbody>
+                {paths.map(path => (
+                  <tr key={path.load.id} className="border-b border-slate-800 text-slate-300">
+                    <td className="py-2 px-2">
+                      {path.load.name}
+                      {path.load.componentNumber && <span className="text-slate-500 text-xs"> ({path.load.componentNumber})</span>}
+                    </td>
+                    <td className="py-2 px-2 text-slate-400">{path.source.name}</td>
+                    <td className="py-2 px-2 text-right" dir="ltr">{path.length} m</td>
+                    <td className="py-2 px-2 text-right" dir="ltr">{path.current.toFixed(1)} A</td>
+                    <td className={`py-2 px-2 text-right font-bold ${path.exceedsLimit ? 'text-red-400' : 'text-green-400'}`} dir="ltr">
+                      {path.cumulativePercent.toFixed(2)}%
+                      {path.missingCableData && (
+                        <span className="material-icons-round text-amber-400 text-sm align-middle ml-1" title={t.voltageDrop.missingCableData}>warning</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {paths.some(p => p.missingCableData) && (
+            <p className="text-xs text-amber-400 flex items-center gap-1">
+              <span className="material-icons-round text-sm">warning</span>
+              {t.voltageDrop.missingCableData}
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 flex justify-end">
+             <button
+                onClick={onClose}
+                className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded transition-colors font-medium"
+            >
+                {t.inputPanel.close}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 
-import { ComponentType, ConnectionStyle, PrintMetadata, Project } from './types';
+import { ComponentType, ConnectionStyle, PrintMetadata, Project, CalculationSettings, ConductorMaterial, InstallationMethod, TripSettings, SymbolLibrary } from './types';
 
 // --- Complex SVG Icon Definitions ---
 
@@ -252,6 +252,9 @@ export const ICON_PATHS: Record<string, any> = {
   link_off: "M17 7h-4v1.9h4c1.71 0 3.1 1.39 3.1 3.1 0 1.55-1.15 2.84-2.63 3.05l1.52 1.52C20.8 15.77 22 14.02 22 12c0-2.76-2.24-5-5-5zM3.27 3L2 4.27l3.11 3.11C3.29 8.12 2 9.91 2 12c0 2.76 2.24 5 5 5h4v-1.9H7c-1.71 0-3.1-1.39-3.1-3.1 0-.25.03-.5.08-.73L6.29 13.5l.6.6.3.3 3.74 3.74.6.6 8.2 8.2L21 25.73 3.27 3z",
   close: "M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z",
   edit: "M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z",
+  flash_on: "M7 2v11h3v9l7-12h-4l4-8z",
+  double_arrow: "M15.5 5H11l5 7-5 7h4.5l5-7z M8.5 5H4l5 7-5 7h4.5l5-7z",
+  fuse: "M2 11h4V8h12v3h4v2h-4v3H6v-3H2z M8 10v4h8v-4z M8 11.5h8v1H8z",
   battery_charging_full: "M15.67 4H14V2h-4v2H8.33C7.6 4 7 4.6 7 5.33v15.33C7 21.4 7.6 22 8.33 22h7.33c.74 0 1.34-.6 1.34-1.33V5.33C17 4.6 16.4 4 15.67 4z M11 20v-5.5H9L13 7v5.5h2L11 20z"
 };
 
@@ -280,7 +283,9 @@ export const COMPONENT_CONFIG: Record<ComponentType, { icon: string; color: stri
   [ComponentType.SWITCH]: { icon: 'toggle_on', color: '#22c55e' },
   [ComponentType.LOAD]: { icon: 'lightbulb', color: '#a855f7' },
   [ComponentType.GENERATOR]: { icon: 'settings_power', color: '#ef4444' },
-  [ComponentType.UPS]: { icon: 'battery_charging_full', color: '#06b6d4' }
+  [ComponentType.UPS]: { icon: 'battery_charging_full', color: '#06b6d4' },
+  [ComponentType.OFF_PAGE_CONNECTOR]: { icon: 'double_arrow', color: '#14b8a6' },
+  [ComponentType.FUSE]: { icon: 'fuse', color: '#f97316' }
 };
 
 export const DEFAULT_CONNECTION_STYLE: ConnectionStyle = {
@@ -300,6 +305,85 @@ export const DEFAULT_PRINT_METADATA: PrintMetadata = {
 
 export const SNAP_GRID_SIZE = 20;
 
+// Component types that can be drawn as a busbar
+export const BUSBAR_TYPES: ComponentType[] = [ComponentType.DISTRIBUTION_BOARD, ComponentType.SYSTEM_ROOT];
+
+// Ways of drawing nodes, in the order the toolbar button steps through them
+export const SYMBOL_LIBRARIES: SymbolLibrary[] = ['cards', 'iec', 'ansi'];
+
+export const DEFAULT_SYSTEM_VOLTAGE = 400;
+
+// Maximum deviation from the average phase load (%) before a board is reported as unbalanced.
+export const PHASE_IMBALANCE_LIMIT = 10;
+
+export const DEFAULT_CALCULATION_SETTINGS: CalculationSettings = {
+  voltageDropLimit: 5,
+  ambientTemperature: 30,
+  groupingFactor: 1
+};
+
+// Conductor resistivity at 70°C operating temperature (Ω·mm²/m).
+export const CONDUCTOR_RESISTIVITY: Record<ConductorMaterial, number> = {
+  copper: 0.0225,
+  aluminium: 0.036
+};
+
+// Typical reactance of a low-voltage multi-core cable (Ω/m).
+export const CABLE_REACTANCE = 0.00008;
+
+export const DEFAULT_POWER_FACTOR = 0.9;
+
+// Conductor resistivity at 20°C, used for maximum prospective fault current (Ω·mm²/m).
+export const CONDUCTOR_RESISTIVITY_20C: Record<ConductorMaterial, number> = {
+  copper: 0.0178,
+  aluminium: 0.0286
+};
+
+// IEC 60909 voltage factor for maximum short-circuit currents.
+export const FAULT_VOLTAGE_FACTOR = 1.1;
+
+// Assumed when a transformer has a kVA rating but no %Z entered.
+export const DEFAULT_TRANSFORMER_IMPEDANCE = 6;
+
+// Typical subtransient reactance of a standby generator (%).
+export const DEFAULT_GENERATOR_REACTANCE = 15;
+
+// Standard conductor cross-sections (mm²).
+export const CABLE_SIZES = [1.5, 2.5, 4, 6, 10, 16, 25, 35, 50, 70, 95, 120, 150, 185, 240, 300];
+
+// Current-carrying capacity (A) of copper XLPE multi-core cables, three loaded
+// conductors at 30°C (20°C ground), indexed like CABLE_SIZES.
+export const CABLE_AMPACITY: Record<InstallationMethod, number[]> = {
+  conduit: [22, 30, 40, 51, 69, 91, 119, 146, 175, 221, 265, 305, 334, 384, 459, 532],
+  tray: [23, 32, 42, 54, 75, 100, 127, 158, 192, 246, 298, 346, 399, 456, 538, 621],
+  air: [24, 33, 45, 58, 80, 107, 138, 171, 209, 269, 328, 382, 441, 506, 599, 693],
+  buried: [22, 29, 37, 46, 61, 79, 101, 122, 144, 178, 211, 240, 271, 304, 351, 396]
+};
+
+// Aluminium conductors carry roughly this fraction of the copper ampacity.
+export const ALUMINIUM_AMPACITY_FACTOR = 0.78;
+
+// Magnetic (instantaneous) trip band of thermal-magnetic breakers, in multiples of In.
+export const MAGNETIC_TRIP_RANGES: Record<'B' | 'C' | 'D', [number, number]> = {
+  B: [3, 5],
+  C: [5, 10],
+  D: [10, 20]
+};
+
+export const DEFAULT_ELECTRONIC_TRIP_SETTINGS: Required<Omit<TripSettings, 'curve'>> = {
+  longTimePickup: 1,
+  longTimeDelay: 5,
+  shortTimePickup: 6,
+  shortTimeDelay: 0.1,
+  instantaneousPickup: 12
+};
+
+// Ambient temperature correction for XLPE insulation (°C -> factor).
+export const AMBIENT_TEMPERATURE_FACTORS: [number, number][] = [
+  [10, 1.15], [15, 1.12], [20, 1.08], [25, 1.04], [30, 1.0], [35, 0.96],
+  [40, 0.91], [45, 0.87], [50, 0.82], [55, 0.76], [60, 0.71]
+];
+
 export const DEFAULT_PROJECT: Project = {
   id: 'proj-default',
   name: 'My First Project',
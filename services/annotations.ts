@@ -0,0 +1,61 @@
+import { Annotation } from "../types";
+
+// Geometry of the markup drawn over a page. Coordinates are in diagram space,
+// so annotations stay put when the view is panned or zoomed.
+
+const ARROW_HEAD = 12;
+
+// Scalloped outline around a box, as drawn by hand around revised parts of a drawing.
+export const cloudPath = (x: number, y: number, w: number, h: number) => {
+  const scallop = 14;
+  const edge = (length: number) => Math.max(2, Math.round(Math.abs(length) / scallop));
+  const nx = edge(w), ny = edge(h);
+  const arcs = (count: number, dx: number, dy: number) => {
+    let d = '';
+    for (let i = 0; i < count; i++) d += ` a${scallop / 2},${scallop / 2} 0 0 1 ${dx / count},${dy / count}`;
+    return d;
+  };
+  return `M${x},${y}${arcs(nx, w, 0)}${arcs(ny, 0, h)}${arcs(nx, -w, 0)}${arcs(ny, 0, -h)} Z`;
+};
+
+/** SVG path for every kind except text. */
+export const annotationPath = (annotation: Annotation) => {
+  const { x = 0, y = 0, x2 = x, y2 = y } = annotation;
+  switch (annotation.kind) {
+    case 'freehand': {
+      const [first, ...rest] = annotation.points || [];
+      if (!first) return '';
+      return `M ${first[0]} ${first[1]}${rest.map(([px, py]) => ` L ${px} ${py}`).join('')}`;
+    }
+    case 'rect':
+      return `M${Math.min(x, x2)},${Math.min(y, y2)} h${Math.abs(x2 - x)} v${Math.abs(y2 - y)} h${-Math.abs(x2 - x)} Z`;
+    case 'cloud':
+      return cloudPath(Math.min(x, x2), Math.min(y, y2), Math.abs(x2 - x), Math.abs(y2 - y));
+    case 'arrow': {
+      const angle = Math.atan2(y2 - y, x2 - x);
+      const head = (side: number) => {
+        const a = angle + Math.PI + side * Math.PI / 7;
+        return `${x2 + ARROW_HEAD * Math.cos(a)},${y2 + ARROW_HEAD * Math.sin(a)}`;
+      };
+      return `M${x},${y} L${x2},${y2} M${head(-1)} L${x2},${y2} L${head(1)}`;
+    }
+    default:
+      return '';
+  }
+};
+
+export const moveAnnotation = (annotation: Annotation, dx: number, dy: number): Annotation => ({
+  ...annotation,
+  ...(annotation.points ? { points: annotation.points.map(([px, py]) => [px + dx, py + dy] as [number, number]) } : {}),
+  ...(annotation.x !== undefined ? { x: annotation.x + dx } : {}),
+  ...(annotation.y !== undefined ? { y: annotation.y + dy } : {}),
+  ...(annotation.x2 !== undefined ? { x2: annotation.x2 + dx } : {}),
+  ...(annotation.y2 !== undefined ? { y2: annotation.y2 + dy } : {})
+});
+
+/** Drags shorter than this are treated as a click and not kept as a shape. */
+export const isTooSmall = (annotation: Annotation) => {
+  if (annotation.kind === 'freehand') return (annotation.points || []).length < 2;
+  if (annotation.kind === 'text') return !annotation.text;
+  return Math.hypot((annotation.x2 ?? 0) - (annotation.x ?? 0), (annotation.y2 ?? 0) - (annotation.y ?? 0)) < 6;
+};
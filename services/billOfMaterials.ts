@@ -0,0 +1,89 @@
+import { ElectricalNode, ComponentType, Page, ConductorMaterial } from "../types";
+import { formatCableLabel } from "./voltageDrop";
+import { parseCableSize } from "./cableSizing";
+
+export interface BomItem {
+  type: ComponentType;
+  model: string;
+  rating?: number; // A
+  kva?: number;
+  quantity: number;
+  references: string[]; // component numbers, for cross-checking against the drawing
+}
+
+export interface BomCable {
+  label: string;
+  material?: ConductorMaterial;
+  crossSection?: number;
+  cores?: number;
+  runs: number;
+  totalLength: number; // m, 0 when no run has a length entered
+  runsWithoutLength: number;
+}
+
+export interface BillOfMaterials {
+  items: BomItem[];
+  cables: BomCable[];
+}
+
+// The utility connection is not something we buy, and an off-page connector is only a drawing reference.
+const EXCLUDED_TYPES = [ComponentType.SYSTEM_ROOT, ComponentType.OFF_PAGE_CONNECTOR];
+
+const TYPE_ORDER = Object.values(ComponentType);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const addCable = (cables: Map<string, BomCable>, node: ElectricalNode) => {
+  const style = node.connectionStyle;
+  const cable = style?.cable;
+  const parsed = parseCableSize(style?.cableSize);
+  const crossSection = cable?.crossSection || parsed.crossSection;
+  if (!crossSection) return;
+
+  const cores = cable?.cores || parsed.cores;
+  const material = cable?.material;
+  const label = formatCableLabel({ crossSection, cores, material });
+  const key = `${material || 'copper'}|${cores || ''}|${crossSection}`;
+  const entry = cables.get(key) || { label, material, crossSection, cores, runs: 0, totalLength: 0, runsWithoutLength: 0 };
+
+  entry.runs += 1;
+  if (cable?.length) entry.totalLength = round(entry.totalLength + cable.length);
+  else entry.runsWithoutLength += 1;
+  cables.set(key, entry);
+};
+
+/**
+ * Aggregates equipment by type, model and rating, and cables by conductor,
+ * over the given pages. Pass a single page or all pages of a project.
+ */
+export const buildBillOfMaterials = (pages: Page[]): BillOfMaterials => {
+  const items = new Map<string, BomItem>();
+  const cables = new Map<string, BomCable>();
+
+  const visit = (node: ElectricalNode, isRoot: boolean) => {
+    if (!EXCLUDED_TYPES.includes(node.type)) {
+      const model = node.model?.trim() || '';
+      const key = [node.type, model.toLowerCase(), node.amps || '', node.kva || ''].join('|');
+      const entry = items.get(key) || { type: node.type, model, rating: node.amps, kva: node.kva, quantity: 0, references: [] };
+      entry.quantity += 1;
+      if (node.componentNumber) entry.references.push(node.componentNumber);
+      items.set(key, entry);
+    }
+    if (!isRoot) addCable(cables, node);
+    node.children.forEach(child => visit(child, false));
+  };
+
+  pages.forEach(page => page.items.forEach(root => visit(root, true)));
+
+  return {
+    items: Array.from(items.values()).sort((a, b) =>
+      TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) ||
+      a.model.localeCompare(b.model) ||
+      (a.rating || 0) - (b.rating || 0) ||
+      (a.kva || 0) - (b.kva || 0)
+    ),
+    cables: Array.from(cables.values()).sort((a, b) =>
+      (a.material || '').localeCompare(b.material || '') || (a.crossSection || 0) - (b.crossSection || 0) || (a.cores || 0) - (b.cores || 0)
+    )
+  };
+};
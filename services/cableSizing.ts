@@ -0,0 +1,114 @@
+import { ElectricalNode, ComponentType, CableData, CalculationSettings, ConnectionStyle } from "../types";
+import {
+  CABLE_SIZES, CABLE_AMPACITY, ALUMINIUM_AMPACITY_FACTOR, AMBIENT_TEMPERATURE_FACTORS
+} from "../constants";
+
+export interface CableSuggestion {
+  nodeId: string;
+  designCurrent: number;
+  protectiveRating?: number;
+  deratingFactor: number;
+  requiredAmpacity: number;
+  suggestedSize?: number; // undefined when no standard size is large enough
+  currentSize?: number;
+  isUndersized: boolean;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Reads the conductor size out of a free-text label such as "4x25mm²" or "3x2.5". */
+export const parseCableSize = (text?: string): { cores?: number; crossSection?: number } => {
+  const match = text?.match(/(?:(\d+)\s*[x×*]\s*)?(\d+(?:\.\d+)?)/i);
+  if (!match) return {};
+  return {
+    cores: match[1] ? Number(match[1]) : undefined,
+    crossSection: Number(match[2])
+  };
+};
+
+export const getEnteredCrossSection = (style?: ConnectionStyle) =>
+  style?.cable?.crossSection || parseCableSize(style?.cableSize).crossSection;
+
+export const getAmpacity = (crossSection: number, cable?: CableData) => {
+  const index = CABLE_SIZES.indexOf(crossSection);
+  if (index === -1) return 0;
+  const copper = CABLE_AMPACITY[cable?.installationMethod || 'conduit'][index];
+  return cable?.material === 'aluminium' ? copper * ALUMINIUM_AMPACITY_FACTOR : copper;
+};
+
+// Uses the first tabulated temperature at or above the given ambient.
+export const getTemperatureFactor = (ambient: number) => {
+  const entry = AMBIENT_TEMPERATURE_FACTORS.find(([temperature]) => temperature >= ambient);
+  return entry ? entry[1] : AMBIENT_TEMPERATURE_FACTORS[AMBIENT_TEMPERATURE_FACTORS.length - 1][1];
+};
+
+export const getDeratingFactor = (settings: CalculationSettings) =>
+  round(getTemperatureFactor(settings.ambientTemperature) * (settings.groupingFactor || 1));
+
+/**
+ * Smallest standard size whose derated ampacity covers both the design
+ * current and the rating of the protective device upstream (Ib ≤ In ≤ Iz).
+ */
+export const suggestCableSize = (
+  node: ElectricalNode,
+  protectiveRating: number | undefined,
+  settings: CalculationSettings
+): CableSuggestion | null => {
+  const designCurrent = node.calculatedLoad?.amps || 0;
+  const target = Math.max(designCurrent, protectiveRating || 0);
+  if (target <= 0) return null;
+
+  const cable = node.connectionStyle?.cable;
+  const deratingFactor = getDeratingFactor(settings);
+  const requiredAmpacity = round(target / deratingFactor);
+  const suggestedSize = CABLE_SIZES.find(size => getAmpacity(size, cable) >= requiredAmpacity);
+  const currentSize = getEnteredCrossSection(node.connectionStyle);
+
+  return {
+    nodeId: node.id,
+    designCurrent,
+    protectiveRating,
+    deratingFactor,
+    requiredAmpacity,
+    suggestedSize,
+    currentSize,
+    isUndersized: !!currentSize && (!suggestedSize || currentSize < suggestedSize)
+  };
+};
+
+// Breakers and fuses set the current the cables after them are protected at.
+const isOvercurrentDevice = (node: ElectricalNode) => node.type === ComponentType.BREAKER || node.type === ComponentType.FUSE;
+
+/**
+ * Suggestions for every link on the page, keyed by the id of the node the
+ * link feeds. Expects items that already carry `calculatedLoad`.
+ */
+export const buildCableSuggestions = (items: ElectricalNode[], settings: CalculationSettings) => {
+  const suggestions: Record<string, CableSuggestion> = {};
+
+  const visit = (node: ElectricalNode, protectiveRating: number | undefined) => {
+    node.children.forEach(child => {
+      const suggestion = suggestCableSize(child, protectiveRating, settings);
+      if (suggestion) suggestions[child.id] = suggestion;
+      const nextRating = isOvercurrentDevice(child) && child.amps ? child.amps : protectiveRating;
+      visit(child, nextRating);
+    });
+  };
+
+  items.forEach(root => visit(root, isOvercurrentDevice(root) ? root.amps : undefined));
+  return suggestions;
+};
+
+/** Returns the connection style with the suggested size written into the cable data and label. */
+export const applyCableSuggestion = (style: ConnectionStyle, suggestion: CableSuggestion): ConnectionStyle => {
+  if (!suggestion.suggestedSize) return style;
+  const parsed = parseCableSize(style.cableSize);
+  const cores = style.cable?.cores || parsed.cores;
+  return {
+    ...style,
+    cableSize: style.cableSize
+      ? `${cores ? `${cores}x` : ''}${suggestion.suggestedSize}mm²`
+      : style.cableSize,
+    cable: { ...style.cable, crossSection: suggestion.suggestedSize }
+  };
+};
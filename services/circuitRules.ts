@@ -0,0 +1,157 @@
+import { ElectricalNode, ComponentType, AnalysisResult } from "../types";
+import { phaseVoltage } from "./loadCalculator";
+import { calculateFaultLevels } from "./shortCircuit";
+
+type Severity = 'warning' | 'danger';
+
+interface RuleFinding {
+  severity: Severity;
+  issue: string;
+  recommendation: string;
+}
+
+const STATUS_RANK: Record<AnalysisResult['status'], number> = { safe: 0, warning: 1, danger: 2 };
+
+const PROTECTIVE_TYPES = [ComponentType.BREAKER, ComponentType.FUSE, ComponentType.SWITCH, ComponentType.DISTRIBUTION_BOARD];
+
+const format = (template: string, params: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => (key in params ? String(params[key]) : match));
+
+const label = (node: ElectricalNode) => node.componentNumber ? `${node.name} (${node.componentNumber})` : node.name;
+
+// Walks through meters, which carry no protection of their own.
+const hasDownstreamProtection = (node: ElectricalNode): boolean =>
+  node.children.some(child =>
+    child.type === ComponentType.BREAKER ||
+    child.type === ComponentType.FUSE ||
+    child.type === ComponentType.SWITCH ||
+    (child.type === ComponentType.METER && hasDownstreamProtection(child))
+  );
+
+// A single-phase item at line-to-neutral voltage is compatible with a three-phase supply.
+const isVoltageCompatible = (childVoltage: number, parentVoltage: number) =>
+  childVoltage === parentVoltage || Math.abs(childVoltage - phaseVoltage(parentVoltage)) / childVoltage < 0.05;
+
+const collectAll = (nodes: ElectricalNode[], acc: ElectricalNode[] = []) => {
+  nodes.forEach(node => {
+    acc.push(node);
+    collectAll(node.children, acc);
+  });
+  return acc;
+};
+
+/**
+ * Deterministic checks that run locally without an API key. Messages are
+ * taken from `t.analysis.rules` so the result can be shown as-is in the
+ * AnalysisModal.
+ */
+export const checkCircuit = (nodes: ElectricalNode[], t: any): AnalysisResult => {
+  const rules = t.analysis.rules;
+  const findings: RuleFinding[] = [];
+  const allNodes = collectAll(nodes);
+  const faultLevels = calculateFaultLevels(nodes);
+
+  const visit = (node: ElectricalNode, protectiveParent: ElectricalNode | null, voltageParent: ElectricalNode | null) => {
+    const isOvercurrentDevice = node.type === ComponentType.BREAKER || node.type === ComponentType.FUSE;
+    if (isOvercurrentDevice && node.amps && protectiveParent?.amps && node.amps > protectiveParent.amps) {
+      findings.push({
+        severity: 'danger',
+        issue: format(rules.childOverParent, {
+          child: label(node), childAmps: node.amps, parent: label(protectiveParent), parentAmps: protectiveParent.amps
+        }),
+        recommendation: format(rules.childOverParentFix, { child: label(node), parentAmps: protectiveParent.amps })
+      });
+    }
+
+    if (node.type === ComponentType.SYSTEM_ROOT && !node.faultLevel && node.children.length > 0) {
+      findings.push({
+        severity: 'warning',
+        issue: format(rules.faultLevelMissing, { name: label(node) }),
+        recommendation: format(rules.faultLevelMissingFix, { name: label(node) })
+      });
+    }
+
+    const fault = faultLevels[node.id];
+    if (fault?.isUnderrated) {
+      findings.push({
+        severity: 'danger',
+        issue: format(rules.breakingCapacityExceeded, {
+          name: label(node), breakingCapacity: node.breakingCapacity!, faultCurrent: fault.faultCurrentKa
+        }),
+        recommendation: format(rules.breakingCapacityExceededFix, { name: label(node), faultCurrent: fault.faultCurrentKa })
+      });
+    }
+
+    if (
+      node.voltage && voltageParent?.voltage && !isVoltageCompatible(node.voltage, voltageParent.voltage) &&
+      node.type !== ComponentType.TRANSFORMER && voltageParent.type !== ComponentType.TRANSFORMER
+    ) {
+      findings.push({
+        severity: 'danger',
+        issue: format(rules.voltageMismatch, {
+          child: label(node), childVoltage: node.voltage, parent: label(voltageParent), parentVoltage: voltageParent.voltage
+        }),
+        recommendation: format(rules.voltageMismatchFix, { child: label(node) })
+      });
+    }
+
+    if (node.type === ComponentType.TRANSFORMER && node.children.length > 0 && !hasDownstreamProtection(node)) {
+      findings.push({
+        severity: 'warning',
+        issue: format(rules.transformerUnprotected, { name: label(node) }),
+        recommendation: format(rules.transformerUnprotectedFix, { name: label(node) })
+      });
+    }
+
+    if (node.type === ComponentType.LOAD && node.children.length > 0) {
+      findings.push({
+        severity: 'warning',
+        issue: format(rules.loadWithChildren, { name: label(node), count: node.children.length }),
+        recommendation: format(rules.loadWithChildrenFix, { name: label(node) })
+      });
+    }
+
+    if (node.type === ComponentType.GENERATOR) {
+      const feedsSwitch =
+        node.children.some(child => child.type === ComponentType.SWITCH) ||
+        allNodes.some(other => other.type === ComponentType.SWITCH && other.extraConnections?.includes(node.id));
+      if (!feedsSwitch) {
+        findings.push({
+          severity: 'warning',
+          issue: format(rules.generatorNoTransfer, { name: label(node) }),
+          recommendation: format(rules.generatorNoTransferFix, { name: label(node) })
+        });
+      }
+    }
+
+    const nextProtective = PROTECTIVE_TYPES.includes(node.type) && node.amps ? node : protectiveParent;
+    const nextVoltage = node.voltage || node.type === ComponentType.TRANSFORMER ? node : voltageParent;
+    node.children.forEach(child => visit(child, nextProtective, nextVoltage));
+  };
+
+  nodes.forEach(root => visit(root, null, null));
+
+  const status: AnalysisResult['status'] = findings.some(f => f.severity === 'danger')
+    ? 'danger'
+    : findings.length > 0 ? 'warning' : 'safe';
+
+  return {
+    status,
+    summary: format(findings.length > 0 ? rules.summary : rules.summaryClean, {
+      issues: findings.length, nodes: allNodes.length
+    }),
+    issues: findings.map(f => f.issue),
+    recommendations: Array.from(new Set(findings.map(f => f.recommendation)))
+  };
+};
+
+/**
+ * Combines the local rule check with an AI result. The worse of the two
+ * statuses wins and duplicate lines are dropped.
+ */
+export const mergeAnalysisResults = (local: AnalysisResult, ai: AnalysisResult): AnalysisResult => ({
+  status: STATUS_RANK[ai.status] > STATUS_RANK[local.status] ? ai.status : local.status,
+  summary: `${local.summary} ${ai.summary}`.trim(),
+  issues: Array.from(new Set([...local.issues, ...ai.issues])),
+  recommendations: Array.from(new Set([...local.recommendations, ...ai.recommendations]))
+});
@@ -0,0 +1,173 @@
+// Viewport culling and the canvas drawing used for very large pages. The SVG
+// renderer in Diagram.tsx stays the reference (and the only one used for
+// export); the canvas path draws a simplified picture of the same layout.
+
+export interface Bounds {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface ViewTransform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+/** Pages with more nodes than this are drawn on canvas instead of SVG. */
+export const CANVAS_NODE_THRESHOLD = 1500;
+
+/** Below this zoom the canvas skips text, which is unreadable anyway. */
+const CANVAS_TEXT_MIN_ZOOM = 0.35;
+
+/**
+ * Diagram-space rectangle shown in a viewport of the given size, grown by
+ * `margin` screen pixels so nodes are ready just before they scroll in.
+ */
+export const visibleBounds = (transform: ViewTransform, width: number, height: number, margin = 200): Bounds => ({
+  x1: (-margin - transform.x) / transform.k,
+  y1: (-margin - transform.y) / transform.k,
+  x2: (width + margin - transform.x) / transform.k,
+  y2: (height + margin - transform.y) / transform.k
+});
+
+export const intersects = (a: Bounds, b: Bounds) => a.x1 <= b.x2 && a.x2 >= b.x1 && a.y1 <= b.y2 && a.y2 >= b.y1;
+
+export interface CanvasNode {
+  id: string;
+  bounds: Bounds;
+  shape: 'rectangle' | 'circle' | 'square';
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  accent: string; // colored bar on top of rectangles, ring color of icons
+  title: string;
+  subtitle: string;
+  opacity: number;
+}
+
+export interface CanvasLink {
+  path: string; // SVG path data, as used by the SVG renderer
+  bounds: Bounds;
+  stroke: string;
+  width: number;
+  dash: number[];
+  opacity: number;
+  path2d?: Path2D;
+}
+
+export interface CanvasScene {
+  nodes: CanvasNode[];
+  links: CanvasLink[];
+  background: string;
+  textColor: string;
+}
+
+const roundedRect = (ctx: CanvasRenderingContext2D, b: Bounds, r: number) => {
+  const w = b.x2 - b.x1, h = b.y2 - b.y1;
+  ctx.beginPath();
+  ctx.moveTo(b.x1 + r, b.y1);
+  ctx.arcTo(b.x2, b.y1, b.x2, b.y2, r);
+  ctx.arcTo(b.x2, b.y2, b.x1, b.y2, r);
+  ctx.arcTo(b.x1, b.y2, b.x1, b.y1, r);
+  ctx.arcTo(b.x1, b.y1, b.x2, b.y1, r);
+  ctx.closePath();
+  return { w, h };
+};
+
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 1 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+};
+
+/** Draws the links and nodes that fall inside the viewport. */
+export const drawScene = (
+  canvas: HTMLCanvasElement,
+  scene: CanvasScene,
+  transform: ViewTransform,
+  width: number,
+  height: number
+) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const ratio = window.devicePixelRatio || 1;
+  if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+  }
+
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = scene.background;
+  ctx.fillRect(0, 0, width, height);
+
+  const { x, y, k } = transform;
+  ctx.setTransform(ratio * k, 0, 0, ratio * k, ratio * x, ratio * y);
+  const view = visibleBounds(transform, width, height, 0);
+
+  ctx.lineJoin = 'round';
+  scene.links.forEach(link => {
+    if (!intersects(link.bounds, view)) return;
+    link.path2d = link.path2d || new Path2D(link.path);
+    ctx.globalAlpha = link.opacity;
+    ctx.strokeStyle = link.stroke;
+    ctx.lineWidth = link.width;
+    ctx.setLineDash(link.dash);
+    ctx.stroke(link.path2d);
+  });
+  ctx.setLineDash([]);
+
+  const showText = k >= CANVAS_TEXT_MIN_ZOOM;
+  scene.nodes.forEach(node => {
+    const b = node.bounds;
+    if (!intersects(b, view)) return;
+    ctx.globalAlpha = node.opacity;
+    const w = b.x2 - b.x1, h = b.y2 - b.y1;
+
+    if (node.shape === 'circle') {
+      ctx.beginPath();
+      ctx.arc(b.x1 + w / 2, b.y1 + h / 2, w / 2, 0, Math.PI * 2);
+    } else {
+      roundedRect(ctx, b, node.shape === 'square' ? 4 : 12);
+    }
+    ctx.fillStyle = node.fill;
+    ctx.fill();
+    ctx.strokeStyle = node.stroke;
+    ctx.lineWidth = node.strokeWidth;
+    ctx.stroke();
+
+    if (node.shape === 'rectangle') {
+      ctx.save();
+      roundedRect(ctx, b, 12);
+      ctx.clip();
+      ctx.fillStyle = node.accent;
+      ctx.fillRect(b.x1, b.y1, w, 6);
+      ctx.restore();
+    }
+
+    if (!showText) return;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const cx = b.x1 + w / 2;
+    const isRect = node.shape === 'rectangle';
+    ctx.fillStyle = scene.textColor;
+    ctx.font = `bold ${isRect ? 14 : 10}px sans-serif`;
+    ctx.fillText(fitText(ctx, node.title, w - 12), cx, isRect ? b.y1 + 28 : b.y1 + h / 2 - 6);
+    ctx.fillStyle = node.accent;
+    ctx.font = 'bold 10px sans-serif';
+    ctx.fillText(fitText(ctx, node.subtitle, w - 12), cx, isRect ? b.y1 + 46 : b.y1 + h / 2 + 8);
+  });
+  ctx.globalAlpha = 1;
+};
+
+/** Topmost node under a point in diagram space. */
+export const hitTest = (scene: CanvasScene, x: number, y: number) => {
+  for (let i = scene.nodes.length - 1; i >= 0; i--) {
+    const b = scene.nodes[i].bounds;
+    if (x >= b.x1 && x <= b.x2 && y >= b.y1 && y <= b.y2) return scene.nodes[i];
+  }
+  return undefined;
+};
@@ -0,0 +1,134 @@
+import { Project } from "../types";
+import { DEFAULT_PRINT_METADATA } from "../constants";
+
+export type CellValue = string | number | undefined | null;
+
+export const safeFileName = (name: string) => name.trim().replace(/[^\w\u0590-\u05FF\u0600-\u06FF\s-]/g, '_');
+
+export const escapeHtml = (value: CellValue) =>
+  (value === undefined || value === null ? '' : String(value))
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** Quoted CSV in the same dialect as the diagram export (BOM-prefixed, all cells quoted). */
+export const toCsv = (headers: string[], rows: CellValue[][]) =>
+  [headers, ...rows]
+    .map(row => row.map(value => `"${(value === undefined || value === null ? '' : String(value)).replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+
+/**
+ * Parses CSV text as written by `toCsv` or saved by a spreadsheet application.
+ * Falls back to semicolons when the header has none of the commas, as Excel
+ * does in locales that use a decimal comma.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = !firstLine.includes(',') && firstLine.includes(';') ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (inQuotes) {
+      if (ch === '"' && content[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) rows.push([...row, field]);
+  return rows;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (content: string, fileName: string) =>
+  downloadBlob(new Blob(["\uFEFF" + content], { type: 'text/csv;charset=utf-8;' }), fileName);
+
+export const renderHtmlTable = (headers: string[], rows: CellValue[][], footer?: CellValue[]) => `
+  <table>
+    <thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>
+    <tbody>${rows.map(row => `<tr>${row.map(v => `<td>${escapeHtml(v)}</td>`).join('')}</tr>`).join('')}</tbody>
+    ${footer ? `<tfoot><tr>${footer.map(v => `<td>${escapeHtml(v)}</td>`).join('')}</tr></tfoot>` : ''}
+  </table>`;
+
+/** HTML version of the title block drawn on the diagram in print mode. */
+export const renderTitleBlockHtml = (project: Project, t: any) => {
+  const pm = project.printMetadata || DEFAULT_PRINT_METADATA;
+  const field = (label: string, value: string) =>
+    `<td><div class="label">${escapeHtml(label)}</div><div class="value">${escapeHtml(value) || '&nbsp;'}</div></td>`;
+  return `
+  <table class="title-block">
+    <tr>${field(t.printLayout.project, project.name)}${field(t.printLayout.date, pm.date)}</tr>
+    <tr>${field(t.printLayout.org, pm.organization)}${field(t.printLayout.rev, pm.revision)}</tr>
+    <tr>${field(t.printLayout.engineer, pm.engineer)}${field(t.printLayout.approved, pm.approvedBy)}</tr>
+  </table>`;
+};
+
+/** Opens a print-ready window with the given body and the project title block at the bottom. */
+export const openPrintWindow = (options: { title: string; body: string; project: Project; t: any; dir: 'ltr' | 'rtl'; lang: string }) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return;
+  printWindow.document.write(`
+    <html dir="${options.dir}" lang="${options.lang}">
+      <head>
+        <title>${escapeHtml(options.title)}</title>
+        <style>
+          body { margin: 24px; font-family: sans-serif; color: #0f172a; font-size: 12px; }
+          h1 { font-size: 18px; margin: 0 0 4px; }
+          h2 { font-size: 14px; margin: 24px 0 8px; }
+          .meta { color: #475569; margin-bottom: 12px; }
+          table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+          th, td { border: 1px solid #94a3b8; padding: 4px 6px; text-align: start; }
+          th { background: #e2e8f0; }
+          tfoot td { font-weight: bold; background: #f1f5f9; }
+          .section { page-break-inside: avoid; }
+          .title-block { width: 60%; margin-inline-start: auto; margin-top: 32px; border: 2px solid #000; }
+          .title-block td { border: 1px solid #000; }
+          .title-block .label { font-size: 9px; font-weight: bold; color: #475569; }
+          .title-block .value { font-size: 12px; font-weight: bold; }
+          @media print { body { margin: 0; } @page { margin: 1cm; size: auto; } }
+        </style>
+      </head>
+      <body>
+        ${options.body}
+        ${renderTitleBlockHtml(options.project, options.t)}
+        <script>
+          window.onload = () => {
+            setTimeout(() => {
+              window.print();
+              window.close();
+            }, 500);
+          };
+        </script>
+      </body>
+    </html>
+  `);
+  printWindow.document.close();
+};
@@ -72,12 +72,8 @@ export const analyzeCircuit = async (nodes: ElectricalNode[]): Promise<AnalysisR
     throw new Error("Empty response from AI");
 
   } catch (error) {
+    // Callers fall back to the local rule check, so surface the failure instead of a canned result.
     console.error("Gemini Analysis Error:", error);
-    return {
-      status: 'warning',
-      summary: 'Failed to connect to AI analysis service.',
-      issues: ['Could not verify circuit safety due to network or API error.'],
-      recommendations: ['Check your internet connection and API key settings.']
-    };
+    throw error;
   }
 };
\ No newline at end of file
@@ -0,0 +1,188 @@
+import { Annotation, ElectricalNode, Page, Project } from "../types";
+
+// Undo/redo as labelled commands. Edits to a page's diagram and annotations
+// are tracked per page, so undoing on one page never reverts work on another; adding,
+// renaming or deleting projects and pages is tracked in a shared workspace
+// timeline. Each entry keeps the state from before its command; the state
+// after the newest entry is kept as `tip` once something has been undone.
+
+export const MAX_PAGE_HISTORY = 50;
+export const MAX_WORKSPACE_HISTORY = 10;
+
+export interface HistoryEntry<T> {
+  id: string;
+  label: string;
+  time: number;
+  state: T; // state before the command ran
+}
+
+export interface Timeline<T> {
+  entries: HistoryEntry<T>[];
+  cursor: number; // entries[0..cursor) are applied
+  tip?: T; // state after the last entry, kept while entries are undone
+}
+
+// What a page entry keeps: the diagram and the annotations drawn over it.
+export interface PageSnapshot {
+  items: ElectricalNode[];
+  annotations: Annotation[];
+}
+
+export interface EditHistory {
+  pages: Record<string, Timeline<PageSnapshot>>;
+  workspace: Timeline<Project[]>;
+}
+
+export type HistoryScope = 'page' | 'workspace';
+
+export const EMPTY_HISTORY: EditHistory = { pages: {}, workspace: { entries: [], cursor: 0 } };
+
+const EMPTY_TIMELINE = { entries: [], cursor: 0 };
+
+// Entry times double as the order between the page and workspace timelines,
+// so two commands in the same millisecond still get distinct times.
+let lastTime = 0;
+
+const record = <T>(timeline: Timeline<T>, label: string, state: T, cap: number): Timeline<T> => {
+  lastTime = Math.max(Date.now(), lastTime + 1);
+  const entries = [
+    ...timeline.entries.slice(0, timeline.cursor),
+    { id: `h-${lastTime}`, label, time: lastTime, state }
+  ].slice(-cap);
+  return { entries, cursor: entries.length };
+};
+
+// State at `position`, i.e. with entries[0..position) applied.
+const stateAt = <T>(timeline: Timeline<T>, position: number, current: T) => {
+  if (position < timeline.entries.length) return timeline.entries[position].state;
+  return timeline.cursor === timeline.entries.length ? current : timeline.tip as T;
+};
+
+const moveTo = <T>(timeline: Timeline<T>, position: number, current: T) => {
+  const tip = timeline.cursor === timeline.entries.length ? current : timeline.tip;
+  return {
+    timeline: { ...timeline, cursor: position, tip: position === timeline.entries.length ? undefined : tip },
+    state: stateAt({ ...timeline, tip }, position, current)
+  };
+};
+
+const findPage = (projects: Project[], pageId: string) => {
+  for (const project of projects) {
+    const page = project.pages.find(p => p.id === pageId);
+    if (page) return page;
+  }
+  return undefined;
+};
+
+const snapshotPage = (page: Page): PageSnapshot => ({ items: page.items, annotations: page.annotations || [] });
+
+const restorePage = (projects: Project[], pageId: string, snapshot: PageSnapshot) =>
+  projects.map(project => ({
+    ...project,
+    pages: project.pages.map(page => (page.id === pageId
+      ? { ...page, items: snapshot.items, annotations: snapshot.annotations }
+      : page))
+  }));
+
+// Workspace entries restore which projects and pages exist, their order and
+// names, and the issued revisions, which are also workspace commands. Projects
+// and pages that still exist keep everything else as it is now: their
+// diagrams, annotations and settings.
+const restoreStructure = (snapshot: Project[], current: Project[]) =>
+  snapshot.map(project => {
+    const pages = project.pages.map(page => {
+      const live = findPage(current, page.id);
+      return live ? { ...live, name: page.name } : page;
+    });
+    const live = current.find(p => p.id === project.id);
+    if (!live) return { ...project, pages };
+    return {
+      ...live,
+      name: project.name,
+      revisions: project.revisions,
+      printMetadata: live.printMetadata && { ...live.printMetadata, revision: project.printMetadata?.revision ?? live.printMetadata.revision },
+      pages
+    };
+  });
+
+export const getPageTimeline = (history: EditHistory, pageId: string): Timeline<PageSnapshot> =>
+  history.pages[pageId] || EMPTY_TIMELINE;
+
+export const recordPageEdit = (history: EditHistory, projects: Project[], pageId: string, label: string): EditHistory => {
+  const page = findPage(projects, pageId);
+  if (!page) return history;
+  return { ...history, pages: { ...history.pages, [pageId]: record(getPageTimeline(history, pageId), label, snapshotPage(page), MAX_PAGE_HISTORY) } };
+};
+
+export const recordWorkspaceEdit = (history: EditHistory, projects: Project[], label: string): EditHistory => {
+  const workspace = record(history.workspace, label, projects, MAX_WORKSPACE_HISTORY);
+  // Forget page timelines for pages that neither exist nor can be brought back.
+  const known = new Set<string>();
+  [projects, ...workspace.entries.map(entry => entry.state)].forEach(state =>
+    state.forEach(project => project.pages.forEach(page => known.add(page.id)))
+  );
+  const pages = Object.fromEntries(Object.entries(history.pages).filter(([pageId]) => known.has(pageId)));
+  return { pages, workspace };
+};
+
+const jumpPage = (history: EditHistory, projects: Project[], pageId: string, position: number) => {
+  const page = findPage(projects, pageId);
+  if (!page) return null;
+  const { timeline, state } = moveTo(getPageTimeline(history, pageId), position, snapshotPage(page));
+  return { history: { ...history, pages: { ...history.pages, [pageId]: timeline } }, projects: restorePage(projects, pageId, state) };
+};
+
+const jumpWorkspace = (history: EditHistory, projects: Project[], position: number) => {
+  const { timeline, state } = moveTo(history.workspace, position, projects);
+  return { history: { ...history, workspace: timeline }, projects: restoreStructure(state, projects) };
+};
+
+/** Moves a timeline to `position` (0 = before its first entry) and returns the resulting projects. */
+export const jumpToEntry = (history: EditHistory, projects: Project[], scope: HistoryScope, pageId: string, position: number) =>
+  scope === 'page' ? jumpPage(history, projects, pageId, position) : jumpWorkspace(history, projects, position);
+
+/** Undoes whichever is newer: the active page's last edit or the last workspace change. */
+export const undoEdit = (history: EditHistory, projects: Project[], pageId: string) => {
+  const page = getPageTimeline(history, pageId);
+  const workspace = history.workspace;
+  const pageTime = page.cursor > 0 ? page.entries[page.cursor - 1].time : -1;
+  const workspaceTime = workspace.cursor > 0 ? workspace.entries[workspace.cursor - 1].time : -1;
+  if (pageTime < 0 && workspaceTime < 0) return null;
+  return pageTime >= workspaceTime
+    ? jumpPage(history, projects, pageId, page.cursor - 1)
+    : jumpWorkspace(history, projects, workspace.cursor - 1);
+};
+
+/** Redoes the oldest undone command of the two timelines, replaying in original order. */
+export const redoEdit = (history: EditHistory, projects: Project[], pageId: string) => {
+  const page = getPageTimeline(history, pageId);
+  const workspace = history.workspace;
+  const pageTime = page.cursor < page.entries.length ? page.entries[page.cursor].time : Infinity;
+  const workspaceTime = workspace.cursor < workspace.entries.length ? workspace.entries[workspace.cursor].time : Infinity;
+  if (pageTime === Infinity && workspaceTime === Infinity) return null;
+  return pageTime <= workspaceTime
+    ? jumpPage(history, projects, pageId, page.cursor + 1)
+    : jumpWorkspace(history, projects, workspace.cursor + 1);
+};
+
+export const canUndo = (history: EditHistory, pageId: string) =>
+  getPageTimeline(history, pageId).cursor > 0 || history.workspace.cursor > 0;
+
+export const canRedo = (history: EditHistory, pageId: string) => {
+  const page = getPageTimeline(history, pageId);
+  return page.cursor < page.entries.length || history.workspace.cursor < history.workspace.entries.length;
+};
+
+const mapTimeline = <T>(timeline: Timeline<T>, fn: (state: T) => T): Timeline<T> => ({
+  ...timeline,
+  entries: timeline.entries.map(entry => ({ ...entry, state: fn(entry.state) })),
+  tip: timeline.tip === undefined ? undefined : fn(timeline.tip)
+});
+
+/** Applies `fn` to every node list held by the history, e.g. to move icons out for storage. */
+export const mapHistoryItems = (history: EditHistory, fn: (items: ElectricalNode[]) => ElectricalNode[]): EditHistory => ({
+  pages: Object.fromEntries(Object.entries(history.pages).map(([pageId, timeline]) => [pageId, mapTimeline(timeline, state => ({ ...state, items: fn(state.items) }))])),
+  workspace: mapTimeline(history.workspace, projects =>
+    projects.map(project => ({ ...project, pages: project.pages.map(page => ({ ...page, items: fn(page.items) })) }))
+  )
+});
@@ -0,0 +1,329 @@
+import { Bounds } from './diagramRendering';
+
+// Orthogonal link routing. Links are routed one after another on a sparse grid
+// made from the edges of the node boxes around them: a route keeps clear of
+// the boxes, pays for every bend and for every link routed before it that it
+// crosses, and passes through the waypoints the user has placed. Crossings
+// that remain are drawn as small hops on the horizontal line.
+
+export type Point = [number, number];
+
+export interface RouteObstacle {
+  id: string;
+  bounds: Bounds;
+}
+
+export interface RouteRequest {
+  id: string;
+  sourceId: string;
+  targetId: string;
+  start: Point;
+  end: Point;
+  axis: 'x' | 'y'; // the link leaves its source and enters its target along this axis
+  waypoints?: Point[];
+}
+
+const CLEARANCE = 12; // space kept between a route and a node box
+const STUB = 20; // straight run out of the source and into the target
+const BEND_COST = 30;
+const CROSSING_COST = 80;
+const SEARCH_MARGIN = 150; // how far around a link the grid reaches
+const HOP_RADIUS = 5;
+
+interface Segment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  linkId: string;
+}
+
+const grow = (b: Bounds, by: number): Bounds => ({ x1: b.x1 - by, y1: b.y1 - by, x2: b.x2 + by, y2: b.y2 + by });
+
+const contains = (b: Bounds, [x, y]: Point) => x > b.x1 && x < b.x2 && y > b.y1 && y < b.y2;
+
+// True when an axis-aligned segment runs through the inside of the box; running along its edge is fine.
+const blocks = (b: Bounds, [ax, ay]: Point, [bx, by]: Point) => {
+  if (ay === by) return ay > b.y1 && ay < b.y2 && Math.max(ax, bx) > b.x1 && Math.min(ax, bx) < b.x2;
+  return ax > b.x1 && ax < b.x2 && Math.max(ay, by) > b.y1 && Math.min(ay, by) < b.y2;
+};
+
+// Crossings of an axis-aligned segment with perpendicular segments, touching ends not counted.
+const countCrossings = (segments: Segment[], [ax, ay]: Point, [bx, by]: Point) => {
+  let count = 0;
+  const horizontal = ay === by;
+  segments.forEach(s => {
+    const sHorizontal = s.y1 === s.y2;
+    if (horizontal === sHorizontal) return;
+    if (horizontal) {
+      if (s.x1 > Math.min(ax, bx) && s.x1 < Math.max(ax, bx) && ay > Math.min(s.y1, s.y2) && ay < Math.max(s.y1, s.y2)) count++;
+    } else if (s.y1 > Math.min(ay, by) && s.y1 < Math.max(ay, by) && ax > Math.min(s.x1, s.x2) && ax < Math.max(s.x1, s.x2)) {
+      count++;
+    }
+  });
+  return count;
+};
+
+const toSegments = (points: Point[], linkId: string): Segment[] =>
+  points.slice(1).map(([x2, y2], i) => ({ x1: points[i][0], y1: points[i][1], x2, y2, linkId }));
+
+/** Drops repeated points and points in the middle of a straight run. */
+export const simplify = (points: Point[]): Point[] => {
+  const result: Point[] = [];
+  points.forEach(p => {
+    const last = result[result.length - 1];
+    if (last && last[0] === p[0] && last[1] === p[1]) return;
+    const before = result[result.length - 2];
+    if (before && last && ((before[0] === last[0] && last[0] === p[0]) || (before[1] === last[1] && last[1] === p[1]))) {
+      result[result.length - 1] = p;
+      return;
+    }
+    result.push(p);
+  });
+  return result;
+};
+
+// Binary heap keyed on the estimated total cost.
+class Queue {
+  private items: { state: number; priority: number }[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(state: number, priority: number) {
+    const items = this.items;
+    items.push({ state, priority });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop() {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1, r = l + 1;
+        let smallest = i;
+        if (l < items.length && items[l].priority < items[smallest].priority) smallest = l;
+        if (r < items.length && items[r].priority < items[smallest].priority) smallest = r;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top.state;
+  }
+}
+
+const NONE = 0, HORIZONTAL = 1, VERTICAL = 2;
+
+/**
+ * Cheapest orthogonal path between two points that keeps out of the boxes.
+ * `startDir` / `endDir` ask for the first and last run to go along an axis.
+ */
+const searchPath = (
+  from: Point,
+  to: Point,
+  boxes: Bounds[],
+  routed: Segment[],
+  startDir: number,
+  endDir: number,
+  margin: number
+): Point[] | null => {
+  const area: Bounds = {
+    x1: Math.min(from[0], to[0]) - margin,
+    y1: Math.min(from[1], to[1]) - margin,
+    x2: Math.max(from[0], to[0]) + margin,
+    y2: Math.max(from[1], to[1]) + margin
+  };
+  const overlaps = (b: Bounds) => b.x1 <= area.x2 && b.x2 >= area.x1 && b.y1 <= area.y2 && b.y2 >= area.y1;
+  // A box around an end point (a waypoint placed on a node, or overlapping nodes) cannot be avoided.
+  const local = boxes.filter(b => overlaps(b) && !contains(b, from) && !contains(b, to));
+  const nearby = routed.filter(s =>
+    Math.max(s.x1, s.x2) >= area.x1 && Math.min(s.x1, s.x2) <= area.x2 &&
+    Math.max(s.y1, s.y2) >= area.y1 && Math.min(s.y1, s.y2) <= area.y2);
+
+  const lines = (a: number, b: number, edges: number[]) =>
+    Array.from(new Set([a, b, (a + b) / 2, ...edges])).sort((p, q) => p - q);
+  const xs = lines(from[0], to[0], local.flatMap(b => [b.x1, b.x2]));
+  const ys = lines(from[1], to[1], local.flatMap(b => [b.y1, b.y2]));
+  const nx = xs.length, ny = ys.length;
+
+  const stateOf = (i: number, j: number, dir: number) => (i * ny + j) * 3 + dir;
+  const startState = stateOf(xs.indexOf(from[0]), ys.indexOf(from[1]), startDir);
+  const goalI = xs.indexOf(to[0]), goalJ = ys.indexOf(to[1]);
+  const estimate = (i: number, j: number) => Math.abs(xs[i] - to[0]) + Math.abs(ys[j] - to[1]);
+
+  const cost = new Map<number, number>([[startState, 0]]);
+  const previous = new Map<number, number>();
+  const queue = new Queue();
+  queue.push(startState, 0);
+  const closed = new Set<number>();
+
+  while (queue.size > 0) {
+    const state = queue.pop();
+    if (closed.has(state)) continue;
+    closed.add(state);
+    const dir = state % 3;
+    const cell = (state - dir) / 3;
+    const i = Math.floor(cell / ny), j = cell % ny;
+
+    if (i === goalI && j === goalJ) {
+      const path: Point[] = [];
+      for (let s: number | undefined = state; s !== undefined; s = previous.get(s)) {
+        const c = Math.floor(s / 3);
+        path.push([xs[Math.floor(c / ny)], ys[c % ny]]);
+      }
+      return path.reverse();
+    }
+
+    const here: Point = [xs[i], ys[j]];
+    ([[1, 0], [-1, 0], [0, 1], [0, -1]] as const).forEach(([di, dj]) => {
+      const ni = i + di, nj = j + dj;
+      if (ni < 0 || nj < 0 || ni >= nx || nj >= ny) return;
+      const there: Point = [xs[ni], ys[nj]];
+      if (local.some(b => blocks(b, here, there))) return;
+      const nextDir = di !== 0 ? HORIZONTAL : VERTICAL;
+      let step = Math.abs(there[0] - here[0]) + Math.abs(there[1] - here[1]);
+      if (dir !== NONE && dir !== nextDir) step += BEND_COST;
+      if (ni === goalI && nj === goalJ && endDir !== NONE && nextDir !== endDir) step += BEND_COST;
+      step += countCrossings(nearby, here, there) * CROSSING_COST;
+      const next = stateOf(ni, nj, nextDir);
+      const total = cost.get(state)! + step;
+      if (total >= (cost.get(next) ?? Infinity)) return;
+      cost.set(next, total);
+      previous.set(next, state);
+      queue.push(next, total + estimate(ni, nj));
+    });
+  }
+  return null;
+};
+
+/**
+ * Routes the links in the order given, so earlier links keep the direct
+ * lines and later ones go around them. Returns the corner points of each route.
+ */
+export const routeLinks = (requests: RouteRequest[], obstacles: RouteObstacle[]): Map<string, Point[]> => {
+  const routes = new Map<string, Point[]>();
+  const routed: Segment[] = [];
+  const boxes = obstacles.map(o => ({ id: o.id, bounds: grow(o.bounds, CLEARANCE) }));
+
+  requests.forEach(request => {
+    const { start, end, axis } = request;
+    const dir = axis === 'x' ? HORIZONTAL : VERTICAL;
+    const sign = (a: number, b: number) => (b >= a ? 1 : -1);
+    const along = axis === 'x' ? 0 : 1;
+    const exit: Point = axis === 'x' ? [start[0] + STUB, start[1]] : [start[0], start[1] + STUB];
+    const entry: Point = axis === 'x' ? [end[0] - STUB, end[1]] : [end[0], end[1] - STUB];
+    const allBoxes = boxes.map(b => b.bounds);
+    const otherBoxes = boxes.filter(b => b.id !== request.sourceId && b.id !== request.targetId).map(b => b.bounds);
+
+    let points: Point[] | null = null;
+    if (!request.waypoints?.length) {
+      // The usual elbow, when it is clear, keeps the tree looking as it always has.
+      const mid = (start[along] + end[along]) / 2;
+      const elbow: Point[] = axis === 'x'
+        ? [start, [mid, start[1]], [mid, end[1]], end]
+        : [start, [start[0], mid], [end[0], mid], end];
+      const clear =
+        sign(start[along], mid) > 0 && sign(mid, end[along]) > 0 &&
+        elbow.slice(1).every((p, k) =>
+          !(k === 1 ? allBoxes : otherBoxes).some(b => blocks(b, elbow[k], p)) && countCrossings(routed, elbow[k], p) === 0);
+      if (clear) points = elbow;
+    }
+
+    if (!points) {
+      const stops: Point[] = [exit, ...(request.waypoints || []), entry];
+      const legs: Point[] = [start];
+      for (let k = 0; k < stops.length - 1; k++) {
+        const leg =
+          searchPath(stops[k], stops[k + 1], allBoxes, routed, k === 0 ? dir : NONE, k === stops.length - 2 ? dir : NONE, SEARCH_MARGIN) ||
+          searchPath(stops[k], stops[k + 1], allBoxes, routed, k === 0 ? dir : NONE, k === stops.length - 2 ? dir : NONE, SEARCH_MARGIN * 4);
+        if (!leg) break;
+        legs.push(...leg);
+        if (k === stops.length - 2) {
+          legs.push(end);
+          points = legs;
+        }
+      }
+    }
+
+    if (!points) return; // boxed in: the caller keeps its plain elbow
+    const simplified = simplify(points);
+    routes.set(request.id, simplified);
+    routed.push(...toSegments(simplified, request.id));
+  });
+  return routes;
+};
+
+/**
+ * SVG path data for the routes. Where a horizontal run crosses a vertical run
+ * of another link it hops over it with a small arc.
+ */
+export const routePaths = (routes: Map<string, Point[]>): Map<string, string> => {
+  const verticals: Segment[] = [];
+  routes.forEach((points, id) => toSegments(points, id).forEach(s => {
+    if (s.x1 === s.x2) verticals.push(s);
+  }));
+
+  const paths = new Map<string, string>();
+  routes.forEach((points, id) => {
+    let d = `M${points[0][0]},${points[0][1]}`;
+    toSegments(points, id).forEach(s => {
+      if (s.y1 === s.y2) {
+        const forward = s.x2 > s.x1 ? 1 : -1;
+        const hops = verticals
+          .filter(v => v.linkId !== id &&
+            v.x1 > Math.min(s.x1, s.x2) + HOP_RADIUS && v.x1 < Math.max(s.x1, s.x2) - HOP_RADIUS &&
+            s.y1 > Math.min(v.y1, v.y2) && s.y1 < Math.max(v.y1, v.y2))
+          .map(v => v.x1)
+          .sort((a, b) => (a - b) * forward);
+        let lastX = -Infinity * forward;
+        hops.forEach(x => {
+          if ((x - lastX) * forward < 2 * HOP_RADIUS) return; // too close to the previous hop
+          d += ` L${x - HOP_RADIUS * forward},${s.y1} A${HOP_RADIUS},${HOP_RADIUS} 0 0 ${forward > 0 ? 1 : 0} ${x + HOP_RADIUS * forward},${s.y1}`;
+          lastX = x;
+        });
+      }
+      d += ` L${s.x2},${s.y2}`;
+    });
+    paths.set(id, d);
+  });
+  return paths;
+};
+
+/**
+ * The route with one segment moved sideways through `to`. A first or last
+ * segment is split so the link still leaves and enters its nodes straight.
+ */
+export const moveSegment = (points: Point[], index: number, to: Point): Point[] => {
+  const route = points.map(p => [p[0], p[1]] as Point);
+  const stubFrom = (from: Point, towards: Point): Point => {
+    const length = Math.min(STUB, (Math.abs(towards[0] - from[0]) + Math.abs(towards[1] - from[1])) / 2);
+    return [from[0] + Math.sign(towards[0] - from[0]) * length, from[1] + Math.sign(towards[1] - from[1]) * length];
+  };
+  // The stub point goes in twice: one copy moves with the segment, the other stays put.
+  if (index === route.length - 2) {
+    const stub = stubFrom(route[index + 1], route[index]);
+    route.splice(index + 1, 0, stub, [stub[0], stub[1]]);
+  }
+  if (index === 0) {
+    const stub = stubFrom(route[0], route[1]);
+    route.splice(1, 0, stub, [stub[0], stub[1]]);
+    index += 2;
+  }
+  const [a, b] = [route[index], route[index + 1]];
+  const horizontal = a[1] === b[1];
+  route[index] = horizontal ? [a[0], to[1]] : [to[0], a[1]];
+  route[index + 1] = horizontal ? [b[0], to[1]] : [to[0], b[1]];
+  return simplify(route);
+};
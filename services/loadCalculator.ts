@@ -0,0 +1,119 @@
+import { ElectricalNode, ComponentType, Page } from "../types";
+import { DEFAULT_SYSTEM_VOLTAGE } from "../constants";
+
+// Supplies at or above this line-to-line voltage are treated as three-phase.
+const THREE_PHASE_THRESHOLD = 300;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const isThreePhaseVoltage = (voltage: number) => voltage >= THREE_PHASE_THRESHOLD;
+
+// Line-to-neutral voltage a single-phase item sees on the given supply.
+export const phaseVoltage = (voltage: number) => isThreePhaseVoltage(voltage) ? voltage / Math.sqrt(3) : voltage;
+
+export const isThreePhaseNode = (node: ElectricalNode, voltage: number) =>
+  node.phaseType ? node.phaseType === 'three' : isThreePhaseVoltage(voltage);
+
+export const kvaToAmps = (kva: number, voltage: number, threePhase = isThreePhaseVoltage(voltage)) => {
+  if (!voltage) return 0;
+  return threePhase ? (kva * 1000) / (Math.sqrt(3) * voltage) : (kva * 1000) / phaseVoltage(voltage);
+};
+
+export const ampsToKva = (amps: number, voltage: number, threePhase = isThreePhaseVoltage(voltage)) =>
+  threePhase ? (amps * voltage * Math.sqrt(3)) / 1000 : (amps * phaseVoltage(voltage)) / 1000;
+
+/**
+ * Voltage seen on the incoming feeder of a node. Transformers change the
+ * voltage for their children only, so their own feeder stays on the primary side.
+ */
+export const getSupplyVoltage = (node: ElectricalNode, upstreamVoltage: number) => {
+  if (node.type === ComponentType.TRANSFORMER) return upstreamVoltage;
+  return node.voltage || upstreamVoltage;
+};
+
+export const getOutputVoltage = (node: ElectricalNode, upstreamVoltage: number) => node.voltage || upstreamVoltage;
+
+/** kVA carried by an off-page connector from the node it continues to, when known. */
+export type ExternalLoad = (node: ElectricalNode) => number;
+
+const getOwnLoadKva = (node: ElectricalNode, supplyVoltage: number, externalLoad?: ExternalLoad) => {
+  // An outgoing connector stands in for what it feeds on the other page. One
+  // with children of its own is the incoming end and adds nothing upstream.
+  if (node.type === ComponentType.OFF_PAGE_CONNECTOR) {
+    return node.children.length === 0 && externalLoad ? externalLoad(node) : 0;
+  }
+  if (node.type !== ComponentType.LOAD || node.isReserved) return 0;
+  if (node.kva) return node.kva;
+  if (node.amps) return ampsToKva(node.amps, supplyVoltage, isThreePhaseNode(node, supplyVoltage));
+  return 0;
+};
+
+const calculateNodeLoad = (node: ElectricalNode, upstreamVoltage: number, externalLoad?: ExternalLoad): ElectricalNode => {
+  const supplyVoltage = getSupplyVoltage(node, upstreamVoltage);
+  const outputVoltage = getOutputVoltage(node, upstreamVoltage);
+
+  const children = node.children.map(child => calculateNodeLoad(child, outputVoltage, externalLoad));
+  const totalKva = children.reduce(
+    (sum, child) => sum + (child.calculatedLoad?.kva || 0),
+    getOwnLoadKva(node, supplyVoltage, externalLoad)
+  );
+
+  return {
+    ...node,
+    children,
+    calculatedLoad: {
+      kva: round(totalKva),
+      amps: round(kvaToAmps(totalKva, supplyVoltage, isThreePhaseNode(node, supplyVoltage)))
+    }
+  };
+};
+
+/**
+ * Returns a copy of the trees with `calculatedLoad` filled in on every node.
+ * Loads are rolled up as kVA (which is voltage independent) and converted to
+ * amps at the voltage of each node's incoming feeder. Extra connections are
+ * visual only and are not counted twice.
+ */
+export const calculateLoads = (items: ElectricalNode[], externalLoad?: ExternalLoad): ElectricalNode[] =>
+  items.map(root => calculateNodeLoad(root, root.voltage || DEFAULT_SYSTEM_VOLTAGE, externalLoad));
+
+const findLoad = (items: ElectricalNode[], id: string): number | undefined => {
+  for (const node of items) {
+    if (node.id === id) return node.calculatedLoad?.kva || 0;
+    const found = findLoad(node.children, id);
+    if (found !== undefined) return found;
+  }
+  return undefined;
+};
+
+/**
+ * Calculates every page of a project, following off-page connectors so that a
+ * feeder drawn on one page carries the load of what it supplies on another.
+ * Returns the calculated items by page ID. Connectors that lead back to a page
+ * still being calculated (a loop across pages) contribute nothing.
+ */
+export const calculateProjectLoads = (pages: Page[]): Record<string, ElectricalNode[]> => {
+  const results: Record<string, ElectricalNode[]> = {};
+  const inProgress = new Set<string>();
+
+  const pageOf = (id: string) => {
+    const contains = (nodes: ElectricalNode[]): boolean => nodes.some(node => node.id === id || contains(node.children));
+    return pages.find(page => contains(page.items));
+  };
+
+  const calculatePage = (page: Page): ElectricalNode[] => {
+    if (results[page.id]) return results[page.id];
+    inProgress.add(page.id);
+    const items = calculateLoads(page.items, connector => {
+      const target = connector.offPageTarget ? pageOf(connector.offPageTarget) : undefined;
+      if (!target || target.id === page.id || inProgress.has(target.id)) return 0;
+      return findLoad(calculatePage(target), connector.offPageTarget!) || 0;
+    });
+    inProgress.delete(page.id);
+    results[page.id] = items;
+    return items;
+  };
+
+  pages.forEach(calculatePage);
+  return results;
+};
@@ -0,0 +1,283 @@
+import { Annotation, ElectricalNode, Page, Project, Revision } from "../types";
+
+// Three-way merge of two copies of one project. Nodes, pages and annotations
+// are matched by ID against a common ancestor: the newest revision both copies were issued
+// from. A change made on one side only is taken as is; the same property
+// changed differently on both sides is a conflict the user resolves.
+
+export type MergeSide = 'ours' | 'theirs';
+
+export type MergeConflictKind = 'field' | 'deletedByUs' | 'deletedByThem';
+
+export interface MergeConflict {
+  key: string; // stable across re-runs, used to look up the resolution
+  kind: MergeConflictKind;
+  label: string; // project, page or node the conflict is about
+  pageName?: string;
+  field?: string;
+  base: string; // values as shown to the user, empty when absent
+  ours: string;
+  theirs: string;
+}
+
+export interface MergeResult {
+  project: Project;
+  conflicts: MergeConflict[];
+  ancestor?: Revision;
+  autoMerged: number; // changes taken from the imported copy without a conflict
+}
+
+// Not part of the saved design, or handled separately (placement, subtree).
+const SKIPPED_FIELDS = new Set(['id', 'children', 'calculatedLoad']);
+
+const PROJECT_FIELDS = ['name', 'printMetadata', 'calculationSettings', 'symbolLibrary'] as const;
+
+interface NodeEntry {
+  node: ElectricalNode;
+  parentId: string | null;
+  pageId: string;
+  order: number; // position in a depth-first walk, to keep sibling order
+}
+
+const flatten = (pages: Page[]) => {
+  const entries = new Map<string, NodeEntry>();
+  let order = 0;
+  const walk = (node: ElectricalNode, parentId: string | null, pageId: string) => {
+    entries.set(node.id, { node, parentId, pageId, order: order++ });
+    node.children.forEach(child => walk(child, node.id, pageId));
+  };
+  pages.forEach(page => page.items.forEach(root => walk(root, null, page.id)));
+  return entries;
+};
+
+const serialize = (value: unknown) => (value === undefined ? '' : JSON.stringify(value));
+
+const display = (value: unknown) =>
+  value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+const nodeLabel = (node: ElectricalNode) => [node.componentNumber, node.name].filter(Boolean).join(' ');
+
+const fieldsOf = (...nodes: (ElectricalNode | undefined)[]) => {
+  const fields = new Set<string>();
+  nodes.forEach(node => node && Object.keys(node).forEach(key => !SKIPPED_FIELDS.has(key) && fields.add(key)));
+  // Placement is merged like a property: which page and which upstream node.
+  fields.add('placement');
+  return Array.from(fields);
+};
+
+const valueOf = (entry: NodeEntry | undefined, field: string): unknown => {
+  if (!entry) return undefined;
+  if (field === 'placement') return { pageId: entry.pageId, parentId: entry.parentId };
+  return entry.node[field as keyof ElectricalNode];
+};
+
+// Sets a merged property by name, or removes it when the merge left it unset.
+const setField = (target: object, field: string, value: unknown) => {
+  if (value === undefined) Reflect.deleteProperty(target, field);
+  else Reflect.set(target, field, value);
+};
+
+/** Newest revision issued in both copies, by ID. */
+export const findCommonAncestor = (ours: Project, theirs: Project): Revision | undefined => {
+  const theirIds = new Set((theirs.revisions || []).map(r => r.id));
+  return [...(ours.revisions || [])].reverse().find(r => theirIds.has(r.id));
+};
+
+/**
+ * Merges `theirs` into `ours`. Conflicts without an entry in `resolutions`
+ * keep our side, so the result is always usable; call again with the user's
+ * choices to get the final project. Without a common ancestor nothing can be
+ * told apart as deleted, so whatever only one copy has is added, and every
+ * property that differs between the copies is reported as a conflict.
+ */
+export const mergeProjects = (ours: Project, theirs: Project, resolutions: Record<string, MergeSide> = {}): MergeResult => {
+  const ancestor = findCommonAncestor(ours, theirs);
+  const basePages = ancestor?.pages || [];
+  const base = flatten(basePages);
+  const mine = flatten(ours.pages);
+  const other = flatten(theirs.pages);
+  const conflicts: MergeConflict[] = [];
+  let autoMerged = 0;
+
+  const pick = (
+    key: string,
+    values: { base: unknown; ours: unknown; theirs: unknown },
+    describe: Omit<MergeConflict, 'key' | 'base' | 'ours' | 'theirs'>,
+    show: (value: unknown) => string = display
+  ) => {
+    const [b, o, t] = [serialize(values.base), serialize(values.ours), serialize(values.theirs)];
+    if (o === t || t === b) return values.ours;
+    if (o === b) {
+      autoMerged++;
+      return values.theirs;
+    }
+    conflicts.push({ key, base: show(values.base), ours: show(values.ours), theirs: show(values.theirs), ...describe });
+    return resolutions[key] === 'theirs' ? values.theirs : values.ours;
+  };
+
+  // Node properties and placement.
+  const merged = new Map<string, { node: ElectricalNode; parentId: string | null; pageId: string; order: number }>();
+  const pageName = (pageId: string) =>
+    [...ours.pages, ...theirs.pages, ...basePages].find(p => p.id === pageId)?.name;
+  const showPlacement = (value: unknown) => {
+    if (!value) return '';
+    const { pageId, parentId } = value as { pageId: string; parentId: string | null };
+    const parent = parentId ? (mine.get(parentId) || other.get(parentId) || base.get(parentId)) : undefined;
+    return [pageName(pageId), parent ? nodeLabel(parent.node) : ''].filter(Boolean).join(' › ');
+  };
+
+  const ids = new Set([...mine.keys(), ...other.keys()]);
+  ids.forEach(id => {
+    const b = base.get(id), o = mine.get(id), t = other.get(id);
+    const label = nodeLabel((o || t)!.node);
+
+    if (!o || !t) {
+      const present = (o || t)!;
+      if (!b) {
+        // Added on one side only.
+        if (!o) autoMerged++;
+      } else {
+        // Deleted on one side: fine unless the other side changed the node or
+        // what is connected below it since.
+        const childIds = (node: ElectricalNode) => node.children.map(child => child.id).sort().join('|');
+        const changed = childIds(b.node) !== childIds(present.node) ||
+          fieldsOf(b.node, present.node).some(field => serialize(valueOf(b, field)) !== serialize(valueOf(present, field)));
+        const kind: MergeConflictKind = o ? 'deletedByThem' : 'deletedByUs';
+        if (!changed) {
+          if (o) autoMerged++;
+          return;
+        }
+        const key = `${kind}:${id}`;
+        conflicts.push({ key, kind, label, pageName: pageName(present.pageId), base: '', ours: o ? label : '', theirs: t ? label : '' });
+        // Default keeps our side: our edited node, or our deletion.
+        if ((resolutions[key] || 'ours') === (o ? 'theirs' : 'ours')) return;
+      }
+      merged.set(id, { node: { ...present.node, children: [] }, parentId: present.parentId, pageId: present.pageId, order: o ? o.order : mine.size + present.order });
+      return;
+    }
+
+    const node: ElectricalNode = { ...o.node, children: [] };
+    let placement = { pageId: o.pageId, parentId: o.parentId };
+    fieldsOf(b?.node, o.node, t.node).forEach(field => {
+      const value = pick(
+        `field:${id}:${field}`,
+        { base: valueOf(b, field), ours: valueOf(o, field), theirs: valueOf(t, field) },
+        { kind: 'field', label, pageName: pageName(o.pageId), field },
+        field === 'placement' ? showPlacement : display
+      );
+      if (field === 'placement') placement = value as typeof placement;
+      else setField(node, field, value);
+    });
+    merged.set(id, { node, ...placement, order: o.order });
+  });
+
+  // Pages: ours in order, then pages only the imported copy has. A page deleted
+  // on one side stays while merged nodes still live on it.
+  const usedPages = new Set(Array.from(merged.values()).map(entry => entry.pageId));
+  const baseIds = new Set(basePages.map(p => p.id));
+  const pageList = [
+    ...ours.pages.filter(p => usedPages.has(p.id) || !baseIds.has(p.id) || theirs.pages.some(tp => tp.id === p.id)),
+    ...theirs.pages.filter(p => !ours.pages.some(op => op.id === p.id) && (usedPages.has(p.id) || !baseIds.has(p.id)))
+  ];
+  // Annotations of a page, merged like nodes: added, edited or deleted on one
+  // side is taken, edited on both or edited against a deletion is a conflict.
+  const showAnnotation = (value: unknown) => {
+    if (!value) return '';
+    const annotation = value as Annotation;
+    const [x, y] = annotation.points?.[0] || [annotation.x, annotation.y];
+    const at = x !== undefined && y !== undefined ? `(${Math.round(x)}, ${Math.round(y)})` : '';
+    return [annotation.text || annotation.kind, at].filter(Boolean).join(' ');
+  };
+  const mergeAnnotations = (pageId: string, pageLabel: string) => {
+    const listOf = (list: Page[]) => list.find(p => p.id === pageId)?.annotations || [];
+    const [baseList, mineList, theirList] = [listOf(basePages), listOf(ours.pages), listOf(theirs.pages)];
+    const result: Annotation[] = [];
+    const annotationIds = [...mineList, ...theirList.filter(a => !mineList.some(m => m.id === a.id))].map(a => a.id);
+    annotationIds.forEach(id => {
+      const b = baseList.find(a => a.id === id), o = mineList.find(a => a.id === id), t = theirList.find(a => a.id === id);
+      const present = (o || t)!;
+      const label = showAnnotation(present);
+      if (o && t) {
+        result.push(pick(`annotation:${id}`, { base: b, ours: o, theirs: t }, { kind: 'field', label, pageName: pageLabel, field: 'annotation' }, showAnnotation) as Annotation);
+        return;
+      }
+      if (!b) {
+        // Added on one side only.
+        if (!o) autoMerged++;
+        result.push(present);
+        return;
+      }
+      if (serialize(b) === serialize(present)) {
+        // Deleted on one side and left alone on the other.
+        if (o) autoMerged++;
+        return;
+      }
+      const kind: MergeConflictKind = o ? 'deletedByThem' : 'deletedByUs';
+      const key = `${kind}:${id}`;
+      conflicts.push({ key, kind, label, pageName: pageLabel, base: '', ours: o ? label : '', theirs: t ? label : '' });
+      if ((resolutions[key] || 'ours') !== (o ? 'theirs' : 'ours')) result.push(present);
+    });
+    return result;
+  };
+
+  const pages: Page[] = pageList.map(page => {
+    const mineName = ours.pages.find(p => p.id === page.id)?.name;
+    const theirName = theirs.pages.find(p => p.id === page.id)?.name;
+    const name = mineName !== undefined && theirName !== undefined
+      ? pick(`page:${page.id}`, { base: basePages.find(p => p.id === page.id)?.name, ours: mineName, theirs: theirName }, { kind: 'field', label: mineName, field: 'name' }) as string
+      : page.name;
+    const annotations = mergeAnnotations(page.id, name);
+    return { ...page, name, items: [], annotations: annotations.length > 0 || page.annotations ? annotations : undefined };
+  });
+
+  // Rebuild the trees. Nodes whose parent is gone, or on another page, become
+  // roots; so does a node whose merged parents would form a loop.
+  const pageIds = new Set(pages.map(p => p.id));
+  const leadsToLoop = (id: string) => {
+    const seen = new Set<string>();
+    for (let current: string | null = id; current; current = merged.get(current)?.parentId ?? null) {
+      if (seen.has(current)) return true;
+      seen.add(current);
+    }
+    return false;
+  };
+  const sorted = Array.from(merged.entries()).sort((a, b) => a[1].order - b[1].order);
+  sorted.forEach(([id, entry]) => {
+    const parent = entry.parentId ? merged.get(entry.parentId) : undefined;
+    if (!parent || parent.pageId !== entry.pageId || leadsToLoop(id)) entry.parentId = null;
+  });
+  sorted.forEach(([, entry]) => {
+    if (entry.parentId) merged.get(entry.parentId)!.node.children.push(entry.node);
+  });
+  sorted.forEach(([, entry]) => {
+    if (entry.parentId) return;
+    const page = pages.find(p => p.id === (pageIds.has(entry.pageId) ? entry.pageId : pages[0]?.id));
+    page?.items.push(entry.node);
+  });
+
+  // Extra connections, and their routes, may point at nodes that did not survive the merge.
+  const drop = (node: ElectricalNode) => {
+    if (node.extraConnections) node.extraConnections = node.extraConnections.filter(id => merged.has(id));
+    if (node.extraConnectionRoutes) {
+      const kept = Object.entries(node.extraConnectionRoutes).filter(([id]) => merged.has(id));
+      node.extraConnectionRoutes = kept.length > 0 ? Object.fromEntries(kept) : undefined;
+    }
+    node.children.forEach(drop);
+  };
+  pages.forEach(page => page.items.forEach(drop));
+
+  // Project settings have no ancestor in the revision snapshot, so any difference is a conflict.
+  const project: Project = { ...ours, pages: pages.length > 0 ? pages : ours.pages };
+  PROJECT_FIELDS.forEach(field => {
+    setField(project, field, pick(`project:${field}`, { base: undefined, ours: ours[field], theirs: theirs[field] }, { kind: 'field', label: ours.name, field }));
+  });
+  // Revisions are only ever added, so the merge keeps those of both copies,
+  // matched by ID, in the order they were issued.
+  const theirsOnly = (theirs.revisions || []).filter(r => !(ours.revisions || []).some(mineRev => mineRev.id === r.id));
+  autoMerged += theirsOnly.length;
+  if (ours.revisions || theirsOnly.length > 0) {
+    project.revisions = [...(ours.revisions || []), ...theirsOnly].sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  return { project, conflicts, ancestor, autoMerged };
+};
@@ -0,0 +1,76 @@
+import { ElectricalNode, ComponentType, PhaseConductor } from "../types";
+import { buildPhaseBalanceReport, getCircuitPhaseType, PHASES } from "./phaseBalance";
+
+export interface PanelScheduleRow {
+  ways: string; // e.g. "3" or "4-6" for a three-pole circuit
+  node: ElectricalNode;
+  rating?: number;
+  poles: number;
+  phase: string;
+  loadKva: number;
+  loadAmps: number;
+  isSpare: boolean;
+}
+
+export interface PanelSchedule {
+  board: ElectricalNode;
+  voltage: number;
+  rows: PanelScheduleRow[];
+  totalWays: number;
+  spareWays: number;
+  totalKva: number;
+  totalAmps: number;
+  phaseKva: Record<PhaseConductor, number>;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const buildRows = (board: ElectricalNode): PanelScheduleRow[] => {
+  let nextWay = 1;
+  return board.children.map(child => {
+    const isThree = getCircuitPhaseType(child) === 'three';
+    const poles = isThree ? 3 : 1;
+    const ways = poles === 1 ? String(nextWay) : `${nextWay}-${nextWay + poles - 1}`;
+    nextWay += poles;
+    return {
+      ways,
+      node: child,
+      rating: child.amps,
+      poles,
+      phase: isThree ? PHASES.join('-') : child.phase || '',
+      loadKva: child.isReserved ? 0 : child.calculatedLoad?.kva || 0,
+      loadAmps: child.isReserved ? 0 : child.calculatedLoad?.amps || 0,
+      isSpare: !!child.isReserved
+    };
+  });
+};
+
+/**
+ * One schedule per DISTRIBUTION_BOARD, listing its outgoing circuits in
+ * drawing order. Expects items that already carry `calculatedLoad`.
+ */
+export const buildPanelSchedules = (items: ElectricalNode[]): PanelSchedule[] => {
+  const balance = new Map(buildPhaseBalanceReport(items).map(report => [report.board.id, report]));
+  const schedules: PanelSchedule[] = [];
+
+  const visit = (node: ElectricalNode) => {
+    if (node.type === ComponentType.DISTRIBUTION_BOARD) {
+      const rows = buildRows(node);
+      const report = balance.get(node.id);
+      schedules.push({
+        board: node,
+        voltage: report?.voltage || node.voltage || 0,
+        rows,
+        totalWays: rows.reduce((sum, row) => sum + row.poles, 0),
+        spareWays: rows.filter(row => row.isSpare).reduce((sum, row) => sum + row.poles, 0),
+        totalKva: round(rows.reduce((sum, row) => sum + row.loadKva, 0)),
+        totalAmps: node.calculatedLoad?.amps || 0,
+        phaseKva: report?.phaseKva || { L1: 0, L2: 0, L3: 0 }
+      });
+    }
+    node.children.forEach(visit);
+  };
+
+  items.forEach(visit);
+  return schedules;
+};
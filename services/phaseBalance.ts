@@ -0,0 +1,148 @@
+import { ElectricalNode, ComponentType, PhaseConductor } from "../types";
+import { DEFAULT_SYSTEM_VOLTAGE, PHASE_IMBALANCE_LIMIT } from "../constants";
+import { phaseVoltage, isThreePhaseVoltage } from "./loadCalculator";
+
+export const PHASES: PhaseConductor[] = ['L1', 'L2', 'L3'];
+
+export interface PhaseCircuit {
+  node: ElectricalNode;
+  kva: number;
+  phaseType: 'single' | 'three';
+  phase?: PhaseConductor;
+}
+
+export interface PhaseReassignment {
+  nodeId: string;
+  name: string;
+  from?: PhaseConductor;
+  to: PhaseConductor;
+}
+
+export interface BoardPhaseBalance {
+  board: ElectricalNode;
+  voltage: number;
+  circuits: PhaseCircuit[];
+  phaseKva: Record<PhaseConductor, number>;
+  phaseAmps: Record<PhaseConductor, number>;
+  unassignedKva: number;
+  imbalancePercent: number;
+  isBalanced: boolean;
+  suggestions: PhaseReassignment[];
+  suggestedImbalancePercent: number;
+}
+
+const emptyPhases = (): Record<PhaseConductor, number> => ({ L1: 0, L2: 0, L3: 0 });
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Maximum deviation from the average phase load, as a percentage of the average.
+export const getImbalancePercent = (loads: Record<PhaseConductor, number>) => {
+  const values = PHASES.map(p => loads[p]);
+  const avg = values.reduce((a, b) => a + b, 0) / values.length;
+  if (avg === 0) return 0;
+  return round((Math.max(...values.map(v => Math.abs(v - avg))) / avg) * 100);
+};
+
+export const getCircuitPhaseType = (node: ElectricalNode): 'single' | 'three' => {
+  if (node.phaseType) return node.phaseType;
+  return node.voltage && !isThreePhaseVoltage(node.voltage) ? 'single' : 'three';
+};
+
+/**
+ * Greedy re-assignment of single-phase circuits: heaviest first, each onto
+ * the currently lightest phase, starting from the three-phase baseline.
+ */
+const suggestAssignment = (circuits: PhaseCircuit[]) => {
+  const loads = emptyPhases();
+  circuits
+    .filter(c => c.phaseType === 'three')
+    .forEach(c => PHASES.forEach(p => { loads[p] += c.kva / 3; }));
+
+  const assignment = new Map<string, PhaseConductor>();
+  [...circuits]
+    .filter(c => c.phaseType === 'single')
+    .sort((a, b) => b.kva - a.kva)
+    .forEach(c => {
+      const lightest = PHASES.reduce((min, p) => (loads[p] < loads[min] ? p : min), PHASES[0]);
+      // Keep the existing phase when it is as good as the lightest one.
+      const target = c.phase && loads[c.phase] === loads[lightest] ? c.phase : lightest;
+      loads[target] += c.kva;
+      assignment.set(c.node.id, target);
+    });
+
+  return { loads, assignment };
+};
+
+const analyzeBoard = (board: ElectricalNode, voltage: number): BoardPhaseBalance => {
+  const circuits: PhaseCircuit[] = board.children.map(child => {
+    const phaseType = getCircuitPhaseType(child);
+    return {
+      node: child,
+      kva: child.calculatedLoad?.kva || 0,
+      phaseType,
+      phase: phaseType === 'single' ? child.phase : undefined
+    };
+  });
+
+  const phaseKva = emptyPhases();
+  let unassignedKva = 0;
+  circuits.forEach(c => {
+    if (c.phaseType === 'three') {
+      PHASES.forEach(p => { phaseKva[p] += c.kva / 3; });
+    } else if (c.phase) {
+      phaseKva[c.phase] += c.kva;
+    } else {
+      unassignedKva += c.kva;
+    }
+  });
+
+  const vPhase = phaseVoltage(voltage);
+  const phaseAmps = emptyPhases();
+  PHASES.forEach(p => {
+    phaseKva[p] = round(phaseKva[p]);
+    phaseAmps[p] = round((phaseKva[p] * 1000) / vPhase);
+  });
+
+  const imbalancePercent = getImbalancePercent(phaseKva);
+  const { loads, assignment } = suggestAssignment(circuits);
+  const suggestedImbalancePercent = getImbalancePercent(loads);
+
+  const improves = unassignedKva > 0 || suggestedImbalancePercent < imbalancePercent;
+  const suggestions: PhaseReassignment[] = improves
+    ? circuits
+        .filter(c => c.phaseType === 'single' && assignment.get(c.node.id) !== c.phase)
+        .map(c => ({ nodeId: c.node.id, name: c.node.name, from: c.phase, to: assignment.get(c.node.id)! }))
+    : [];
+
+  return {
+    board,
+    voltage,
+    circuits,
+    phaseKva,
+    phaseAmps,
+    unassignedKva: round(unassignedKva),
+    imbalancePercent,
+    isBalanced: imbalancePercent <= PHASE_IMBALANCE_LIMIT && unassignedKva === 0,
+    suggestions,
+    suggestedImbalancePercent: suggestions.length > 0 ? suggestedImbalancePercent : imbalancePercent
+  };
+};
+
+/**
+ * Builds a balancing report for every DISTRIBUTION_BOARD on the page.
+ * Expects items that already carry `calculatedLoad` (see calculateLoads).
+ */
+export const buildPhaseBalanceReport = (items: ElectricalNode[]): BoardPhaseBalance[] => {
+  const reports: BoardPhaseBalance[] = [];
+
+  const visit = (node: ElectricalNode, upstreamVoltage: number) => {
+    const voltage = node.voltage || upstreamVoltage;
+    if (node.type === ComponentType.DISTRIBUTION_BOARD && node.children.length > 0) {
+      reports.push(analyzeBoard(node, voltage));
+    }
+    node.children.forEach(child => visit(child, voltage));
+  };
+
+  items.forEach(root => visit(root, root.voltage || DEFAULT_SYSTEM_VOLTAGE));
+  return reports;
+};
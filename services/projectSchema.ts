@@ -0,0 +1,217 @@
+import { AnnotationKind, ComponentType, Project } from "../types";
+import { SYMBOL_LIBRARIES } from "../constants";
+
+/**
+ * Version of the project shape written by this build. Bump it together with a
+ * new entry in MIGRATIONS whenever a saved field changes meaning or location.
+ *
+ * 1 - pages hold a single `rootNode`
+ * 2 - pages hold an `items` array of independent trees
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+// MIGRATIONS[n] upgrades a project from version n to n + 1.
+const MIGRATIONS: Record<number, (project: any) => any> = {
+  1: project => ({
+    ...project,
+    pages: (project.pages || []).map((page: any) => {
+      if (!page || page.items || !page.rootNode) return page;
+      const { rootNode, ...rest } = page;
+      return { ...rest, items: [rootNode] };
+    })
+  })
+};
+
+export type SchemaIssueKind = 'invalidJson' | 'notObject' | 'missing' | 'wrongType' | 'invalidValue' | 'duplicateId' | 'unsupportedVersion';
+
+export interface SchemaIssue {
+  path: string[]; // project / page / node labels leading to the problem
+  field?: string;
+  kind: SchemaIssueKind;
+  value?: string;
+}
+
+// Files saved before schemaVersion existed are told apart by their page shape.
+const detectVersion = (project: any): number => {
+  if (typeof project.schemaVersion === 'number') return project.schemaVersion;
+  const pages = Array.isArray(project.pages) ? project.pages : [];
+  return pages.some((page: any) => page && page.rootNode && !page.items) ? 1 : 2;
+};
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'object' | 'stringArray';
+
+const NODE_FIELDS: Record<string, FieldKind> = {
+  componentNumber: 'string', model: 'string', amps: 'number', voltage: 'number', kva: 'number',
+  impedancePercent: 'number', faultLevel: 'number', breakingCapacity: 'number', tripSettings: 'object',
+  description: 'string', place: 'string', building: 'string', floor: 'string',
+  customColor: 'string', customBgColor: 'string', customImage: 'string',
+  hasMeter: 'boolean', meterNumber: 'string', isExcludedFromMeter: 'boolean',
+  hasGeneratorConnection: 'boolean', generatorName: 'string', isAirConditioning: 'boolean', isReserved: 'boolean',
+  manualX: 'number', manualY: 'number', extraConnections: 'stringArray', connectionStyle: 'object', isCollapsed: 'boolean',
+  offPageTarget: 'string', busbar: 'boolean', extraConnectionRoutes: 'object'
+};
+
+const NODE_ENUMS: Record<string, readonly string[]> = {
+  type: Object.values(ComponentType),
+  phaseType: ['single', 'three'],
+  phase: ['L1', 'L2', 'L3'],
+  shape: ['rectangle', 'circle', 'square']
+};
+
+// Coordinates each kind of annotation is drawn from.
+const ANNOTATION_GEOMETRY: Record<AnnotationKind, string[]> = {
+  freehand: ['points'],
+  text: ['x', 'y'],
+  cloud: ['x', 'y', 'x2', 'y2'],
+  arrow: ['x', 'y', 'x2', 'y2'],
+  rect: ['x', 'y', 'x2', 'y2']
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const matchesKind = (value: unknown, kind: FieldKind) => {
+  if (kind === 'number') return typeof value === 'number' && Number.isFinite(value);
+  if (kind === 'object') return isObject(value);
+  if (kind === 'stringArray') return Array.isArray(value) && value.every(item => typeof item === 'string');
+  return typeof value === kind;
+};
+
+const nodeLabel = (node: any) =>
+  isObject(node) ? [node.componentNumber, node.name || node.id].filter(Boolean).join(' ') || '?' : '?';
+
+const validateNode = (node: unknown, path: string[], seenIds: Set<string>, issues: SchemaIssue[]) => {
+  const here = [...path, nodeLabel(node)];
+  if (!isObject(node)) {
+    issues.push({ path: here, kind: 'notObject' });
+    return;
+  }
+  const report = (kind: SchemaIssueKind, field?: string, value?: unknown) =>
+    issues.push({ path: here, field, kind, value: value === undefined ? undefined : JSON.stringify(value)?.slice(0, 60) });
+
+  if (typeof node.id !== 'string' || !node.id) report(node.id === undefined ? 'missing' : 'wrongType', 'id', node.id);
+  else if (seenIds.has(node.id)) report('duplicateId', 'id', node.id);
+  else seenIds.add(node.id);
+
+  if (typeof node.name !== 'string') report(node.name === undefined ? 'missing' : 'wrongType', 'name', node.name);
+
+  Object.entries(NODE_ENUMS).forEach(([field, allowed]) => {
+    const value = node[field];
+    if (value === undefined || value === null) {
+      if (field === 'type') report('missing', field);
+    } else if (!allowed.includes(value)) {
+      report('invalidValue', field, value);
+    }
+  });
+
+  Object.entries(NODE_FIELDS).forEach(([field, kind]) => {
+    const value = node[field];
+    if (value !== undefined && value !== null && !matchesKind(value, kind)) report('wrongType', field, value);
+  });
+
+  if (!Array.isArray(node.children)) {
+    report(node.children === undefined ? 'missing' : 'wrongType', 'children');
+    return;
+  }
+  node.children.forEach((child: unknown) => validateNode(child, here, seenIds, issues));
+};
+
+const isPoint = (value: unknown) =>
+  Array.isArray(value) && value.length === 2 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+const validateAnnotation = (annotation: unknown, path: string[], seenIds: Set<string>, issues: SchemaIssue[]) => {
+  const here = [...path, isObject(annotation) ? annotation.text || annotation.id || '?' : '?'];
+  if (!isObject(annotation)) {
+    issues.push({ path: here, kind: 'notObject' });
+    return;
+  }
+  const report = (kind: SchemaIssueKind, field?: string, value?: unknown) =>
+    issues.push({ path: here, field, kind, value: value === undefined ? undefined : JSON.stringify(value)?.slice(0, 60) });
+
+  if (typeof annotation.id !== 'string' || !annotation.id) report(annotation.id === undefined ? 'missing' : 'wrongType', 'id', annotation.id);
+  else if (seenIds.has(annotation.id)) report('duplicateId', 'id', annotation.id);
+  else seenIds.add(annotation.id);
+
+  if (typeof annotation.color !== 'string') report(annotation.color === undefined ? 'missing' : 'wrongType', 'color', annotation.color);
+  if (annotation.text !== undefined && typeof annotation.text !== 'string') report('wrongType', 'text', annotation.text);
+
+  if (!Object.prototype.hasOwnProperty.call(ANNOTATION_GEOMETRY, annotation.kind)) {
+    report(annotation.kind === undefined ? 'missing' : 'invalidValue', 'kind', annotation.kind);
+    return;
+  }
+  ANNOTATION_GEOMETRY[annotation.kind as AnnotationKind].forEach(field => {
+    const value = annotation[field];
+    const valid = field === 'points' ? Array.isArray(value) && value.every(isPoint) : matchesKind(value, 'number');
+    if (!valid) report(value === undefined ? 'missing' : 'wrongType', field, value);
+  });
+};
+
+/** Checks the shape of an already migrated project. An empty list means it is safe to load. */
+export const validateProject = (project: unknown): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  if (!isObject(project)) return [{ path: [], kind: 'notObject' }];
+  const path = [typeof project.name === 'string' ? project.name : '?'];
+
+  if (typeof project.id !== 'string' || !project.id) issues.push({ path, field: 'id', kind: project.id === undefined ? 'missing' : 'wrongType' });
+  if (typeof project.name !== 'string') issues.push({ path, field: 'name', kind: project.name === undefined ? 'missing' : 'wrongType' });
+  if (project.revisions !== undefined && !Array.isArray(project.revisions)) issues.push({ path, field: 'revisions', kind: 'wrongType' });
+  if (project.symbolLibrary !== undefined && !SYMBOL_LIBRARIES.includes(project.symbolLibrary)) {
+    issues.push({ path, field: 'symbolLibrary', kind: 'invalidValue', value: JSON.stringify(project.symbolLibrary)?.slice(0, 60) });
+  }
+  if (!Array.isArray(project.pages) || project.pages.length === 0) {
+    issues.push({ path, field: 'pages', kind: project.pages === undefined ? 'missing' : 'wrongType' });
+    return issues;
+  }
+
+  const seenIds = new Set<string>();
+  const seenAnnotationIds = new Set<string>();
+  project.pages.forEach((page: unknown, index: number) => {
+    const pagePath = [...path, isObject(page) && typeof page.name === 'string' ? page.name : `#${index + 1}`];
+    if (!isObject(page)) {
+      issues.push({ path: pagePath, kind: 'notObject' });
+      return;
+    }
+    if (typeof page.id !== 'string' || !page.id) issues.push({ path: pagePath, field: 'id', kind: page.id === undefined ? 'missing' : 'wrongType' });
+    if (!Array.isArray(page.items)) {
+      issues.push({ path: pagePath, field: 'items', kind: page.items === undefined ? 'missing' : 'wrongType' });
+      return;
+    }
+    if (page.annotations !== undefined && !Array.isArray(page.annotations)) issues.push({ path: pagePath, field: 'annotations', kind: 'wrongType' });
+    else (page.annotations || []).forEach((annotation: unknown) => validateAnnotation(annotation, pagePath, seenAnnotationIds, issues));
+    page.items.forEach((node: unknown) => validateNode(node, pagePath, seenIds, issues));
+  });
+  return issues;
+};
+
+/** Runs the migration chain without validating, for data this app wrote itself. */
+export const upgradeProject = (raw: any): any => {
+  let project = raw;
+  for (let v = detectVersion(raw); v < CURRENT_SCHEMA_VERSION; v++) project = MIGRATIONS[v](project);
+  return { ...project, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
+
+/**
+ * Upgrades a project from any earlier schema version to the current one and
+ * validates the result. `project` is only set when there are no issues.
+ */
+export const migrateProject = (raw: unknown): { project?: Project; issues: SchemaIssue[] } => {
+  if (!isObject(raw)) return { issues: [{ path: [], kind: 'notObject' }] };
+
+  const version = detectVersion(raw);
+  if (!Number.isInteger(version) || version < 1 || version > CURRENT_SCHEMA_VERSION) {
+    return { issues: [{ path: [typeof raw.name === 'string' ? raw.name : '?'], field: 'schemaVersion', kind: 'unsupportedVersion', value: String(raw.schemaVersion) }] };
+  }
+
+  const project = upgradeProject(raw);
+  const issues = validateProject(project);
+  return issues.length > 0 ? { issues } : { project: project as Project, issues };
+};
+
+/** Stamps the current version on projects written to files or storage. */
+export const withSchemaVersion = (project: Project): Project => ({ ...project, schemaVersion: CURRENT_SCHEMA_VERSION });
+
+export const formatSchemaIssue = (issue: SchemaIssue, t: any) => {
+  const where = issue.path.join(' › ');
+  const message = t.schema.issues[issue.kind].replace('{field}', issue.field || '');
+  return `${where ? `${where}: ` : ''}${message}${issue.value ? ` (${issue.value})` : ''}`;
+};
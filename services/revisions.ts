@@ -0,0 +1,207 @@
+import { ElectricalNode, Page, Project, Revision } from "../types";
+
+export type NodeChangeKind = 'added' | 'removed' | 'moved' | 'changed' | 'rerouted';
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface NodeChange {
+  id: string;
+  label: string; // component number and name, as printed on the drawing
+  pageId: string;
+  pageName: string;
+  kinds: NodeChangeKind[];
+  fields: FieldChange[];
+  feedBefore?: string; // labels of the upstream nodes, for re-routed connections
+  feedAfter?: string;
+}
+
+/** How a node is marked on the diagram: green, red or amber cloud. */
+export type DiffHighlight = 'added' | 'removed' | 'changed';
+
+export const DIFF_COLORS: Record<DiffHighlight, string> = {
+  added: '#22c55e',
+  removed: '#ef4444',
+  changed: '#f59e0b'
+};
+
+// Identity and rating fields that appear on issued drawings. Appearance and
+// view state (colors, shapes, collapsed) are not revisions of the design.
+export const DIFF_FIELDS = [
+  'name', 'componentNumber', 'type', 'model', 'amps', 'voltage', 'kva', 'phaseType', 'phase',
+  'breakingCapacity', 'impedancePercent', 'faultLevel', 'tripSettings', 'cableSize', 'cable'
+] as const;
+
+export type DiffField = typeof DIFF_FIELDS[number];
+
+interface NodeEntry {
+  node: ElectricalNode;
+  parentId: string | null;
+  page: Page;
+}
+
+const flatten = (pages: Page[]) => {
+  const entries = new Map<string, NodeEntry>();
+  const walk = (node: ElectricalNode, parentId: string | null, page: Page) => {
+    entries.set(node.id, { node, parentId, page });
+    node.children.forEach(child => walk(child, node.id, page));
+  };
+  pages.forEach(page => page.items.forEach(root => walk(root, null, page)));
+  return entries;
+};
+
+const fieldValue = (node: ElectricalNode, field: DiffField): unknown => {
+  if (field === 'cableSize') return node.connectionStyle?.cableSize;
+  if (field === 'cable') return node.connectionStyle?.cable;
+  return node[field];
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const nodeLabel = (node: ElectricalNode) => [node.componentNumber, node.name].filter(Boolean).join(' ');
+
+const feedIds = (entry: NodeEntry) => [entry.parentId, ...(entry.node.extraConnections || [])].filter(Boolean).sort().join('|');
+
+const feedLabel = (entry: NodeEntry, entries: Map<string, NodeEntry>) =>
+  [entry.parentId, ...(entry.node.extraConnections || [])]
+    .filter((id): id is string => !!id)
+    .map(id => { const upstream = entries.get(id); return upstream ? nodeLabel(upstream.node) : id; })
+    .join(', ');
+
+/**
+ * Compares two states of a project's pages node by node, matching on IDs.
+ * A node is `moved` when it changed page or manual position, `rerouted` when
+ * it is fed from different upstream nodes, and `changed` when one of
+ * DIFF_FIELDS differs. Added and changed nodes come in the drawing order of
+ * `after`, followed by the removed ones in the order of `before`.
+ */
+export const diffPages = (before: Page[], after: Page[]): NodeChange[] => {
+  const oldEntries = flatten(before);
+  const newEntries = flatten(after);
+  const changes: NodeChange[] = [];
+
+  newEntries.forEach((entry, id) => {
+    const base = { id, label: nodeLabel(entry.node), pageId: entry.page.id, pageName: entry.page.name };
+    const old = oldEntries.get(id);
+    if (!old) {
+      changes.push({ ...base, kinds: ['added'], fields: [] });
+      return;
+    }
+
+    const kinds: NodeChangeKind[] = [];
+    const fields = DIFF_FIELDS
+      .map(field => ({ field, before: formatValue(fieldValue(old.node, field)), after: formatValue(fieldValue(entry.node, field)) }))
+      .filter(change => change.before !== change.after);
+    if (fields.length > 0) kinds.push('changed');
+    if (old.page.id !== entry.page.id || (old.node.manualX || 0) !== (entry.node.manualX || 0) || (old.node.manualY || 0) !== (entry.node.manualY || 0)) {
+      kinds.push('moved');
+    }
+    const rerouted = feedIds(old) !== feedIds(entry);
+    if (rerouted) kinds.push('rerouted');
+    if (kinds.length === 0) return;
+
+    changes.push({
+      ...base,
+      kinds,
+      fields,
+      ...(rerouted ? { feedBefore: feedLabel(old, oldEntries), feedAfter: feedLabel(entry, newEntries) } : {})
+    });
+  });
+
+  oldEntries.forEach((entry, id) => {
+    if (newEntries.has(id)) return;
+    changes.push({ id, label: nodeLabel(entry.node), pageId: entry.page.id, pageName: entry.page.name, kinds: ['removed'], fields: [] });
+  });
+
+  return changes;
+};
+
+export const diffHighlights = (changes: NodeChange[]): Record<string, DiffHighlight> =>
+  Object.fromEntries(changes.map(change => [
+    change.id,
+    change.kinds.includes('added') ? 'added' : change.kinds.includes('removed') ? 'removed' : 'changed'
+  ]));
+
+/**
+ * Items of page `pageId` in `after` with the nodes removed since `before` put
+ * back where they were, so the diagram can show them in red. Removed nodes
+ * hang under their old parent when it is still on the page, otherwise they
+ * are shown as their own tree. Nodes moved to another page are not removed.
+ */
+export const withRemovedNodes = (before: Page[], after: Page[], pageId: string): ElectricalNode[] => {
+  const items = after.find(p => p.id === pageId)?.items || [];
+  const old = before.find(p => p.id === pageId);
+  if (!old) return items;
+
+  const collect = (ids: Set<string>) => (node: ElectricalNode) => { ids.add(node.id); node.children.forEach(collect(ids)); };
+  const present = new Set<string>();
+  after.forEach(page => page.items.forEach(collect(present)));
+  const onPage = new Set<string>();
+  items.forEach(collect(onPage));
+
+  // Only the removed part of a subtree comes back; children that still exist are drawn where they are now.
+  const ghost = (node: ElectricalNode): ElectricalNode => ({
+    ...node,
+    extraConnections: undefined,
+    children: node.children.filter(child => !present.has(child.id)).map(ghost)
+  });
+
+  const graft = new Map<string | null, ElectricalNode[]>();
+  const findRemoved = (node: ElectricalNode, parentId: string | null) => {
+    if (!present.has(node.id)) {
+      const key = parentId && onPage.has(parentId) ? parentId : null;
+      graft.set(key, [...(graft.get(key) || []), ghost(node)]);
+      return;
+    }
+    node.children.forEach(child => findRemoved(child, node.id));
+  };
+  old.items.forEach(root => findRemoved(root, null));
+  if (graft.size === 0) return items;
+
+  const attach = (node: ElectricalNode): ElectricalNode => ({
+    ...node,
+    children: [...node.children.map(attach), ...(graft.get(node.id) || [])]
+  });
+  return [...items.map(attach), ...(graft.get(null) || [])];
+};
+
+/** Pages of a revision, or of the project itself when `revisionId` is 'current'. */
+export const revisionPages = (project: Project, revisionId: string): Page[] =>
+  revisionId === 'current' ? project.pages : project.revisions?.find(r => r.id === revisionId)?.pages || [];
+
+/** Next letter after the last lettered revision: A, B, … Z, AA, AB … */
+export const nextRevisionName = (revisions: Revision[] = []) => {
+  const last = [...revisions].reverse().find(r => /^[A-Z]+$/.test(r.name));
+  if (!last) return 'A';
+  const letters = last.name.split('');
+  let i = letters.length - 1;
+  while (i >= 0 && letters[i] === 'Z') letters[i--] = 'A';
+  if (i < 0) letters.unshift('A');
+  else letters[i] = String.fromCharCode(letters[i].charCodeAt(0) + 1);
+  return letters.join('');
+};
+
+export const createRevision = (project: Project, name: string, id: string): Revision => ({
+  id,
+  name,
+  createdAt: Date.now(),
+  pages: JSON.parse(JSON.stringify(project.pages))
+});
+
+/** Rows of the change list for CSV export and printing. */
+export const changeListRows = (changes: NodeChange[], t: any) =>
+  changes.map(change => [
+    change.pageName,
+    change.label,
+    change.kinds.map(kind => t.revisions.kinds[kind]).join(', '),
+    [
+      ...change.fields.map(f => `${t.revisions.fields[f.field] || f.field}: ${f.before || '—'} → ${f.after || '—'}`),
+      ...(change.kinds.includes('rerouted') ? [`${t.revisions.feed}: ${change.feedBefore || '—'} → ${change.feedAfter || '—'}`] : [])
+    ].join('; ')
+  ]);
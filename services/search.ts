@@ -0,0 +1,51 @@
+import { ElectricalNode, Project } from "../types";
+
+export interface SearchResult {
+  projectId: string;
+  projectName: string;
+  pageId: string;
+  pageName: string;
+  node: ElectricalNode;
+  path: string[]; // labels of the upstream nodes, from the root down
+}
+
+const nodeLabel = (node: ElectricalNode) => node.componentNumber || node.name;
+
+/** True when one of the node's identifying or location fields contains `term` (already lower case). */
+export const nodeMatches = (node: ElectricalNode, term: string) =>
+  [node.name, node.model, node.componentNumber, node.meterNumber, node.place, node.building, node.floor, node.description, node.type]
+    .some(value => !!value && value.toLowerCase().includes(term));
+
+/** IDs of the matching nodes in one page's trees, or null when there is nothing to search for. */
+export const searchItems = (items: ElectricalNode[], query: string): Set<string> | null => {
+  const term = query.trim().toLowerCase();
+  if (!term) return null;
+  const matches = new Set<string>();
+  const traverse = (node: ElectricalNode) => {
+    if (nodeMatches(node, term)) matches.add(node.id);
+    node.children.forEach(traverse);
+  };
+  items.forEach(traverse);
+  return matches;
+};
+
+/**
+ * Searches every page of every project, in the order they are listed in the
+ * sidebar. Each result carries the breadcrumb needed to tell apart nodes with
+ * the same name on different pages.
+ */
+export const searchProjects = (projects: Project[], query: string): SearchResult[] => {
+  const term = query.trim().toLowerCase();
+  if (!term) return [];
+  const results: SearchResult[] = [];
+  projects.forEach(project => project.pages.forEach(page => {
+    const traverse = (node: ElectricalNode, path: string[]) => {
+      if (nodeMatches(node, term)) {
+        results.push({ projectId: project.id, projectName: project.name, pageId: page.id, pageName: page.name, node, path });
+      }
+      node.children.forEach(child => traverse(child, [...path, nodeLabel(node)]));
+    };
+    page.items.forEach(root => traverse(root, []));
+  }));
+  return results;
+};
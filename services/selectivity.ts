@@ -0,0 +1,166 @@
+import { ElectricalNode, ComponentType, TripSettings } from "../types";
+import { MAGNETIC_TRIP_RANGES, DEFAULT_ELECTRONIC_TRIP_SETTINGS } from "../constants";
+
+export type SelectivityVerdict = 'total' | 'partial' | 'none';
+
+export interface TripTime {
+  min: number; // s, fastest the device may trip (Infinity = never)
+  max: number; // s, slowest the device is guaranteed to trip (Infinity = never)
+}
+
+export interface TripCurvePoint extends TripTime {
+  current: number;
+}
+
+export interface SelectivityResult {
+  upstream: ElectricalNode;
+  downstream: ElectricalNode;
+  verdict: SelectivityVerdict;
+  limitCurrent?: number; // A, highest current up to which the pair is selective
+  maxCurrent: number; // A, upper end of the checked range
+}
+
+// Simplified thermal release: t = k / ((I/In)² - 1), bounded by the conventional currents.
+const THERMAL_K_MIN = 30;
+const THERMAL_K_MAX = 300;
+const NON_TRIP_MULTIPLE = 1.13;
+const TRIP_MULTIPLE = 1.05;
+
+// Clearing window of an instantaneous release (s).
+const INSTANT_MIN = 0.005;
+const INSTANT_MAX = 0.03;
+
+const SAMPLES = 200;
+
+export const getTripSettings = (node: ElectricalNode): TripSettings => node.tripSettings || { curve: 'C' };
+
+// Settings left unset, including ones cleared to undefined, take the default.
+const electronicSettings = (settings: TripSettings) => {
+  const s = { ...DEFAULT_ELECTRONIC_TRIP_SETTINGS };
+  (Object.keys(s) as (keyof typeof s)[]).forEach(key => {
+    const value = settings[key];
+    if (value !== undefined) s[key] = value;
+  });
+  return s;
+};
+
+/** Lowest current at which the device trips without intentional delay (A). */
+export const getInstantaneousPickup = (node: ElectricalNode) => {
+  const rating = node.amps || 0;
+  const settings = getTripSettings(node);
+  if (settings.curve === 'electronic') {
+    const s = electronicSettings(settings);
+    return Math.min(s.shortTimePickup * s.longTimePickup, s.instantaneousPickup) * rating;
+  }
+  return MAGNETIC_TRIP_RANGES[settings.curve][0] * rating;
+};
+
+const thermalMagneticTime = (rating: number, curve: 'B' | 'C' | 'D', current: number): TripTime => {
+  const x = current / rating;
+  const [magneticLow, magneticHigh] = MAGNETIC_TRIP_RANGES[curve];
+  let min = x > NON_TRIP_MULTIPLE ? THERMAL_K_MIN / (x * x - 1) : Infinity;
+  let max = x > TRIP_MULTIPLE ? THERMAL_K_MAX / (x * x - 1) : Infinity;
+  if (x >= magneticLow) min = Math.min(min, INSTANT_MIN);
+  if (x >= magneticHigh) max = Math.min(max, INSTANT_MAX);
+  return { min, max };
+};
+
+const electronicTime = (rating: number, settings: TripSettings, current: number): TripTime => {
+  const s = electronicSettings(settings);
+  const ir = s.longTimePickup * rating;
+  let min = Infinity;
+  let max = Infinity;
+
+  if (current > TRIP_MULTIPLE * ir) {
+    // Long-time delay is specified at 6 x Ir with a ±20% band.
+    const t = s.longTimeDelay * (6 * ir / current) ** 2;
+    min = 0.8 * t;
+    max = 1.2 * t;
+  }
+  if (current >= s.shortTimePickup * ir) {
+    min = Math.min(min, 0.8 * s.shortTimeDelay);
+    max = Math.min(max, 1.2 * s.shortTimeDelay + 0.02);
+  }
+  if (current >= s.instantaneousPickup * rating) {
+    min = Math.min(min, INSTANT_MIN);
+    max = Math.min(max, INSTANT_MAX);
+  }
+  return { min, max };
+};
+
+export const getTripTime = (node: ElectricalNode, current: number): TripTime => {
+  if (!node.amps) return { min: Infinity, max: Infinity };
+  const settings = getTripSettings(node);
+  return settings.curve === 'electronic'
+    ? electronicTime(node.amps, settings, current)
+    : thermalMagneticTime(node.amps, settings.curve, current);
+};
+
+const logSpace = (from: number, to: number, count: number) => {
+  const step = Math.log(to / from) / (count - 1);
+  return Array.from({ length: count }, (_, i) => from * Math.exp(step * i));
+};
+
+export const buildTripCurve = (node: ElectricalNode, from: number, to: number, count = SAMPLES): TripCurvePoint[] =>
+  logSpace(from, to, count).map(current => ({ current, ...getTripTime(node, current) }));
+
+/**
+ * Time-current comparison of two breakers. The pair is selective at a given
+ * current when the downstream device is guaranteed to clear before the
+ * upstream one can start to trip. Checked from the downstream rating up to
+ * `maxFaultCurrent` (A), or 50 x the upstream rating when the fault level is unknown.
+ */
+export const checkSelectivity = (
+  upstream: ElectricalNode,
+  downstream: ElectricalNode,
+  maxFaultCurrent?: number
+): SelectivityResult => {
+  const from = (downstream.amps || 1) * TRIP_MULTIPLE;
+  const maxCurrent = Math.max(maxFaultCurrent || (upstream.amps || 1) * 50, from * 1.01);
+
+  let limitCurrent: number | undefined;
+  let previous = from;
+  for (const current of logSpace(from, maxCurrent, SAMPLES)) {
+    const up = getTripTime(upstream, current);
+    const down = getTripTime(downstream, current);
+    if (Number.isFinite(up.min) && down.max >= up.min) {
+      limitCurrent = previous;
+      break;
+    }
+    previous = current;
+  }
+
+  let verdict: SelectivityVerdict = 'total';
+  if (limitCurrent !== undefined) {
+    verdict = limitCurrent < getInstantaneousPickup(downstream) ? 'none' : 'partial';
+  }
+
+  return { upstream, downstream, verdict, limitCurrent, maxCurrent };
+};
+
+/**
+ * Devices to coordinate for the link feeding `targetId`: the target itself
+ * when it is a breaker, and the nearest breaker above it.
+ */
+export const findCoordinationPair = (items: ElectricalNode[], targetId: string) => {
+  const search = (node: ElectricalNode, upstream: ElectricalNode | null): { upstream: ElectricalNode | null; downstream: ElectricalNode } | null => {
+    if (node.id === targetId) {
+      return { upstream, downstream: node };
+    }
+    const next = node.type === ComponentType.BREAKER && node.amps ? node : upstream;
+    for (const child of node.children) {
+      const found = search(child, next);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  for (const root of items) {
+    const found = search(root, null);
+    if (found) {
+      const valid = found.upstream && found.downstream.type === ComponentType.BREAKER && found.downstream.amps;
+      return valid ? { upstream: found.upstream!, downstream: found.downstream } : null;
+    }
+  }
+  return null;
+};
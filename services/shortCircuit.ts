@@ -0,0 +1,131 @@
+import { ElectricalNode, ComponentType } from "../types";
+import {
+  DEFAULT_SYSTEM_VOLTAGE, CONDUCTOR_RESISTIVITY_20C, CABLE_REACTANCE, FAULT_VOLTAGE_FACTOR,
+  DEFAULT_TRANSFORMER_IMPEDANCE, DEFAULT_GENERATOR_REACTANCE
+} from "../constants";
+import { getSupplyVoltage, getOutputVoltage } from "./loadCalculator";
+import { hasCableData } from "./voltageDrop";
+
+// Per-phase impedance in Ω, referred to the voltage of the bus it belongs to.
+interface Impedance {
+  r: number;
+  x: number;
+}
+
+export interface NodeFaultLevel {
+  nodeId: string;
+  voltage: number;
+  impedance: number; // mΩ
+  faultCurrentKa: number;
+  breakingCapacity?: number;
+  isUnderrated: boolean;
+}
+
+// Typical X/R ratios for the network feeding the site and for distribution transformers.
+const SOURCE_X_R = 10;
+const TRANSFORMER_X_R = 5;
+
+const ZERO: Impedance = { r: 0, x: 0 };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const magnitude = (z: Impedance) => Math.hypot(z.r, z.x);
+
+const fromMagnitude = (z: number, xr: number): Impedance => {
+  const r = z / Math.sqrt(1 + xr * xr);
+  return { r, x: r * xr };
+};
+
+const add = (a: Impedance, b: Impedance): Impedance => ({ r: a.r + b.r, x: a.x + b.x });
+
+// Impedance of a machine rated `kva` with a percentage impedance, on its own voltage base.
+const ratedImpedance = (voltage: number, kva: number, percent: number, xr: number) =>
+  fromMagnitude((percent / 100) * (voltage * voltage) / (kva * 1000), xr);
+
+const cableImpedance = (node: ElectricalNode): Impedance => {
+  const cable = node.connectionStyle?.cable;
+  if (!hasCableData(cable)) return ZERO;
+  return {
+    r: (CONDUCTOR_RESISTIVITY_20C[cable.material || 'copper'] * cable.length) / cable.crossSection,
+    x: CABLE_REACTANCE * cable.length
+  };
+};
+
+/**
+ * Source impedance of a tree's root. A SYSTEM_ROOT without a fault level is
+ * treated as an infinite bus: only cable impedance limits the current below
+ * it, and nodes without any get no result. The circuit check reports the
+ * missing fault level.
+ */
+const rootImpedance = (root: ElectricalNode, voltage: number): Impedance | null => {
+  switch (root.type) {
+    case ComponentType.SYSTEM_ROOT:
+      return root.faultLevel
+        ? fromMagnitude((FAULT_VOLTAGE_FACTOR * voltage * voltage) / (root.faultLevel * 1e6), SOURCE_X_R)
+        : ZERO;
+    case ComponentType.GENERATOR:
+      return root.kva ? ratedImpedance(voltage, root.kva, DEFAULT_GENERATOR_REACTANCE, SOURCE_X_R) : null;
+    default:
+      return ZERO;
+  }
+};
+
+// Three-phase symmetrical fault current in kA; `null` when the impedance is unknown or zero.
+const faultCurrentKa = (z: Impedance | null, voltage: number) => {
+  if (!z || !voltage || magnitude(z) === 0) return null;
+  return (FAULT_VOLTAGE_FACTOR * voltage) / (Math.sqrt(3) * magnitude(z)) / 1000;
+};
+
+/**
+ * Computes the maximum prospective three-phase short-circuit current at every
+ * node, from the utility fault level, transformer %Z and the cable data on each
+ * link. Nodes whose supply cannot be modelled are left out of the result.
+ */
+export const calculateFaultLevels = (items: ElectricalNode[]): Record<string, NodeFaultLevel> => {
+  const results: Record<string, NodeFaultLevel> = {};
+
+  const record = (node: ElectricalNode, z: Impedance | null, voltage: number) => {
+    const ik = faultCurrentKa(z, voltage);
+    if (ik === null || !z) return;
+    results[node.id] = {
+      nodeId: node.id,
+      voltage,
+      impedance: round(magnitude(z) * 1000),
+      faultCurrentKa: round(ik),
+      breakingCapacity: node.breakingCapacity,
+      isUnderrated: (node.type === ComponentType.BREAKER || node.type === ComponentType.FUSE) && !!node.breakingCapacity && ik > node.breakingCapacity
+    };
+  };
+
+  // Impedance seen downstream of a transformer, referred to its secondary voltage.
+  const transformerOutput = (node: ElectricalNode, upstream: Impedance | null, primary: number, secondary: number) => {
+    if (!node.kva) return null;
+    const ratio = primary ? (secondary / primary) ** 2 : 1;
+    const referred = upstream ? { r: upstream.r * ratio, x: upstream.x * ratio } : ZERO;
+    return add(referred, ratedImpedance(secondary, node.kva, node.impedancePercent || DEFAULT_TRANSFORMER_IMPEDANCE, TRANSFORMER_X_R));
+  };
+
+  const visit = (node: ElectricalNode, upstreamVoltage: number, upstream: Impedance | null) => {
+    const supplyVoltage = getSupplyVoltage(node, upstreamVoltage);
+    const z = upstream ? add(upstream, cableImpedance(node)) : null;
+    record(node, z, supplyVoltage);
+
+    const outputVoltage = getOutputVoltage(node, upstreamVoltage);
+    const childZ = node.type === ComponentType.TRANSFORMER
+      ? transformerOutput(node, z, supplyVoltage, outputVoltage)
+      : z;
+    node.children.forEach(child => visit(child, outputVoltage, childZ));
+  };
+
+  items.forEach(root => {
+    const voltage = root.voltage || DEFAULT_SYSTEM_VOLTAGE;
+    // A transformer drawn as a root is fed from an infinite primary.
+    const z = root.type === ComponentType.TRANSFORMER
+      ? transformerOutput(root, null, voltage, voltage)
+      : rootImpedance(root, voltage);
+    record(root, z, voltage);
+    root.children.forEach(child => visit(child, voltage, z));
+  });
+
+  return results;
+};
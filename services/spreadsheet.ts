@@ -0,0 +1,441 @@
+import { ElectricalNode, ComponentType, Page, PhaseType, PhaseConductor } from "../types";
+import { translations } from "../translations";
+import { XlsxCell, XlsxSheet } from "./xlsx";
+import { CellValue } from "./documentExport";
+
+// Column keys double as keys into t.csvHeaders for the localized header row.
+const SHEET_COLUMNS = [
+  'id', 'parentId', 'name', 'type', 'componentNum', 'model', 'amps', 'voltage', 'kva',
+  'phaseType', 'phase', 'cableSize', 'description', 'hasMeter', 'meterNum', 'place', 'building', 'floor'
+] as const;
+
+type SheetColumn = typeof SHEET_COLUMNS[number];
+
+// The flat component list written by the CSV export, with parents referenced by name.
+const CSV_COLUMNS = [
+  'name', 'type', 'componentNum', 'model', 'amps', 'voltage', 'kva', 'parent',
+  'description', 'hasMeter', 'meterNum', 'place', 'building', 'floor'
+] as const;
+
+type ImportColumn = SheetColumn | typeof CSV_COLUMNS[number];
+
+export type SheetImportIssueKind =
+  'noHeader' | 'missingName' | 'unknownType' | 'duplicateId' | 'missingParent' | 'ambiguousParent' | 'cycle' |
+  'invalidValue' | 'missingConnection';
+
+export interface SheetImportIssue {
+  sheet: string;
+  row: number; // 1-based, as shown by the spreadsheet application
+  kind: SheetImportIssueKind;
+  value?: string;
+}
+
+export interface SheetImportResult {
+  pages: Page[];
+  issues: SheetImportIssue[];
+}
+
+const languages = Object.values(translations);
+
+const normalize = (value: XlsxCell) => (value === undefined || value === null ? '' : String(value)).trim().toLowerCase();
+
+const textValue = (value: XlsxCell) => (value === undefined || value === null ? '' : String(value).trim());
+
+const numberValue = (value: XlsxCell) => {
+  if (typeof value === 'number') return value;
+  const parsed = parseFloat(textValue(value).replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const booleanValue = (value: XlsxCell) => {
+  if (typeof value === 'boolean') return value;
+  const text = normalize(value);
+  return ['true', '1', 'x', ...languages.map(lang => lang.csvHeaders.yes.toLowerCase())].includes(text);
+};
+
+const TYPE_ALIASES = new Map<string, ComponentType>();
+Object.values(ComponentType).forEach(type => {
+  TYPE_ALIASES.set(type.toLowerCase(), type);
+  languages.forEach(lang => {
+    const label = (lang.componentTypes as Record<string, string>)[type];
+    if (label) TYPE_ALIASES.set(label.toLowerCase(), type);
+  });
+});
+
+export const parseComponentType = (value: XlsxCell) => TYPE_ALIASES.get(normalize(value));
+
+const parsePhaseType = (value: XlsxCell): PhaseType | undefined => {
+  const text = normalize(value);
+  if (['single', '1', '1p', '1ph', '1φ'].includes(text)) return 'single';
+  if (['three', '3', '3p', '3ph', '3φ'].includes(text)) return 'three';
+  return undefined;
+};
+
+const parsePhase = (value: XlsxCell): PhaseConductor | undefined => {
+  const text = textValue(value).toUpperCase();
+  return text === 'L1' || text === 'L2' || text === 'L3' ? text : undefined;
+};
+
+/** Maps each known column to its index, accepting the header text of any UI language or the raw key. */
+export const resolveHeaderColumns = <K extends string>(header: XlsxCell[], keys: readonly K[]) => {
+  const columns: Partial<Record<K, number>> = {};
+  header.forEach((cell, index) => {
+    const text = normalize(cell);
+    if (!text) return;
+    const key = keys.find(k =>
+      k.toLowerCase() === text ||
+      languages.some(lang => ((lang.csvHeaders as Record<string, string>)[k] || '').toLowerCase() === text)
+    );
+    if (key && columns[key] === undefined) columns[key] = index;
+  });
+  return columns;
+};
+
+/** One sheet per page; every node is a row that points at its parent by ID. */
+export const pagesToWorkbook = (pages: Page[], t: any): XlsxSheet[] =>
+  pages.map(page => {
+    const rows: XlsxCell[][] = [SHEET_COLUMNS.map(key => t.csvHeaders[key])];
+    const visit = (node: ElectricalNode, parentId: string) => {
+      const values: Record<SheetColumn, XlsxCell> = {
+        id: node.id,
+        parentId,
+        name: node.name,
+        type: t.componentTypes[node.type] || node.type,
+        componentNum: node.componentNumber,
+        model: node.model,
+        amps: node.amps,
+        voltage: node.voltage,
+        kva: node.kva,
+        phaseType: node.phaseType,
+        phase: node.phase,
+        cableSize: node.connectionStyle?.cableSize,
+        description: node.description,
+        hasMeter: !!node.hasMeter,
+        meterNum: node.meterNumber,
+        place: node.place,
+        building: node.building,
+        floor: node.floor
+      };
+      rows.push(SHEET_COLUMNS.map(key => values[key]));
+      node.children.forEach(child => visit(child, node.id));
+    };
+    page.items.forEach(root => visit(root, ''));
+    return { name: page.name, rows };
+  });
+
+interface ParsedRow {
+  row: number;
+  sheetId: string;
+  parentId: string;
+  parentName: string;
+  node: ElectricalNode;
+}
+
+const parseRows = (sheet: XlsxSheet, keys: readonly ImportColumn[], issues: SheetImportIssue[], createId: (prefix: string) => string) => {
+  const columns = resolveHeaderColumns<ImportColumn>(sheet.rows[0] || [], keys);
+  if (columns.name === undefined && columns.type === undefined) {
+    issues.push({ sheet: sheet.name, row: 1, kind: 'noHeader' });
+    return [];
+  }
+  const cell = (row: XlsxCell[], key: ImportColumn) => (columns[key] === undefined ? undefined : row[columns[key]!]);
+
+  const parsed: ParsedRow[] = [];
+  sheet.rows.slice(1).forEach((row, index) => {
+    if (!row.some(value => textValue(value) !== '')) return;
+    const rowNumber = index + 2;
+    const report = (kind: SheetImportIssueKind, value?: string) => issues.push({ sheet: sheet.name, row: rowNumber, kind, value });
+
+    let type = parseComponentType(cell(row, 'type'));
+    if (!type) {
+      report('unknownType', textValue(cell(row, 'type')));
+      type = ComponentType.LOAD;
+    }
+    let name = textValue(cell(row, 'name'));
+    if (!name) {
+      report('missingName');
+      name = textValue(cell(row, 'componentNum')) || type;
+    }
+    const cableSize = textValue(cell(row, 'cableSize'));
+
+    parsed.push({
+      row: rowNumber,
+      sheetId: textValue(cell(row, 'id')),
+      parentId: textValue(cell(row, 'parentId')),
+      parentName: textValue(cell(row, 'parent')),
+      node: {
+        id: createId(type),
+        name,
+        type,
+        componentNumber: textValue(cell(row, 'componentNum')) || undefined,
+        model: textValue(cell(row, 'model')) || undefined,
+        amps: numberValue(cell(row, 'amps')),
+        voltage: numberValue(cell(row, 'voltage')),
+        kva: numberValue(cell(row, 'kva')),
+        phaseType: parsePhaseType(cell(row, 'phaseType')),
+        phase: parsePhase(cell(row, 'phase')),
+        description: textValue(cell(row, 'description')) || undefined,
+        hasMeter: booleanValue(cell(row, 'hasMeter')),
+        meterNumber: textValue(cell(row, 'meterNum')) || undefined,
+        place: textValue(cell(row, 'place')) || undefined,
+        building: textValue(cell(row, 'building')) || undefined,
+        floor: textValue(cell(row, 'floor')) || undefined,
+        connectionStyle: cableSize ? { cableSize } : undefined,
+        children: []
+      }
+    });
+  });
+  return parsed;
+};
+
+const buildTree = (sheetName: string, rows: ParsedRow[], issues: SheetImportIssue[]) => {
+  const byId = new Map<string, ParsedRow>();
+  rows.forEach(row => {
+    if (!row.sheetId) return;
+    if (byId.has(row.sheetId)) issues.push({ sheet: sheetName, row: row.row, kind: 'duplicateId', value: row.sheetId });
+    else byId.set(row.sheetId, row);
+  });
+
+  const parentOf = new Map<ParsedRow, ParsedRow>();
+  rows.forEach(row => {
+    if (!row.parentId) return;
+    const parent = byId.get(row.parentId);
+    if (!parent) issues.push({ sheet: sheetName, row: row.row, kind: 'missingParent', value: row.parentId });
+    else parentOf.set(row, parent);
+  });
+
+  // Rows that never reach a root sit on a parent loop; cut each loop at its first row.
+  const childrenOf = new Map<ParsedRow, ParsedRow[]>();
+  parentOf.forEach((parent, row) => childrenOf.set(parent, [...(childrenOf.get(parent) || []), row]));
+  const reached = new Set<ParsedRow>();
+  const mark = (row: ParsedRow) => {
+    reached.add(row);
+    (childrenOf.get(row) || []).forEach(child => !reached.has(child) && mark(child));
+  };
+  rows.filter(row => !parentOf.has(row)).forEach(mark);
+  rows.forEach(row => {
+    if (reached.has(row)) return;
+    issues.push({ sheet: sheetName, row: row.row, kind: 'cycle', value: row.parentId });
+    parentOf.delete(row);
+    mark(row);
+  });
+
+  rows.forEach(row => {
+    const parent = parentOf.get(row);
+    if (parent) parent.node.children.push(row.node);
+  });
+  return rows.filter(row => !parentOf.has(row)).map(row => row.node);
+};
+
+/**
+ * Rebuilds one page per worksheet from rows linked by ID / parent ID. Node IDs
+ * are regenerated; the sheet IDs only describe the structure. Problems are
+ * collected rather than thrown so a mostly-good sheet still imports.
+ */
+export const workbookToPages = (sheets: XlsxSheet[], createId: (prefix: string) => string): SheetImportResult => {
+  const issues: SheetImportIssue[] = [];
+  const pages = sheets
+    .map(sheet => ({ sheet, rows: parseRows(sheet, SHEET_COLUMNS, issues, createId) }))
+    .filter(({ rows }) => rows.length > 0)
+    .map(({ sheet, rows }) => ({ id: createId('page'), name: sheet.name, items: buildTree(sheet.name, rows, issues) }));
+  const sheetOrder = sheets.map(sheet => sheet.name);
+  issues.sort((a, b) => sheetOrder.indexOf(a.sheet) - sheetOrder.indexOf(b.sheet) || a.row - b.row);
+  return { pages, issues };
+};
+
+const NO_PARENT = new Set(['', ...languages.map(lang => lang.csvHeaders.na.toLowerCase())]);
+
+/**
+ * Rebuilds a page from the CSV component list, where parents are referenced
+ * by name. When several rows share the parent's name the closest row above
+ * wins (the export writes parents before their children) and the row is
+ * flagged so the user can check it in the preview.
+ */
+export const csvToPage = (rows: string[][], pageName: string, createId: (prefix: string) => string) => {
+  const issues: SheetImportIssue[] = [];
+  const parsed = parseRows({ name: pageName, rows }, CSV_COLUMNS, issues, createId);
+
+  parsed.forEach((row, index) => {
+    row.sheetId = String(row.row);
+    if (NO_PARENT.has(row.parentName.toLowerCase())) return;
+    const candidates = parsed.filter(other => other !== row && other.node.name.toLowerCase() === row.parentName.toLowerCase());
+    if (candidates.length === 0) {
+      issues.push({ sheet: pageName, row: row.row, kind: 'missingParent', value: row.parentName });
+      return;
+    }
+    if (candidates.length > 1) issues.push({ sheet: pageName, row: row.row, kind: 'ambiguousParent', value: row.parentName });
+    const above = candidates.filter(other => parsed.indexOf(other) < index);
+    row.parentId = String((above.length > 0 ? above[above.length - 1] : candidates[0]).row);
+  });
+
+  const page: Page = { id: createId('page'), name: pageName, items: buildTree(pageName, parsed, issues) };
+  issues.sort((a, b) => a.row - b.row);
+  return { page, issues };
+};
+
+type NodeTableField = Exclude<keyof ElectricalNode, 'id' | 'children' | 'calculatedLoad'>;
+
+// Every persisted node field, keyed by its property name so the header is the same in every language.
+const NODE_TABLE_FIELDS: { key: NodeTableField; kind: 'text' | 'number' | 'boolean' | 'json' | 'ids' }[] = [
+  { key: 'name', kind: 'text' },
+  { key: 'type', kind: 'text' },
+  { key: 'componentNumber', kind: 'text' },
+  { key: 'model', kind: 'text' },
+  { key: 'amps', kind: 'number' },
+  { key: 'voltage', kind: 'number' },
+  { key: 'kva', kind: 'number' },
+  { key: 'phaseType', kind: 'text' },
+  { key: 'phase', kind: 'text' },
+  { key: 'impedancePercent', kind: 'number' },
+  { key: 'faultLevel', kind: 'number' },
+  { key: 'breakingCapacity', kind: 'number' },
+  { key: 'tripSettings', kind: 'json' },
+  { key: 'description', kind: 'text' },
+  { key: 'place', kind: 'text' },
+  { key: 'building', kind: 'text' },
+  { key: 'floor', kind: 'text' },
+  { key: 'hasMeter', kind: 'boolean' },
+  { key: 'meterNumber', kind: 'text' },
+  { key: 'isExcludedFromMeter', kind: 'boolean' },
+  { key: 'hasGeneratorConnection', kind: 'boolean' },
+  { key: 'generatorName', kind: 'text' },
+  { key: 'isAirConditioning', kind: 'boolean' },
+  { key: 'isReserved', kind: 'boolean' },
+  { key: 'extraConnections', kind: 'ids' },
+  { key: 'extraConnectionRoutes', kind: 'json' },
+  { key: 'offPageTarget', kind: 'text' },
+  { key: 'busbar', kind: 'boolean' },
+  { key: 'connectionStyle', kind: 'json' },
+  { key: 'customColor', kind: 'text' },
+  { key: 'customBgColor', kind: 'text' },
+  { key: 'shape', kind: 'text' },
+  { key: 'customImage', kind: 'text' },
+  { key: 'manualX', kind: 'number' },
+  { key: 'manualY', kind: 'number' },
+  { key: 'isCollapsed', kind: 'boolean' }
+];
+
+const NODE_TABLE_HEADERS = ['id', 'parentId', ...NODE_TABLE_FIELDS.map(field => field.key)];
+
+const ID_SEPARATOR = ';';
+
+/** True when the header row is the ID-keyed node table rather than the localized component list. */
+export const isNodeTable = (header: string[] = []) => header[0]?.trim() === 'id' && header.some(cell => cell.trim() === 'parentId');
+
+/** Lossless tabular form of a page: one row per node, linked by ID and parent ID. */
+export const pageToNodeTable = (page: Page) => {
+  const rows: CellValue[][] = [];
+  const visit = (node: ElectricalNode, parentId: string) => {
+    rows.push([node.id, parentId, ...NODE_TABLE_FIELDS.map(({ key, kind }) => {
+      const value = node[key];
+      if (value === undefined || value === null) return '';
+      if (kind === 'json') return JSON.stringify(value);
+      if (kind === 'ids') return (value as string[]).join(ID_SEPARATOR);
+      return String(value);
+    })]);
+    node.children.forEach(child => visit(child, node.id));
+  };
+  page.items.forEach(root => visit(root, ''));
+  return { headers: NODE_TABLE_HEADERS, rows };
+};
+
+/**
+ * Reads a node table back into a page, keeping the IDs from the file so it
+ * can replace the page it was exported from. Use `reassignNodeIds` before
+ * adding it alongside the original.
+ */
+export const nodeTableToPage = (rows: string[][], pageName: string, createId: (prefix: string) => string) => {
+  const issues: SheetImportIssue[] = [];
+  const header = rows[0] || [];
+  const column = (key: string) => header.findIndex(cell => cell.trim() === key);
+  const idColumn = column('id');
+  const parentColumn = column('parentId');
+  const fieldColumns = NODE_TABLE_FIELDS.map(field => ({ ...field, index: column(field.key) })).filter(field => field.index >= 0);
+
+  const parsed: ParsedRow[] = [];
+  const usedIds = new Set<string>();
+  rows.slice(1).forEach((row, index) => {
+    if (!row.some(value => value.trim() !== '')) return;
+    const rowNumber = index + 2;
+    const report = (kind: SheetImportIssueKind, value?: string) => issues.push({ sheet: pageName, row: rowNumber, kind, value });
+
+    const node: Record<string, unknown> = { children: [] };
+    fieldColumns.forEach(({ key, kind, index: col }) => {
+      const text = (row[col] || '').trim();
+      if (!text) return;
+      if (kind === 'number') {
+        const value = numberValue(text);
+        if (value === undefined) report('invalidValue', `${key}: ${text}`);
+        else node[key] = value;
+      } else if (kind === 'boolean') {
+        node[key] = booleanValue(text);
+      } else if (kind === 'json') {
+        try {
+          node[key] = JSON.parse(text);
+        } catch {
+          report('invalidValue', `${key}: ${text}`);
+        }
+      } else if (kind === 'ids') {
+        node[key] = text.split(ID_SEPARATOR).map(id => id.trim()).filter(Boolean);
+      } else {
+        node[key] = row[col];
+      }
+    });
+
+    const type = parseComponentType(node.type as string);
+    if (!type) report('unknownType', (node.type as string) || '');
+    node.type = type || ComponentType.LOAD;
+    if (!node.name) {
+      report('missingName');
+      node.name = (node.componentNumber as string) || node.type;
+    }
+
+    const sheetId = (row[idColumn] || '').trim();
+    const id = sheetId && !usedIds.has(sheetId) ? sheetId : createId(node.type as string);
+    usedIds.add(id);
+    parsed.push({
+      row: rowNumber,
+      sheetId,
+      parentId: parentColumn >= 0 ? (row[parentColumn] || '').trim() : '',
+      parentName: '',
+      node: { ...node, id } as unknown as ElectricalNode
+    });
+  });
+
+  const items = buildTree(pageName, parsed, issues);
+  parsed.forEach(({ row, node }) => {
+    if (!node.extraConnections) return;
+    const missing = node.extraConnections.filter(id => !usedIds.has(id));
+    missing.forEach(id => issues.push({ sheet: pageName, row, kind: 'missingConnection', value: id }));
+    node.extraConnections = node.extraConnections.filter(id => usedIds.has(id));
+  });
+
+  issues.sort((a, b) => a.row - b.row);
+  return { page: { id: createId('page'), name: pageName, items } as Page, issues };
+};
+
+/** Gives every node a fresh ID, keeping extra connections and their routes pointed at the same nodes. */
+export const reassignNodeIds = (items: ElectricalNode[], createId: (prefix: string) => string) => {
+  const ids = new Map<string, string>();
+  const collect = (node: ElectricalNode) => {
+    ids.set(node.id, createId(node.type));
+    node.children.forEach(collect);
+  };
+  items.forEach(collect);
+  const remap = (node: ElectricalNode): ElectricalNode => ({
+    ...node,
+    id: ids.get(node.id)!,
+    extraConnections: node.extraConnections?.map(id => ids.get(id) || id),
+    extraConnectionRoutes: node.extraConnectionRoutes &&
+      Object.fromEntries(Object.entries(node.extraConnectionRoutes).map(([id, route]) => [ids.get(id) || id, route])),
+    children: node.children.map(remap)
+  });
+  return items.map(remap);
+};
+
+export const formatImportIssues = (issues: SheetImportIssue[], t: any, limit = 20) => {
+  const lines = issues.slice(0, limit).map(issue =>
+    `${issue.sheet} #${issue.row}: ${t.spreadsheetImport.issues[issue.kind]}${issue.value ? ` (${issue.value})` : ''}`
+  );
+  if (issues.length > limit) lines.push(t.spreadsheetImport.moreIssues.replace('{count}', String(issues.length - limit)));
+  return lines.join('\n');
+};
@@ -0,0 +1,246 @@
+import { ElectricalNode, Project } from "../types";
+import { upgradeProject, withSchemaVersion } from "./projectSchema";
+import { EditHistory, mapHistoryItems } from "./history";
+
+// Browser persistence for projects. Each project is its own IndexedDB record so
+// a save only rewrites what changed, and custom icons live in a separate store
+// as binary blobs, referenced from the nodes by content hash.
+
+const DB_NAME = 'voltgraph';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const IMAGES_STORE = 'images';
+const META_STORE = 'meta';
+const ORDER_KEY = 'projectOrder';
+const HISTORY_KEY = 'editHistory';
+const IMAGE_REF_PREFIX = 'idb-image:';
+
+export const LEGACY_STORAGE_KEY = 'voltgraph_data';
+
+export type StorageFailure = 'quota' | 'unavailable' | 'unknown';
+
+export const classifyStorageError = (error: unknown): StorageFailure => {
+  const name = (error as { name?: string })?.name;
+  if (name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED') return 'quota';
+  if (name === 'InvalidStateError' || name === 'SecurityError' || name === 'UnknownError') return 'unavailable';
+  return 'unknown';
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Serialized form of each project as last written, so unchanged projects are skipped.
+const savedRecords = new Map<string, string>();
+const savedImages = new Set<string>();
+let savedOrder = '';
+let savedHistory = '';
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(Object.assign(new Error('IndexedDB is not available'), { name: 'InvalidStateError' }));
+        return;
+      }
+      const open = indexedDB.open(DB_NAME, DB_VERSION);
+      open.onupgradeneeded = () => {
+        const db = open.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) db.createObjectStore(IMAGES_STORE);
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error);
+      open.onblocked = () => reject(Object.assign(new Error('Database upgrade blocked by another tab'), { name: 'InvalidStateError' }));
+    });
+    // Let a later call try again, e.g. after the user closed the other tab.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// cyrb53: fast 53-bit string hash, plenty to tell icons apart.
+const hashString = (value: string) => {
+  let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const dataUrlToBlob = (dataUrl: string) => {
+  const [header, data] = dataUrl.split(',', 2);
+  const mime = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+  if (!header.includes(';base64')) return new Blob([decodeURIComponent(data)], { type: mime });
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+};
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const mapNodes = (items: ElectricalNode[], fn: (node: ElectricalNode) => ElectricalNode): ElectricalNode[] =>
+  items.map(node => ({ ...fn(node), children: mapNodes(node.children, fn) }));
+
+const mapProjectNodes = (project: Project, fn: (node: ElectricalNode) => ElectricalNode): Project => ({
+  ...project,
+  pages: project.pages.map(page => ({ ...page, items: mapNodes(page.items, fn) })),
+  ...(project.revisions ? {
+    revisions: project.revisions.map(revision => ({
+      ...revision,
+      pages: revision.pages.map(page => ({ ...page, items: mapNodes(page.items, fn) }))
+    }))
+  } : {})
+});
+
+/** Swaps inline data URLs for references into the image store. */
+const toImageRef = (images: Map<string, string>) => (node: ElectricalNode) => {
+  if (!node.customImage?.startsWith('data:')) return node;
+  const key = hashString(node.customImage);
+  images.set(key, node.customImage);
+  return { ...node, customImage: IMAGE_REF_PREFIX + key };
+};
+
+const fromImageRef = (images: Map<string, string>) => (node: ElectricalNode) => {
+  if (!node.customImage?.startsWith(IMAGE_REF_PREFIX)) return node;
+  return { ...node, customImage: images.get(node.customImage.slice(IMAGE_REF_PREFIX.length)) };
+};
+
+const collectImageRef = (refs: Set<string>) => (node: ElectricalNode) => {
+  if (node.customImage?.startsWith(IMAGE_REF_PREFIX)) refs.add(node.customImage.slice(IMAGE_REF_PREFIX.length));
+  return node;
+};
+
+/** Projects saved by older versions in a single localStorage key, if any. */
+export const loadLegacyProjects = (): Project[] | null => {
+  try {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    return saved ? (JSON.parse(saved) as any[]).map(upgradeProject) : null;
+  } catch (e: any) {
+    console.error("Failed to load data from local storage", e);
+    return null;
+  }
+};
+
+/**
+ * Reads all projects in their saved order, plus the undo history, with icons
+ * restored to data URLs. Resolves to null when nothing has been stored in
+ * IndexedDB yet.
+ */
+export const loadWorkspace = async (): Promise<{ projects: Project[]; history: EditHistory | null } | null> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS_STORE, IMAGES_STORE, META_STORE], 'readonly');
+  const [records, order, storedHistory, imageKeys] = await Promise.all([
+    request(tx.objectStore(PROJECTS_STORE).getAll() as IDBRequest<Project[]>),
+    request(tx.objectStore(META_STORE).get(ORDER_KEY) as IDBRequest<string[] | undefined>),
+    request(tx.objectStore(META_STORE).get(HISTORY_KEY) as IDBRequest<EditHistory | undefined>),
+    request(tx.objectStore(IMAGES_STORE).getAllKeys())
+  ]);
+  if (records.length === 0) return null;
+
+  const refs = new Set<string>();
+  records.forEach(record => mapProjectNodes(record, collectImageRef(refs)));
+  if (storedHistory) mapHistoryItems(storedHistory, items => mapNodes(items, collectImageRef(refs)));
+  const images = new Map<string, string>();
+  await Promise.all(Array.from(refs).map(async key => {
+    const blob = await request(db.transaction(IMAGES_STORE, 'readonly').objectStore(IMAGES_STORE).get(key) as IDBRequest<Blob | undefined>);
+    if (blob) images.set(key, await blobToDataUrl(blob));
+  }));
+
+  savedRecords.clear();
+  records.forEach(record => savedRecords.set(record.id, JSON.stringify(record)));
+  savedImages.clear();
+  imageKeys.forEach(key => savedImages.add(String(key)));
+  savedOrder = JSON.stringify(order || []);
+  savedHistory = storedHistory ? JSON.stringify(storedHistory) : '';
+
+  const position = (id: string) => {
+    const index = (order || []).indexOf(id);
+    return index < 0 ? Number.MAX_SAFE_INTEGER : index;
+  };
+  return {
+    projects: records
+      .sort((a, b) => position(a.id) - position(b.id))
+      .map(record => mapProjectNodes(upgradeProject(record), fromImageRef(images))),
+    history: storedHistory ? mapHistoryItems(storedHistory, items => mapNodes(items, fromImageRef(images))) : null
+  };
+};
+
+/**
+ * Writes the projects that changed since the last save, new icons, the
+ * project order and the undo history in one transaction; removes deleted
+ * projects and icons nothing refers to anymore. Rejects with the underlying
+ * DOMException on failure (see `classifyStorageError`).
+ */
+export const saveWorkspace = async (projects: Project[], history: EditHistory) => {
+  const db = await openDb();
+  const images = new Map<string, string>();
+  const records = projects.map(project => mapProjectNodes(withSchemaVersion(project), toImageRef(images)));
+  const historyJson = JSON.stringify(mapHistoryItems(history, items => mapNodes(items, toImageRef(images))));
+
+  const tx = db.transaction([PROJECTS_STORE, IMAGES_STORE, META_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  const projectStore = tx.objectStore(PROJECTS_STORE);
+  const imageStore = tx.objectStore(IMAGES_STORE);
+  const metaStore = tx.objectStore(META_STORE);
+
+  const written = new Map<string, string>();
+  records.forEach(record => {
+    const json = JSON.stringify(record);
+    written.set(record.id, json);
+    if (savedRecords.get(record.id) !== json) projectStore.put(record);
+  });
+  savedRecords.forEach((_, id) => {
+    if (!written.has(id)) projectStore.delete(id);
+  });
+
+  images.forEach((dataUrl, key) => {
+    if (!savedImages.has(key)) imageStore.put(dataUrlToBlob(dataUrl), key);
+  });
+  savedImages.forEach(key => {
+    if (!images.has(key)) imageStore.delete(key);
+  });
+
+  const order = JSON.stringify(projects.map(p => p.id));
+  if (order !== savedOrder) metaStore.put(projects.map(p => p.id), ORDER_KEY);
+  if (historyJson !== savedHistory) metaStore.put(JSON.parse(historyJson), HISTORY_KEY);
+
+  await done;
+  savedRecords.clear();
+  written.forEach((json, id) => savedRecords.set(id, json));
+  savedImages.clear();
+  images.forEach((_, key) => savedImages.add(key));
+  savedOrder = order;
+  savedHistory = historyJson;
+};
+
+export const clearLegacyProjects = () => {
+  try {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  } catch {
+    // Nothing to clean up if localStorage itself is unavailable.
+  }
+};
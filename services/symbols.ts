@@ -0,0 +1,115 @@
+import { ComponentType, SymbolLibrary } from "../types";
+
+// Single-line diagram symbols after IEC 60617 and ANSI/IEEE Y32.2. Each one is
+// drawn in a SYMBOL_SIZE box centered on the origin, with power flowing from
+// the left edge to the right edge; the renderer turns it for top-down trees.
+// Text inside a symbol is kept upright, so it is listed apart from the strokes.
+
+export const SYMBOL_SIZE = 60;
+
+export interface SymbolText {
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+}
+
+export interface SymbolDefinition {
+  path: string; // stroked, not filled
+  circles?: [number, number, number][]; // stroked circles: cx, cy, r
+  dots?: [number, number, number][]; // filled circles: cx, cy, r
+  texts?: SymbolText[];
+}
+
+// Lead-in and lead-out lines from the box edge to a symbol body of half-width `w`.
+const leads = (w: number) => `M-30,0 H${-w} M${w},0 H30`;
+
+// IEC 60617, also the base the ANSI library falls back to
+const IEC: Record<ComponentType, SymbolDefinition> = {
+  // External network feed: hatched square
+  [ComponentType.SYSTEM_ROOT]: {
+    path: `M16,0 H30 M-16,-16 H16 V16 H-16 Z M-16,0 L0,-16 M-16,16 L16,-16 M0,16 L16,0`
+  },
+  [ComponentType.TRANSFORMER]: {
+    path: leads(22),
+    circles: [[-8, 0, 14], [8, 0, 14]]
+  },
+  [ComponentType.METER]: {
+    path: leads(16),
+    circles: [[0, 0, 16]],
+    texts: [{ x: 0, y: 0, text: 'Wh', size: 10 }]
+  },
+  // Board: enclosure with the bus running through it
+  [ComponentType.DISTRIBUTION_BOARD]: {
+    path: `${leads(22)} M-22,-14 H22 V14 H-22 Z M-14,0 H14 M-8,0 V8 M0,0 V8 M8,0 V8`
+  },
+  [ComponentType.BREAKER]: {
+    path: `${leads(14)} M-14,-14 H14 V14 H-14 Z M-14,-14 L14,14 M14,-14 L-14,14`
+  },
+  // Disconnector: open blade with the bar of the fixed contact
+  [ComponentType.SWITCH]: {
+    path: `M-30,0 H-12 L10,-14 M12,-7 V7 M12,0 H30`
+  },
+  [ComponentType.FUSE]: {
+    path: `M-30,0 H30 M-16,-7 H16 V7 H-16 Z`
+  },
+  // General load: arrowhead in the direction of flow
+  [ComponentType.LOAD]: {
+    path: `M-30,0 H-10 M-10,-12 L14,0 L-10,12 Z`
+  },
+  [ComponentType.GENERATOR]: {
+    path: leads(18),
+    circles: [[0, 0, 18]],
+    texts: [{ x: 0, y: -3, text: 'G', size: 14 }, { x: 0, y: 10, text: '~', size: 12 }]
+  },
+  // Converter block: AC in, DC out
+  [ComponentType.UPS]: {
+    path: `${leads(18)} M-18,-18 H18 V18 H-18 Z M-18,18 L18,-18`,
+    texts: [{ x: -8, y: -7, text: '~', size: 11 }, { x: 8, y: 8, text: '=', size: 11 }]
+  },
+  [ComponentType.OFF_PAGE_CONNECTOR]: {
+    path: `M-30,0 H-18 M-18,-12 H8 L18,0 L8,12 H-18 Z`
+  }
+};
+
+// ANSI Y32.2, where it is drawn differently
+const ANSI: Partial<Record<ComponentType, SymbolDefinition>> = {
+  // Two windings either side of the core
+  [ComponentType.TRANSFORMER]: {
+    path: 'M-30,0 H-14 M-14,-15 a5,5 0 0 1 0,10 a5,5 0 0 1 0,10 a5,5 0 0 1 0,10 ' +
+      'M14,-15 a5,5 0 0 0 0,10 a5,5 0 0 0 0,10 a5,5 0 0 0 0,10 M14,0 H30 M-3,-15 V15 M3,-15 V15'
+  },
+  [ComponentType.METER]: {
+    path: leads(16),
+    circles: [[0, 0, 16]],
+    texts: [{ x: 0, y: 0, text: 'WHM', size: 8 }]
+  },
+  // Low-voltage breaker: contacts under an arc
+  [ComponentType.BREAKER]: {
+    path: `${leads(12)} M-12,0 A12,12 0 0 1 12,0`,
+    dots: [[-12, 0, 2.5], [12, 0, 2.5]]
+  },
+  // Disconnect switch: blade between open contacts
+  [ComponentType.SWITCH]: {
+    path: `M-30,0 H-15 M-9,-2 L10,-14 M15,0 H30`,
+    circles: [[-12, 0, 3], [12, 0, 3]]
+  },
+  [ComponentType.FUSE]: {
+    path: 'M-30,0 H-16 C-12,-12 -4,-12 0,0 S12,12 16,0 H30'
+  },
+  [ComponentType.GENERATOR]: {
+    path: leads(18),
+    circles: [[0, 0, 18]],
+    texts: [{ x: 0, y: 0, text: 'G', size: 14 }]
+  },
+  [ComponentType.UPS]: {
+    path: `${leads(20)} M-20,-14 H20 V14 H-20 Z`,
+    texts: [{ x: 0, y: 0, text: 'UPS', size: 10 }]
+  }
+};
+
+/** The symbol for a component type, or undefined when nodes are drawn as cards. */
+export const getSymbol = (library: SymbolLibrary, type: ComponentType): SymbolDefinition | undefined => {
+  if (library === 'cards') return undefined;
+  return (library === 'ansi' && ANSI[type]) || IEC[type];
+};
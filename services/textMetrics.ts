@@ -0,0 +1,38 @@
+// Width of diagram text without touching the DOM. Measuring with an SVG text
+// element forces a layout per call; a 2D canvas context does not, and the
+// results are cached because the same labels are measured on every render.
+
+const cache = new Map<string, number>();
+let context: CanvasRenderingContext2D | null | undefined;
+let fontFamily = 'sans-serif';
+
+const getContext = () => {
+  if (context === undefined) {
+    context = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+    if (typeof document !== 'undefined' && document.body) {
+      fontFamily = getComputedStyle(document.body).fontFamily || fontFamily;
+    }
+  }
+  return context;
+};
+
+/** `font` is the size and weight part of a CSS font, e.g. 'bold 9px'. */
+export const measureText = (text: string, font: string) => {
+  if (!text) return 0;
+  const key = `${font}|${text}`;
+  const cached = cache.get(key);
+  if (cached !== undefined) return cached;
+
+  const ctx = getContext();
+  let width: number;
+  if (ctx) {
+    ctx.font = `${font} ${fontFamily}`;
+    width = ctx.measureText(text).width;
+  } else {
+    // No canvas (e.g. tests): estimate from the font size.
+    const size = parseFloat(font.match(/(\d+(\.\d+)?)px/)?.[1] || '10');
+    width = text.length * size * 0.6;
+  }
+  cache.set(key, width);
+  return width;
+};
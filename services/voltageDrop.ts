@@ -0,0 +1,128 @@
+import { ElectricalNode, ComponentType, CableData } from "../types";
+import { DEFAULT_SYSTEM_VOLTAGE, CONDUCTOR_RESISTIVITY, CABLE_REACTANCE, DEFAULT_POWER_FACTOR } from "../constants";
+import { getSupplyVoltage, getOutputVoltage, isThreePhaseNode, phaseVoltage } from "./loadCalculator";
+
+export interface LinkVoltageDrop {
+  nodeId: string;
+  current: number;
+  voltage: number;
+  threePhase: boolean;
+  volts: number;
+  percent: number;
+  cumulativePercent: number;
+  exceedsLimit: boolean;
+}
+
+export interface LoadPathDrop {
+  load: ElectricalNode;
+  source: ElectricalNode;
+  length: number;
+  current: number;
+  cumulativePercent: number;
+  exceedsLimit: boolean;
+  missingCableData: boolean;
+}
+
+export interface VoltageDropReport {
+  limit: number;
+  links: Record<string, LinkVoltageDrop>;
+  paths: LoadPathDrop[];
+}
+
+interface PathState {
+  source: ElectricalNode;
+  cumulativePercent: number;
+  length: number;
+  missingCableData: boolean;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const hasCableData = (cable?: CableData): cable is CableData & { crossSection: number; length: number } =>
+  !!cable && !!cable.crossSection && !!cable.length;
+
+export const formatCableLabel = (cable?: CableData) => {
+  if (!cable?.crossSection) return '';
+  const size = cable.cores ? `${cable.cores}x${cable.crossSection}mm²` : `${cable.crossSection}mm²`;
+  const material = cable.material === 'aluminium' ? ' Al' : '';
+  return cable.length ? `${size}${material} ${cable.length}m` : `${size}${material}`;
+};
+
+/**
+ * Voltage drop of one cable run. Three-phase: √3·I·L·(R·cosφ + X·sinφ) against
+ * the line voltage; single-phase: 2·I·L·(R·cosφ + X·sinφ) against the phase voltage.
+ */
+export const cableVoltageDrop = (cable: CableData, current: number, voltage: number, threePhase: boolean) => {
+  if (!hasCableData(cable) || !voltage) return { volts: 0, percent: 0 };
+  const resistance = CONDUCTOR_RESISTIVITY[cable.material || 'copper'] / cable.crossSection;
+  const sinPhi = Math.sqrt(1 - DEFAULT_POWER_FACTOR ** 2);
+  const impedance = resistance * DEFAULT_POWER_FACTOR + CABLE_REACTANCE * sinPhi;
+  const volts = (threePhase ? Math.sqrt(3) : 2) * current * cable.length * impedance;
+  const reference = threePhase ? voltage : phaseVoltage(voltage);
+  return { volts: round(volts), percent: round((volts / reference) * 100) };
+};
+
+/**
+ * Walks every tree from its source (SYSTEM_ROOT, GENERATOR or TRANSFORMER
+ * secondary) down to each LOAD and accumulates the drop over the cable of
+ * every link on the way. Expects items that already carry `calculatedLoad`.
+ */
+export const calculateVoltageDrop = (items: ElectricalNode[], limit: number): VoltageDropReport => {
+  const links: Record<string, LinkVoltageDrop> = {};
+  const paths: LoadPathDrop[] = [];
+
+  const visit = (node: ElectricalNode, upstreamVoltage: number, state: PathState) => {
+    const supplyVoltage = getSupplyVoltage(node, upstreamVoltage);
+    const cable = node.connectionStyle?.cable;
+    const current = node.calculatedLoad?.amps || 0;
+    let next = state;
+
+    if (hasCableData(cable)) {
+      const threePhase = isThreePhaseNode(node, supplyVoltage);
+      const { volts, percent } = cableVoltageDrop(cable, current, supplyVoltage, threePhase);
+      const cumulativePercent = round(state.cumulativePercent + percent);
+      links[node.id] = {
+        nodeId: node.id,
+        current,
+        voltage: supplyVoltage,
+        threePhase,
+        volts,
+        percent,
+        cumulativePercent,
+        exceedsLimit: cumulativePercent > limit
+      };
+      next = { ...state, cumulativePercent, length: state.length + cable.length };
+    } else if (current > 0) {
+      // Without load current the drop is zero whatever the cable, so only a
+      // link that carries current leaves the result incomplete.
+      next = { ...state, missingCableData: true };
+    }
+
+    if (node.type === ComponentType.LOAD && !node.isReserved) {
+      paths.push({
+        load: node,
+        source: next.source,
+        length: next.length,
+        current,
+        cumulativePercent: next.cumulativePercent,
+        exceedsLimit: next.cumulativePercent > limit,
+        missingCableData: next.missingCableData
+      });
+    }
+
+    const outputVoltage = getOutputVoltage(node, upstreamVoltage);
+    // A transformer is a new source: drops below it are measured from its secondary.
+    const childState = node.type === ComponentType.TRANSFORMER
+      ? { source: node, cumulativePercent: 0, length: 0, missingCableData: false }
+      : next;
+    node.children.forEach(child => visit(child, outputVoltage, childState));
+  };
+
+  items.forEach(root => {
+    const voltage = root.voltage || DEFAULT_SYSTEM_VOLTAGE;
+    const state: PathState = { source: root, cumulativePercent: 0, length: 0, missingCableData: false };
+    root.children.forEach(child => visit(child, voltage, state));
+  });
+
+  return { limit, links, paths };
+};
@@ -0,0 +1,159 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from "fflate";
+import { downloadBlob } from "./documentExport";
+
+export type XlsxCell = string | number | boolean | undefined | null;
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxCell[][]; // first row is treated as the header
+}
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const MAX_SHEET_NAME = 31;
+
+// XML 1.0 does not allow most control characters, even escaped.
+const escapeXml = (value: string) =>
+  value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnLetter = (index: number) => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+const columnIndex = (ref: string) => {
+  const letters = ref.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+/** Excel rejects names longer than 31 characters, containing []:*?/\ or repeated (case-insensitively). */
+export const toSheetNames = (names: string[]) => {
+  const used = new Set<string>();
+  return names.map((name, i) => {
+    const base = (name.replace(/[\[\]:*?/\\]/g, '_').trim() || `Sheet${i + 1}`).slice(0, MAX_SHEET_NAME);
+    let candidate = base;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      candidate = base.slice(0, MAX_SHEET_NAME - suffix.length) + suffix;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
+
+const renderCell = (value: XlsxCell, ref: string, isHeader: boolean) => {
+  if (value === undefined || value === null || value === '') return '';
+  const style = isHeader ? ' s="1"' : '';
+  if (typeof value === 'number') return Number.isFinite(value) ? `<c r="${ref}"${style}><v>${value}</v></c>` : '';
+  if (typeof value === 'boolean') return `<c r="${ref}"${style} t="b"><v>${value ? 1 : 0}</v></c>`;
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const renderSheet = (sheet: XlsxSheet) => {
+  const rows = sheet.rows.map((row, r) =>
+    `<row r="${r + 1}">${row.map((value, c) => renderCell(value, `${columnLetter(c)}${r + 1}`, r === 0)).join('')}</row>`
+  ).join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${rows}</sheetData></worksheet>`;
+};
+
+/** Builds a minimal Office Open XML workbook with one worksheet per entry. */
+export const writeXlsx = (sheets: XlsxSheet[]): Uint8Array => {
+  const names = toSheetNames(sheets.map(s => s.name));
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${
+      sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+    }</Types>`),
+    '_rels/.rels': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`),
+    'xl/workbook.xml': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${
+      names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+    }</sheets></workbook>`),
+    'xl/_rels/workbook.xml.rels': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${
+      sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+    }<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`),
+    'xl/styles.xml': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`)
+  };
+  sheets.forEach((sheet, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(renderSheet(sheet));
+  });
+  return zipSync(files);
+};
+
+export const downloadXlsx = (data: Uint8Array, fileName: string) =>
+  downloadBlob(new Blob([data], { type: XLSX_MIME }), fileName);
+
+const parseXml = (files: Record<string, Uint8Array>, path: string) => {
+  const file = files[path];
+  return file ? new DOMParser().parseFromString(strFromU8(file), 'application/xml') : null;
+};
+
+const elements = (parent: Document | Element, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+// Text of a string item, skipping phonetic runs (<rPh>) which are not part of the value.
+const stringItemText = (item: Element) =>
+  elements(item, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+
+const resolvePath = (target: string) =>
+  target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+
+/**
+ * Reads every worksheet of an .xlsx file into rows of plain values. Handles
+ * shared strings, inline strings, numbers and booleans; formulas yield their
+ * cached value. Throws if the file is not a readable workbook.
+ */
+export const readXlsx = (data: Uint8Array): XlsxSheet[] => {
+  const files = unzipSync(data);
+  const workbook = parseXml(files, 'xl/workbook.xml');
+  if (!workbook) throw new Error('Missing xl/workbook.xml');
+
+  const targets = new Map<string, string>();
+  const rels = parseXml(files, 'xl/_rels/workbook.xml.rels');
+  if (rels) elements(rels, 'Relationship').forEach(rel => targets.set(rel.getAttribute('Id') || '', resolvePath(rel.getAttribute('Target') || '')));
+
+  const sharedStringsDoc = parseXml(files, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsDoc ? elements(sharedStringsDoc, 'si').map(stringItemText) : [];
+
+  return elements(workbook, 'sheet').map((sheetEl, i) => {
+    const relId = Array.from(sheetEl.attributes).find(a => a.localName === 'id')?.value || '';
+    const doc = parseXml(files, targets.get(relId) || `xl/worksheets/sheet${i + 1}.xml`);
+    const rows: XlsxCell[][] = [];
+    if (doc) {
+      elements(doc, 'row').forEach((rowEl, r) => {
+        const rowIndex = Number(rowEl.getAttribute('r') || r + 1) - 1;
+        const row: XlsxCell[] = [];
+        elements(rowEl, 'c').forEach((cell, c) => {
+          const ref = cell.getAttribute('r');
+          const col = ref ? columnIndex(ref) : c;
+          const type = cell.getAttribute('t');
+          const raw = elements(cell, 'v')[0]?.textContent ?? '';
+          if (type === 's') row[col] = sharedStrings[Number(raw)] ?? '';
+          else if (type === 'inlineStr') row[col] = elements(cell, 'is')[0] ? stringItemText(elements(cell, 'is')[0]) : '';
+          else if (type === 'b') row[col] = raw === '1';
+          else if (type === 'str') row[col] = raw;
+          else if (type === 'e') return; // #N/A, #REF! etc. read as empty
+          else if (raw !== '') row[col] = Number(raw);
+        });
+        rows[rowIndex] = row;
+      });
+    }
+    return { name: sheetEl.getAttribute('name') || `Sheet${i + 1}`, rows: Array.from(rows, row => row || []) };
+  });
+};
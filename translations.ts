@@ -17,6 +17,8 @@ export const translations = {
     exportLabel: "Export",
     exportSVG: "Export SVG",
     toggleOrientation: "Toggle Orientation",
+    symbolLibrary: "Symbols: {name}",
+    symbolLibraries: { cards: "Cards", iec: "IEC 60617", ansi: "ANSI Y32.2" },
     toggleTheme: "Toggle Theme",
     togglePrintMode: "Toggle Print Layout",
     lockLayout: "Lock Layout",
@@ -25,6 +27,7 @@ export const translations = {
     exitCleanView: "Exit Clean View",
     analyze: "Analyze",
     calculateLoad: "Calculate Load",
+    showVoltageDrops: "Show Voltage Drop on Links",
     active: "Active",
     propertiesActions: "Properties & Actions",
     quickTips: "Quick Tips",
@@ -34,11 +37,78 @@ export const translations = {
     tip4: "Esc to cancel selection or connection mode.",
     resetDiagram: "Reset Diagram to Default",
     saveStatus: { saved: "Saved", saving: "Saving...", unsaved: "Unsaved" },
+    storage: {
+      backup: "Download Backup",
+      retry: "Retry",
+      errors: {
+        quota: "Browser storage is full, so recent changes are not saved. Download a backup, then remove unused projects or large custom icons.",
+        unavailable: "Browser storage is unavailable (private mode or blocked by another tab). Changes are not saved; download a backup before closing.",
+        unknown: "Saving failed. Download a backup to keep your changes, then retry."
+      }
+    },
+    schema: {
+      title: "Import Failed",
+      subtitle: "The file was not imported. {count} problem(s) found:",
+      copy: "Copy Report",
+      issues: {
+        invalidJson: "the file is not valid JSON",
+        notObject: "expected an object",
+        missing: "required field \"{field}\" is missing",
+        wrongType: "field \"{field}\" has the wrong type",
+        invalidValue: "field \"{field}\" has an unknown value",
+        duplicateId: "ID is used by another component",
+        unsupportedVersion: "saved by a newer version of VoltGraph"
+      }
+    },
+    history: {
+      title: "Edit History",
+      open: "History",
+      page: "This page",
+      workspace: "Projects & pages",
+      initial: "Initial state",
+      empty: "No changes yet",
+      actions: {
+        paste: "Paste {name}",
+        deleteMany: "Delete {count} components",
+        delete: "Delete {name}",
+        disconnect: "Disconnect {name}",
+        connect: "Connect {name}",
+        detach: "Detach {name}",
+        add: "Add {name}",
+        duplicate: "Duplicate {name}",
+        edit: "Edit {name}",
+        editMany: "Edit {count} components",
+        phaseBalance: "Apply phase balancing",
+        linkStyle: "Change link style of {name}",
+        linkRoute: "Reroute link to {name}",
+        move: "Move {count} components",
+        collapse: "Collapse {name}",
+        expand: "Expand {name}",
+        group: "Group under {name}",
+        import: "Import {name}",
+        addProject: "Add project",
+        addPage: "Add page",
+        deletePage: "Delete page {name}",
+        deleteProject: "Delete project {name}",
+        rename: "Rename to {name}",
+        reset: "Reset all projects",
+        cableSizes: "Apply suggested cable sizes",
+        issueRevision: "Issue revision {name}",
+        deleteRevision: "Delete revision {name}",
+        merge: "Merge {name}",
+        annotationAdd: "Add annotation",
+        annotationMove: "Move annotation",
+        annotationEdit: "Edit annotation",
+        annotationDelete: "Delete annotation",
+        annotationsClear: "Clear annotations"
+      }
+    },
     undo: "Undo",
     redo: "Redo",
     addFirstNode: "Add Utility Grid (Start)",
     addStandaloneGen: "Or Add Standalone Generator",
     addIndependent: "Add Independent Node",
+    tools: "Tools",
     addGrid: "Add Grid",
     addGen: "Add Generator",
     addTrans: "Add Transformer",
@@ -71,7 +141,9 @@ export const translations = {
       [ComponentType.SWITCH]: "Switch",
       [ComponentType.LOAD]: "Load",
       [ComponentType.GENERATOR]: "Generator",
-      [ComponentType.UPS]: "UPS"
+      [ComponentType.UPS]: "UPS",
+      [ComponentType.OFF_PAGE_CONNECTOR]: "Off-Page Connector",
+      [ComponentType.FUSE]: "Fuse"
     },
     inputPanel: {
       addConnection: "Add Connection",
@@ -97,6 +169,12 @@ export const translations = {
       generatorName: "Generator Name",
       isAC: "Air Conditioning Breaker",
       isReserved: "Reserved Breaker",
+      busbar: "Draw as busbar",
+      phaseType: "Phase Type",
+      phaseAuto: "Auto (by voltage)",
+      singlePhase: "Single-phase",
+      threePhase: "Three-phase",
+      phase: "Phase",
       amperage: "Amperage (A)",
       voltage: "Voltage (V)",
       kva: "kVA",
@@ -120,6 +198,37 @@ export const translations = {
       startMarker: "Start Marker",
       endMarker: "End Marker",
       cableSize: "Cable Size (e.g. 4x25mm)",
+      cableData: "Cable Data",
+      conductorMaterial: "Conductor",
+      materials: { copper: "Copper", aluminium: "Aluminium" },
+      installationMethod: "Installation",
+      installationMethods: { conduit: "Conduit", tray: "Cable tray", air: "Free air", buried: "Buried" },
+      crossSection: "Size (mm²)",
+      cores: "Cores",
+      cableLength: "Length (m)",
+      impedancePercent: "Impedance (%Z)",
+      faultLevel: "Utility Fault Level (MVA)",
+      breakingCapacity: "Breaking Capacity (kA)",
+      tripSettings: {
+        title: "Trip Characteristic",
+        curves: { B: "Curve B (3-5 In)", C: "Curve C (5-10 In)", D: "Curve D (10-20 In)", electronic: "Electronic (LSI)" },
+        longTimePickup: "Ir (x In)",
+        longTimeDelay: "tr (s @ 6 Ir)",
+        shortTimePickup: "Isd (x Ir)",
+        shortTimeDelay: "tsd (s)",
+        instantaneousPickup: "Ii (x In)"
+      },
+      cableSizing: {
+        title: "Cable Sizing",
+        ambient: "Ambient (°C)",
+        grouping: "Grouping factor",
+        suggested: "Minimum size",
+        noSize: "Exceeds table",
+        apply: "Apply",
+        applyAll: "Apply to all links on page",
+        undersized: "Entered size {size} mm² is smaller than required.",
+        noCurrent: "No downstream load or upstream breaker rating to size this cable from."
+      },
       patterns: { 
           solid: "Solid", 
           dashed: "Dashed", 
@@ -131,6 +240,8 @@ export const translations = {
           straight: "Straight",
           orthogonal: "Orthogonal (90°)"
       },
+      resetRoute: "Reset route",
+      routeHint: "Drag a segment of the link on the diagram to reroute it.",
       markers: { none: "None", arrow: "Arrow", circle: "Circle", diamond: "Diamond" },
       shapes: { rectangle: "Rectangle", circle: "Circle", square: "Square" },
       groupNode: "Group / Wrap",
@@ -155,7 +266,121 @@ export const translations = {
       danger: "Danger Configuration",
       issues: "Detected Issues",
       recommendations: "Recommendations",
-      noData: "No analysis data available."
+      noData: "No analysis data available.",
+      aiPending: "Local rule check complete. Waiting for Gemini AI findings...",
+      aiUnavailable: "AI analysis unavailable. Showing local rule check only.",
+      rules: {
+        summary: "Rule check found {issues} issue(s) across {nodes} components.",
+        summaryClean: "Rule check passed for all {nodes} components.",
+        childOverParent: "{child} is rated {childAmps}A, above its upstream device {parent} ({parentAmps}A).",
+        childOverParentFix: "Reduce the rating of {child} to {parentAmps}A or less, or upsize the upstream device.",
+        voltageMismatch: "{child} is set to {childVoltage}V but is fed from {parent} at {parentVoltage}V without a transformer.",
+        voltageMismatchFix: "Add a transformer upstream of {child} or correct its voltage.",
+        transformerUnprotected: "Transformer {name} has no downstream protective device.",
+        transformerUnprotectedFix: "Add a main breaker or switch on the secondary side of {name}.",
+        loadWithChildren: "Load {name} feeds {count} downstream component(s).",
+        loadWithChildrenFix: "Move the components under {name} to a breaker or distribution board.",
+        generatorNoTransfer: "Generator {name} is not connected through a transfer switch.",
+        generatorNoTransferFix: "Connect {name} through a transfer switch (ATS/MTS) to prevent back-feeding the grid.",
+        breakingCapacityExceeded: "{name} has a breaking capacity of {breakingCapacity}kA but the prospective short-circuit current at its location is {faultCurrent}kA.",
+        breakingCapacityExceededFix: "Replace {name} with a device rated for at least {faultCurrent}kA, or use a cascaded (back-up) combination.",
+        faultLevelMissing: "{name} has no utility fault level, so short-circuit currents below it are only calculated where cable data limits them and devices without it are not checked.",
+        faultLevelMissingFix: "Enter the fault level (MVA) given by the utility for {name}."
+      }
+    },
+    phaseBalance: {
+      title: "Phase Balance",
+      noBoards: "No distribution boards with outgoing circuits on this page.",
+      imbalance: "Imbalance",
+      unassigned: "Single-phase load without phase",
+      suggestions: "Suggested assignment",
+      apply: "Apply"
+    },
+    voltageDrop: {
+      title: "Voltage Drop",
+      limit: "Limit",
+      exceeding: "Over limit",
+      noLoads: "No loads on this page.",
+      load: "Load",
+      source: "Source",
+      length: "Cable length",
+      current: "Current",
+      missingCableData: "Some links on the path have no cable size or length and are counted as zero drop."
+    },
+    coordination: {
+      title: "Selectivity Study",
+      selectLink: "Select a link into a breaker that has a breaker upstream, both with an amperage rating.",
+      verdicts: { total: "Total selectivity", partial: "Partial selectivity", none: "No selectivity" },
+      checkedUpTo: "checked up to",
+      current: "Current",
+      time: "Time",
+      upstream: "Upstream",
+      downstream: "Downstream",
+      faultLevel: "Prospective fault current"
+    },
+    panelSchedule: {
+      title: "Panel Schedule",
+      noBoards: "No distribution boards on this page.",
+      columns: { ways: "Way", circuit: "Circuit", rating: "Rating", poles: "Poles", phase: "Phase", load: "Load (kVA)", current: "Current (A)", description: "Description" },
+      spare: "Spare",
+      spareWays: "Spare ways",
+      total: "Total",
+      print: "Print",
+      printAll: "Print all boards"
+    },
+    bom: {
+      title: "Bill of Materials",
+      scopes: { page: "This page", project: "Whole project" },
+      equipment: "Equipment",
+      cables: "Cables",
+      empty: "Nothing to list.",
+      withoutLength: "runs without length",
+      columns: { type: "Type", model: "Model", rating: "Rating", quantity: "Qty", references: "References", cable: "Cable", runs: "Runs", length: "Total length (m)" }
+    },
+    revisions: {
+      title: "Revisions",
+      label: "Rev {name}",
+      current: "Current drawing",
+      create: "Issue Revision",
+      name: "Revision",
+      none: "No revisions issued yet.",
+      delete: "Delete revision",
+      from: "From",
+      to: "To",
+      noChanges: "No changes between these revisions.",
+      showOnDiagram: "Show on Diagram",
+      comparing: "Comparing {from} → {to}",
+      exitCompare: "Exit Comparison",
+      changeList: "Revision Change List",
+      feed: "Fed from",
+      summary: "{count} change(s)",
+      kinds: { added: "Added", removed: "Removed", moved: "Moved", changed: "Changed", rerouted: "Re-routed" },
+      columns: { page: "Page", component: "Component", change: "Change", details: "Details" },
+      fields: {
+        name: "Name", componentNumber: "Component No.", type: "Type", model: "Model", amps: "Amps", voltage: "Voltage",
+        kva: "kVA", phaseType: "Phase type", phase: "Phase", breakingCapacity: "Breaking capacity (kA)",
+        impedancePercent: "Impedance (%Z)", faultLevel: "Fault level (MVA)", tripSettings: "Trip settings",
+        cableSize: "Cable size", cable: "Cable"
+      }
+    },
+    merge: {
+      title: "Merge into {name}",
+      ancestor: "Changes are compared against {name}, the last revision both copies share.",
+      noAncestor: "The copies share no issued revision. Whatever only one copy has is added, and every other difference is treated as a conflict.",
+      summary: "{merged} change(s) merged automatically, {conflicts} conflict(s) to resolve.",
+      noConflicts: "No conflicts. The imported changes can be merged as they are.",
+      allOurs: "Keep all from this copy",
+      allTheirs: "Take all from imported file",
+      ours: "This copy",
+      theirs: "Imported file",
+      base: "Before",
+      placement: "Position in tree",
+      annotation: "Annotation",
+      deletedByUs: "Deleted here, edited in the imported file",
+      deletedByThem: "Edited here, deleted in the imported file",
+      deleted: "Deleted",
+      importCopy: "Import as Copy",
+      confirm: "Merge"
     },
     dialogs: {
       deleteProjectTitle: "Delete Project?",
@@ -165,6 +390,7 @@ export const translations = {
       deleteProject: "Are you sure you want to delete this entire project?",
       deleteNode: "Are you sure you want to delete this component and all its connected children?",
       reset: "Reset everything to default? All unsaved changes will be lost.",
+      clearAnnotations: "Delete all annotations on this page?",
       detach: "Detach this component? It will be moved to the Utility Grid level.",
       rootMove: "System Root cannot be moved, only connected TO.",
       cycle: "Cannot connect a component to its own child (cycle detected).",
@@ -179,14 +405,16 @@ export const translations = {
         svg: "Vector Image (SVG)",
         png: "Raster Image (PNG)",
         json: "Project Data (JSON)",
-        excel: "Spreadsheet (CSV)",
+        excel: "Spreadsheet (XLSX)",
+        csv: "Page Data (CSV)",
         pdf: "Document (PDF)"
       },
       desc: {
         svg: "Best for high-quality printing and editing in vector software.",
         png: "Best for sharing on social media, documents, or quick viewing.",
         json: "Save the raw project data to backup or import later.",
-        excel: "Export component list and data to Excel/CSV.",
+        excel: "One sheet per page with parent IDs. Can be edited and imported back.",
+        csv: "Every field of the current page keyed by ID. Edit in a spreadsheet and import back.",
         pdf: "Print diagram to a PDF document."
       }
     },
@@ -205,10 +433,42 @@ export const translations = {
       place: "Place",
       building: "Building",
       floor: "Floor",
+      id: "ID",
+      parentId: "Parent ID",
+      phaseType: "Phase Type",
+      phase: "Phase",
+      cableSize: "Cable Size",
       yes: "Yes",
       no: "No",
       na: "N/A"
     },
+    spreadsheetImport: {
+      success: "Imported {pages} page(s) from the spreadsheet.",
+      failed: "Could not read the spreadsheet. Make sure it is an .xlsx file.",
+      empty: "No sheet with a Name or Type column was found.",
+      issuesTitle: "Some rows need attention:",
+      moreIssues: "...and {count} more.",
+      issues: {
+        noHeader: "no Name or Type column, sheet skipped",
+        missingName: "name is empty",
+        unknownType: "unknown type, imported as Load",
+        duplicateId: "duplicate ID, children attach to the first row",
+        missingParent: "parent not found, imported as a root",
+        ambiguousParent: "several rows share the parent name, linked to the closest one above",
+        cycle: "parent loop, imported as a root",
+        invalidValue: "value could not be read and was skipped",
+        missingConnection: "extra connection to an unknown ID was dropped"
+      }
+    },
+    csvImport: {
+      title: "Import CSV",
+      pageName: "Page Name",
+      summary: "{nodes} components in {roots} tree(s).",
+      noIssues: "All parents were resolved.",
+      empty: "No components were found in the file.",
+      confirm: "Add as New Page",
+      replace: "Update \"{page}\""
+    },
     about: {
       title: "About VoltGraph AI",
       version: "Version 1.0.0",
@@ -238,7 +498,30 @@ export const translations = {
         enable: "Enable Drawing",
         disable: "Disable Drawing",
         clear: "Clear All",
-        color: "Ink Color"
+        color: "Ink Color",
+        delete: "Delete Annotation",
+        textPrompt: "Note text:",
+        show: "Show annotations in print",
+        hide: "Hide annotations in print",
+        tools: { select: "Select / Move", freehand: "Freehand", text: "Text Note", cloud: "Revision Cloud", arrow: "Arrow", rect: "Rectangle" }
+    },
+    offPage: {
+      target: "Continues To",
+      noTarget: "No target selected",
+      missing: "Target not found",
+      goTo: "Go to target",
+      continuesTo: "→ {page} / {name}",
+      fedFrom: "← {page} / {name}"
+    },
+    search: {
+      results: "{count} match(es) in all projects",
+      more: "Showing the first {shown}",
+      none: "No matching components",
+      thisPage: "This page"
+    },
+    minimap: {
+      show: "Show overview",
+      hide: "Hide overview"
     }
   },
   he: {
@@ -256,6 +539,8 @@ export const translations = {
     exportLabel: "ייצוא",
     exportSVG: "ייצא SVG",
     toggleOrientation: "שנה כיוון",
+    symbolLibrary: "סמלים: {name}",
+    symbolLibraries: { cards: "כרטיסים", iec: "IEC 60617", ansi: "ANSI Y32.2" },
     toggleTheme: "שנה ערכת נושא",
     togglePrintMode: "מצב הדפסה",
     lockLayout: "נעל פריסה",
@@ -264,6 +549,7 @@ export const translations = {
     exitCleanView: "צא מתצוגה נקייה",
     analyze: "נתח",
     calculateLoad: "חישוב עומסים",
+    showVoltageDrops: "הצג מפל מתח על הקווים",
     active: "פעיל",
     propertiesActions: "מאפיינים ופעולות",
     quickTips: "טיפים מהירים",
@@ -273,11 +559,78 @@ export const translations = {
     tip4: "Esc לביטול בחירה או יציאה ממצב קישור.",
     resetDiagram: "אפס דיאגרמה לברירת מחדל",
     saveStatus: { saved: "נשמר", saving: "שומר...", unsaved: "לא נשמר" },
+    storage: {
+      backup: "הורד גיבוי",
+      retry: "נסה שוב",
+      errors: {
+        quota: "אחסון הדפדפן מלא ולכן השינויים האחרונים לא נשמרו. הורד גיבוי ולאחר מכן הסר פרויקטים שאינם בשימוש או אייקונים גדולים.",
+        unavailable: "אחסון הדפדפן אינו זמין (מצב פרטי או חסום על ידי לשונית אחרת). השינויים לא נשמרים; הורד גיבוי לפני הסגירה.",
+        unknown: "השמירה נכשלה. הורד גיבוי כדי לשמור את השינויים ונסה שוב."
+      }
+    },
+    schema: {
+      title: "הייבוא נכשל",
+      subtitle: "הקובץ לא יובא. נמצאו {count} בעיות:",
+      copy: "העתק דוח",
+      issues: {
+        invalidJson: "הקובץ אינו JSON תקין",
+        notObject: "נדרש אובייקט",
+        missing: "שדה החובה \"{field}\" חסר",
+        wrongType: "לשדה \"{field}\" סוג שגוי",
+        invalidValue: "לשדה \"{field}\" ערך לא מוכר",
+        duplicateId: "המזהה בשימוש ברכיב אחר",
+        unsupportedVersion: "נשמר בגרסה חדשה יותר של VoltGraph"
+      }
+    },
+    history: {
+      title: "היסטוריית עריכה",
+      open: "היסטוריה",
+      page: "דף זה",
+      workspace: "פרויקטים ודפים",
+      initial: "מצב התחלתי",
+      empty: "אין שינויים עדיין",
+      actions: {
+        paste: "הדבקת {name}",
+        deleteMany: "מחיקת {count} רכיבים",
+        delete: "מחיקת {name}",
+        disconnect: "ניתוק {name}",
+        connect: "חיבור {name}",
+        detach: "הפרדת {name}",
+        add: "הוספת {name}",
+        duplicate: "שכפול {name}",
+        edit: "עריכת {name}",
+        editMany: "עריכת {count} רכיבים",
+        phaseBalance: "החלת איזון פאזות",
+        linkStyle: "שינוי סגנון קו של {name}",
+        linkRoute: "ניתוב מחדש של הקו אל {name}",
+        move: "הזזת {count} רכיבים",
+        collapse: "כיווץ {name}",
+        expand: "הרחבת {name}",
+        group: "קיבוץ תחת {name}",
+        import: "ייבוא {name}",
+        addProject: "הוספת פרויקט",
+        addPage: "הוספת דף",
+        deletePage: "מחיקת הדף {name}",
+        deleteProject: "מחיקת הפרויקט {name}",
+        rename: "שינוי שם ל-{name}",
+        reset: "איפוס כל הפרויקטים",
+        cableSizes: "החלת חתכי כבל מוצעים",
+        issueRevision: "הוצאת מהדורה {name}",
+        deleteRevision: "מחיקת מהדורה {name}",
+        merge: "מיזוג {name}",
+        annotationAdd: "הוספת הערה",
+        annotationMove: "הזזת הערה",
+        annotationEdit: "עריכת הערה",
+        annotationDelete: "מחיקת הערה",
+        annotationsClear: "ניקוי ההערות"
+      }
+    },
     undo: "בטל",
     redo: "בצע שוב",
     addFirstNode: "הוסף רשת חשמל (התחלה)",
     addStandaloneGen: "או הוסף גנרטור עצמאי",
     addIndependent: "הוסף רכיב עצמאי",
+    tools: "כלים",
     addGrid: "רשת חשמל",
     addGen: "גנרטור",
     addTrans: "שנאי",
@@ -310,7 +663,9 @@ export const translations = {
       [ComponentType.SWITCH]: "מתג",
       [ComponentType.LOAD]: "עומס/צרכן",
       [ComponentType.GENERATOR]: "גנרטור",
-      [ComponentType.UPS]: "אל-פסק (UPS)"
+      [ComponentType.UPS]: "אל-פסק (UPS)",
+      [ComponentType.OFF_PAGE_CONNECTOR]: "מחבר לדף אחר",
+      [ComponentType.FUSE]: "נתיך"
     },
     inputPanel: {
       addConnection: "הוסף חיבור",
@@ -336,6 +691,12 @@ export const translations = {
       generatorName: "שם הגנרטור",
       isAC: 'מפסק מ"א',
       isReserved: "שמור",
+      busbar: "הצג כפס צבירה",
+      phaseType: "סוג פאזה",
+      phaseAuto: "אוטומטי (לפי מתח)",
+      singlePhase: "חד-פאזי",
+      threePhase: "תלת-פאזי",
+      phase: "פאזה",
       amperage: "אמפר (A)",
       voltage: "מתח (V)",
       kva: "kVA",
@@ -359,6 +720,37 @@ export const translations = {
       startMarker: "סמן התחלה",
       endMarker: "סמן סוף",
       cableSize: "גודל כבל (לדוגמה 4x25 ממ״ר)",
+      cableData: "נתוני כבל",
+      conductorMaterial: "מוליך",
+      materials: { copper: "נחושת", aluminium: "אלומיניום" },
+      installationMethod: "התקנה",
+      installationMethods: { conduit: "צינור", tray: "תעלת כבלים", air: "אוויר חופשי", buried: "טמון בקרקע" },
+      crossSection: 'חתך (ממ"ר)',
+      cores: "גידים",
+      cableLength: "אורך (מ')",
+      impedancePercent: "עכבה (%Z)",
+      faultLevel: "הספק קצר ברשת (MVA)",
+      breakingCapacity: "כושר ניתוק (kA)",
+      tripSettings: {
+        title: "אופיין ניתוק",
+        curves: { B: "עקומה B (3-5 In)", C: "עקומה C (5-10 In)", D: "עקומה D (10-20 In)", electronic: "אלקטרוני (LSI)" },
+        longTimePickup: "Ir (x In)",
+        longTimeDelay: "tr (ש' @ 6 Ir)",
+        shortTimePickup: "Isd (x Ir)",
+        shortTimeDelay: "tsd (ש')",
+        instantaneousPickup: "Ii (x In)"
+      },
+      cableSizing: {
+        title: "בחירת חתך כבל",
+        ambient: "טמפ' סביבה (°C)",
+        grouping: "מקדם קיבוץ",
+        suggested: "חתך מינימלי",
+        noSize: "מעבר לטבלה",
+        apply: "החל",
+        applyAll: "החל על כל הקווים בעמוד",
+        undersized: 'החתך שהוזן {size} ממ"ר קטן מהנדרש.',
+        noCurrent: "אין עומס במורד או מפסק במעלה לחישוב חתך הכבל."
+      },
       patterns: { 
           solid: "רציף", 
           dashed: "מקווקו", 
@@ -370,6 +762,8 @@ export const translations = {
           straight: "ישר",
           orthogonal: "זוויתי (90°)"
       },
+      resetRoute: "איפוס ניתוב",
+      routeHint: "גרור מקטע של הקו בתרשים כדי לנתב אותו מחדש.",
       markers: { none: "ללא", arrow: "חץ", circle: "עיגול", diamond: "יהלום" },
       shapes: { rectangle: "מלבן", circle: "עיגול", square: "ריבוע" },
       groupNode: "קבץ / עטוף",
@@ -394,7 +788,121 @@ export const translations = {
       danger: "תצורה מסוכנת",
       issues: "בעיות שזוהו",
       recommendations: "המלצות",
-      noData: "אין נתוני ניתוח זמינים."
+      noData: "אין נתוני ניתוח זמינים.",
+      aiPending: "בדיקת הכללים המקומית הושלמה. ממתין לממצאי Gemini AI...",
+      aiUnavailable: "ניתוח AI אינו זמין. מוצגת בדיקת כללים מקומית בלבד.",
+      rules: {
+        summary: "בדיקת הכללים מצאה {issues} בעיות ב-{nodes} רכיבים.",
+        summaryClean: "בדיקת הכללים עברה בהצלחה עבור כל {nodes} הרכיבים.",
+        childOverParent: "{child} מדורג {childAmps}A, מעל המפסק שמעליו {parent} ({parentAmps}A).",
+        childOverParentFix: "הקטן את הדירוג של {child} ל-{parentAmps}A או פחות, או הגדל את המפסק שמעליו.",
+        voltageMismatch: "{child} מוגדר ל-{childVoltage}V אך מוזן מ-{parent} ב-{parentVoltage}V ללא שנאי.",
+        voltageMismatchFix: "הוסף שנאי לפני {child} או תקן את המתח שלו.",
+        transformerUnprotected: "לשנאי {name} אין התקן הגנה בהמשך הקו.",
+        transformerUnprotectedFix: "הוסף מפסק ראשי או מנתק בצד המשני של {name}.",
+        loadWithChildren: "העומס {name} מזין {count} רכיבים נוספים.",
+        loadWithChildrenFix: "העבר את הרכיבים שמתחת ל-{name} אל מפסק או לוח חלוקה.",
+        generatorNoTransfer: "הגנרטור {name} אינו מחובר דרך מפסק העברה.",
+        generatorNoTransferFix: "חבר את {name} דרך מפסק העברה (ATS/MTS) כדי למנוע הזנה חוזרת לרשת.",
+        breakingCapacityExceeded: "כושר הניתוק של {name} הוא {breakingCapacity}kA אך זרם הקצר הצפוי במיקומו הוא {faultCurrent}kA.",
+        breakingCapacityExceededFix: "החלף את {name} ברכיב בעל כושר ניתוק של {faultCurrent}kA לפחות, או השתמש בהגנת גיבוי (קסקדה).",
+        faultLevelMissing: "ל-{name} לא הוגדרה רמת קצר של הרשת, ולכן זרמי הקצר מתחתיו מחושבים רק היכן שנתוני הכבל מגבילים אותם, ורכיבים ללא נתונים אלה אינם נבדקים.",
+        faultLevelMissingFix: "הזן את רמת הקצר (MVA) שנמסרה על ידי חברת החשמל עבור {name}."
+      }
+    },
+    phaseBalance: {
+      title: "איזון פאזות",
+      noBoards: "אין בעמוד זה לוחות חלוקה עם מעגלים יוצאים.",
+      imbalance: "חוסר איזון",
+      unassigned: "עומס חד-פאזי ללא פאזה",
+      suggestions: "שיוך מוצע",
+      apply: "החל"
+    },
+    voltageDrop: {
+      title: "מפל מתח",
+      limit: "גבול",
+      exceeding: "חורגים",
+      noLoads: "אין צרכנים בעמוד זה.",
+      load: "צרכן",
+      source: "מקור",
+      length: "אורך כבל",
+      current: "זרם",
+      missingCableData: "לחלק מהקווים במסלול אין חתך או אורך כבל והם נספרים כמפל אפס."
+    },
+    coordination: {
+      title: "בדיקת סלקטיביות",
+      selectLink: "בחר קו המזין מפסק שיש מעליו מפסק נוסף, לשניהם ערך אמפר.",
+      verdicts: { total: "סלקטיביות מלאה", partial: "סלקטיביות חלקית", none: "אין סלקטיביות" },
+      checkedUpTo: "נבדק עד",
+      current: "זרם",
+      time: "זמן",
+      upstream: "במעלה הזרם",
+      downstream: "במורד הזרם",
+      faultLevel: "זרם קצר צפוי"
+    },
+    panelSchedule: {
+      title: "טבלת לוח",
+      noBoards: "אין לוחות חלוקה בעמוד זה.",
+      columns: { ways: "מקום", circuit: "מעגל", rating: "ערך", poles: "קטבים", phase: "פאזה", load: "עומס (kVA)", current: "זרם (A)", description: "תיאור" },
+      spare: "שמור",
+      spareWays: "מקומות שמורים",
+      total: 'סה"כ',
+      print: "הדפס",
+      printAll: "הדפס את כל הלוחות"
+    },
+    bom: {
+      title: "כתב כמויות",
+      scopes: { page: "עמוד זה", project: "כל הפרויקט" },
+      equipment: "ציוד",
+      cables: "כבלים",
+      empty: "אין פריטים.",
+      withoutLength: "קווים ללא אורך",
+      columns: { type: "סוג", model: "דגם", rating: "ערך", quantity: "כמות", references: "מספרי רכיב", cable: "כבל", runs: "קווים", length: "אורך כולל (מ')" }
+    },
+    revisions: {
+      title: "מהדורות",
+      label: "מהדורה {name}",
+      current: "השרטוט הנוכחי",
+      create: "הוצא מהדורה",
+      name: "מהדורה",
+      none: "טרם הוצאו מהדורות.",
+      delete: "מחק מהדורה",
+      from: "מ-",
+      to: "אל",
+      noChanges: "אין שינויים בין המהדורות.",
+      showOnDiagram: "הצג בשרטוט",
+      comparing: "השוואה {from} ← {to}",
+      exitCompare: "צא מהשוואה",
+      changeList: "רשימת שינויים במהדורה",
+      feed: "מוזן מ-",
+      summary: "{count} שינויים",
+      kinds: { added: "נוסף", removed: "הוסר", moved: "הוזז", changed: "שונה", rerouted: "הוזן מחדש" },
+      columns: { page: "דף", component: "רכיב", change: "שינוי", details: "פרטים" },
+      fields: {
+        name: "שם", componentNumber: "מספר רכיב", type: "סוג", model: "דגם", amps: "אמפר", voltage: "מתח",
+        kva: "kVA", phaseType: "סוג הזנה", phase: "פאזה", breakingCapacity: "כושר ניתוק (kA)",
+        impedancePercent: "עכבה (%Z)", faultLevel: "רמת קצר (MVA)", tripSettings: "הגדרות ניתוק",
+        cableSize: "חתך כבל", cable: "כבל"
+      }
+    },
+    merge: {
+      title: "מיזוג לתוך {name}",
+      ancestor: "השינויים מושווים מול {name}, המהדורה האחרונה המשותפת לשני העותקים.",
+      noAncestor: "לעותקים אין מהדורה משותפת. מה שקיים רק באחד העותקים מתווסף, וכל הבדל אחר נחשב התנגשות.",
+      summary: "{merged} שינויים מוזגו אוטומטית, {conflicts} התנגשויות לפתרון.",
+      noConflicts: "אין התנגשויות. ניתן למזג את השינויים המיובאים כפי שהם.",
+      allOurs: "השאר הכל מעותק זה",
+      allTheirs: "קח הכל מהקובץ המיובא",
+      ours: "עותק זה",
+      theirs: "קובץ מיובא",
+      base: "לפני",
+      placement: "מיקום בעץ",
+      annotation: "הערה",
+      deletedByUs: "נמחק כאן, נערך בקובץ המיובא",
+      deletedByThem: "נערך כאן, נמחק בקובץ המיובא",
+      deleted: "נמחק",
+      importCopy: "ייבא כעותק",
+      confirm: "מזג"
     },
     dialogs: {
       deleteProjectTitle: "למחוק פרויקט?",
@@ -404,6 +912,7 @@ export const translations = {
       deleteProject: "Are you sure you want to delete this entire project?",
       deleteNode: "האם למחוק רכיב זה ואת כל החיבורים שלו?",
       reset: "לאפס הכל לברירת מחדל? כל השינויים שלא נשמרו יאבדו.",
+      clearAnnotations: "למחוק את כל ההערות בדף זה?",
       detach: "לנתק רכיב זה? הוא יועבר לרמת רשת החשמל.",
       rootMove: "לא ניתן להזיז את שורש המערכת, רק להתחבר אליו.",
       cycle: "לא ניתן לחבר רכיב לילד של עצמו (זוהה מעגל סגור).",
@@ -418,14 +927,16 @@ export const translations = {
         svg: "תמונה וקטורית (SVG)",
         png: "תמונה (PNG)",
         json: "נתוני פרויקט (JSON)",
-        excel: "גליון נתונים (CSV/Excel)",
+        excel: "גליון נתונים (XLSX)",
+        csv: "נתוני העמוד (CSV)",
         pdf: "מסמך (PDF)"
       },
       desc: {
         svg: "הטוב ביותר להדפסה איכותית ועריכה בתוכנות גרפיות.",
         png: "הטוב ביותר לשיתוף ברשתות חברתיות או מסמכים.",
         json: "שמור את נתוני הפרויקט לגיבוי או ייבוא מאוחר יותר.",
-        excel: "ייצוא רשימת רכיבים ונתונים לאקסל/CSV.",
+        excel: "גליון לכל עמוד עם מזהי הורה. ניתן לערוך ולייבא בחזרה.",
+        csv: "כל השדות של העמוד הנוכחי לפי מזהה. ערוך בגליון וייבא בחזרה.",
         pdf: "הדפס את הדיאגרמה למסמך PDF."
       }
     },
@@ -444,10 +955,42 @@ export const translations = {
       place: "מקום",
       building: "בניין",
       floor: "קומה",
+      id: "מזהה",
+      parentId: "מזהה הורה",
+      phaseType: "סוג הזנה",
+      phase: "פאזה",
+      cableSize: "גודל כבל",
       yes: "כן",
       no: "לא",
       na: "לא זמין"
     },
+    spreadsheetImport: {
+      success: "יובאו {pages} עמודים מהגליון.",
+      failed: "לא ניתן לקרוא את הגליון. ודא שזהו קובץ xlsx.",
+      empty: "לא נמצא גליון עם עמודת שם או סוג.",
+      issuesTitle: "שורות הדורשות בדיקה:",
+      moreIssues: "...ועוד {count}.",
+      issues: {
+        noHeader: "אין עמודת שם או סוג, הגליון דולג",
+        missingName: "השם ריק",
+        unknownType: "סוג לא מוכר, יובא כעומס",
+        duplicateId: "מזהה כפול, הילדים משויכים לשורה הראשונה",
+        missingParent: "ההורה לא נמצא, יובא כשורש",
+        ambiguousParent: "כמה שורות עם שם ההורה, קושר לקרובה ביותר מעליו",
+        cycle: "לולאת הורים, יובא כשורש",
+        invalidValue: "לא ניתן לקרוא את הערך והוא דולג",
+        missingConnection: "חיבור נוסף למזהה לא מוכר הוסר"
+      }
+    },
+    csvImport: {
+      title: "ייבוא CSV",
+      pageName: "שם העמוד",
+      summary: "{nodes} רכיבים ב-{roots} עצים.",
+      noIssues: "כל ההורים זוהו.",
+      empty: "לא נמצאו רכיבים בקובץ.",
+      confirm: "הוסף כעמוד חדש",
+      replace: "עדכן את \"{page}\""
+    },
     about: {
       title: "אודות VoltGraph AI",
       version: "גרסה 1.0.0",
@@ -477,7 +1020,30 @@ export const translations = {
         enable: "אפשר ציור",
         disable: "כבה ציור",
         clear: "נקה הכל",
-        color: "צבע עט"
+        color: "צבע עט",
+        delete: "מחק הערה",
+        textPrompt: "טקסט ההערה:",
+        show: "הצג הערות בהדפסה",
+        hide: "הסתר הערות בהדפסה",
+        tools: { select: "בחירה / הזזה", freehand: "ציור חופשי", text: "הערת טקסט", cloud: "ענן מהדורה", arrow: "חץ", rect: "מלבן" }
+    },
+    offPage: {
+      target: "ממשיך אל",
+      noTarget: "לא נבחר יעד",
+      missing: "היעד לא נמצא",
+      goTo: "עבור ליעד",
+      continuesTo: "→ {page} / {name}",
+      fedFrom: "← {page} / {name}"
+    },
+    search: {
+      results: "{count} תוצאות בכל הפרויקטים",
+      more: "מוצגות {shown} הראשונות",
+      none: "לא נמצאו רכיבים תואמים",
+      thisPage: "דף זה"
+    },
+    minimap: {
+      show: "הצג מפת סקירה",
+      hide: "הסתר מפת סקירה"
     }
   },
   ar: {
@@ -495,6 +1061,8 @@ export const translations = {
     exportLabel: "تصدير",
     exportSVG: "تصدير SVG",
     toggleOrientation: "تبديل الاتجاه",
+    symbolLibrary: "الرموز: {name}",
+    symbolLibraries: { cards: "بطاقات", iec: "IEC 60617", ansi: "ANSI Y32.2" },
     toggleTheme: "تبديل السمة",
     togglePrintMode: "تخطيط الطباعة",
     lockLayout: "قفل المخطط",
@@ -503,6 +1071,7 @@ export const translations = {
     exitCleanView: "الخروج من العرض النظيف",
     analyze: "تحليل",
     calculateLoad: "حساب الأحمال",
+    showVoltageDrops: "إظهار هبوط الجهد على الوصلات",
     active: "نشط",
     propertiesActions: "الخصائص والإجراءات",
     quickTips: "نصائح سريعة",
@@ -512,11 +1081,78 @@ export const translations = {
     tip4: "Esc لإلغاء التحديد أو وضع الربط.",
     resetDiagram: "إعادة تعيين المخطط للافتراضي",
     saveStatus: { saved: "محفوظ", saving: "جاري الحفظ...", unsaved: "غير محفوظ" },
+    storage: {
+      backup: "تنزيل نسخة احتياطية",
+      retry: "إعادة المحاولة",
+      errors: {
+        quota: "مساحة تخزين المتصفح ممتلئة، لذلك لم يتم حفظ التغييرات الأخيرة. نزّل نسخة احتياطية ثم احذف المشاريع غير المستخدمة أو الأيقونات الكبيرة.",
+        unavailable: "تخزين المتصفح غير متاح (وضع التصفح الخاص أو محظور من علامة تبويب أخرى). لا يتم حفظ التغييرات؛ نزّل نسخة احتياطية قبل الإغلاق.",
+        unknown: "فشل الحفظ. نزّل نسخة احتياطية للاحتفاظ بتغييراتك ثم أعد المحاولة."
+      }
+    },
+    schema: {
+      title: "فشل الاستيراد",
+      subtitle: "لم يتم استيراد الملف. تم العثور على {count} مشكلة:",
+      copy: "نسخ التقرير",
+      issues: {
+        invalidJson: "الملف ليس JSON صالحًا",
+        notObject: "يجب أن يكون كائنًا",
+        missing: "الحقل المطلوب \"{field}\" مفقود",
+        wrongType: "الحقل \"{field}\" من نوع خاطئ",
+        invalidValue: "الحقل \"{field}\" يحتوي على قيمة غير معروفة",
+        duplicateId: "المعرف مستخدم في مكون آخر",
+        unsupportedVersion: "تم الحفظ بإصدار أحدث من VoltGraph"
+      }
+    },
+    history: {
+      title: "سجل التعديلات",
+      open: "السجل",
+      page: "هذه الصفحة",
+      workspace: "المشاريع والصفحات",
+      initial: "الحالة الأولية",
+      empty: "لا توجد تغييرات بعد",
+      actions: {
+        paste: "لصق {name}",
+        deleteMany: "حذف {count} مكونات",
+        delete: "حذف {name}",
+        disconnect: "فصل {name}",
+        connect: "توصيل {name}",
+        detach: "فك {name}",
+        add: "إضافة {name}",
+        duplicate: "تكرار {name}",
+        edit: "تعديل {name}",
+        editMany: "تعديل {count} مكونات",
+        phaseBalance: "تطبيق موازنة الأطوار",
+        linkStyle: "تغيير نمط خط {name}",
+        linkRoute: "إعادة توجيه الخط إلى {name}",
+        move: "نقل {count} مكونات",
+        collapse: "طي {name}",
+        expand: "توسيع {name}",
+        group: "تجميع تحت {name}",
+        import: "استيراد {name}",
+        addProject: "إضافة مشروع",
+        addPage: "إضافة صفحة",
+        deletePage: "حذف الصفحة {name}",
+        deleteProject: "حذف المشروع {name}",
+        rename: "إعادة التسمية إلى {name}",
+        reset: "إعادة تعيين كل المشاريع",
+        cableSizes: "تطبيق مقاطع الكابلات المقترحة",
+        issueRevision: "إصدار المراجعة {name}",
+        deleteRevision: "حذف الإصدار {name}",
+        merge: "دمج {name}",
+        annotationAdd: "إضافة ملاحظة",
+        annotationMove: "نقل ملاحظة",
+        annotationEdit: "تعديل ملاحظة",
+        annotationDelete: "حذف ملاحظة",
+        annotationsClear: "مسح الملاحظات"
+      }
+    },
     undo: "تراجع",
     redo: "إعادة",
     addFirstNode: "إضافة شبكة المرافق (البداية)",
     addStandaloneGen: "أو أضف مولد مستقل",
     addIndependent: "إضافة مكون مستقل",
+    tools: "أدوات",
     addGrid: "شبكة مرافق",
     addGen: "مولد",
     addTrans: "محول",
@@ -549,7 +1185,9 @@ export const translations = {
       [ComponentType.SWITCH]: "مفتاح",
       [ComponentType.LOAD]: "حمل",
       [ComponentType.GENERATOR]: "مولد",
-      [ComponentType.UPS]: "مزود طاقة (UPS)"
+      [ComponentType.UPS]: "مزود طاقة (UPS)",
+      [ComponentType.OFF_PAGE_CONNECTOR]: "موصل إلى صفحة أخرى",
+      [ComponentType.FUSE]: "مصهر"
     },
     inputPanel: {
       addConnection: "إضافة اتصال",
@@ -575,6 +1213,12 @@ export const translations = {
       generatorName: "اسم المولد",
       isAC: "قاطع مكيف هواء",
       isReserved: "قاطع احتياطي",
+      busbar: "عرض كقضيب توزيع",
+      phaseType: "نوع الطور",
+      phaseAuto: "تلقائي (حسب الجهد)",
+      singlePhase: "أحادي الطور",
+      threePhase: "ثلاثي الطور",
+      phase: "الطور",
       amperage: "التيار (A)",
       voltage: "الجهد (V)",
       kva: "kVA",
@@ -598,6 +1242,37 @@ export const translations = {
       startMarker: "علامة البداية",
       endMarker: "علامة النهاية",
       cableSize: "مقاس الكابل (مثلاً 4x25 مم)",
+      cableData: "بيانات الكابل",
+      conductorMaterial: "الموصل",
+      materials: { copper: "نحاس", aluminium: "ألمنيوم" },
+      installationMethod: "طريقة التركيب",
+      installationMethods: { conduit: "أنبوب", tray: "حامل كابلات", air: "هواء طلق", buried: "مدفون" },
+      crossSection: "المقطع (مم²)",
+      cores: "عدد الموصلات",
+      cableLength: "الطول (م)",
+      impedancePercent: "الممانعة (%Z)",
+      faultLevel: "مستوى العطل للشبكة (MVA)",
+      breakingCapacity: "سعة القطع (kA)",
+      tripSettings: {
+        title: "خاصية الفصل",
+        curves: { B: "منحنى B (3-5 In)", C: "منحنى C (5-10 In)", D: "منحنى D (10-20 In)", electronic: "إلكتروني (LSI)" },
+        longTimePickup: "Ir (x In)",
+        longTimeDelay: "tr (ث @ 6 Ir)",
+        shortTimePickup: "Isd (x Ir)",
+        shortTimeDelay: "tsd (ث)",
+        instantaneousPickup: "Ii (x In)"
+      },
+      cableSizing: {
+        title: "تحديد مقطع الكابل",
+        ambient: "حرارة المحيط (°C)",
+        grouping: "معامل التجميع",
+        suggested: "الحد الأدنى للمقطع",
+        noSize: "يتجاوز الجدول",
+        apply: "تطبيق",
+        applyAll: "تطبيق على كل الوصلات في الصفحة",
+        undersized: "المقطع المدخل {size} مم² أصغر من المطلوب.",
+        noCurrent: "لا يوجد حمل لاحق أو قاطع سابق لتحديد مقطع هذا الكابل."
+      },
       patterns: { 
           solid: "متصل", 
           dashed: "متقطع", 
@@ -609,6 +1284,8 @@ export const translations = {
           straight: "مستقيم",
           orthogonal: "زاوية قائمة (90°)"
       },
+      resetRoute: "إعادة ضبط المسار",
+      routeHint: "اسحب جزءًا من الخط في المخطط لإعادة توجيهه.",
       markers: { none: "بدون", arrow: "سهم", circle: "دائرة", diamond: "ماسة" },
       shapes: { rectangle: "مستطيل", circle: "دائرة", square: "مربع" },
       groupNode: "تجميع / تغليف",
@@ -633,7 +1310,121 @@ export const translations = {
       danger: "تكوين خطر",
       issues: "المشكلات المكتشفة",
       recommendations: "التوصيات",
-      noData: "لا تتوفر بيانات تحليل."
+      noData: "لا تتوفر بيانات تحليل.",
+      aiPending: "اكتمل فحص القواعد المحلي. في انتظار نتائج Gemini AI...",
+      aiUnavailable: "تحليل الذكاء الاصطناعي غير متاح. يتم عرض فحص القواعد المحلي فقط.",
+      rules: {
+        summary: "وجد فحص القواعد {issues} مشكلة في {nodes} مكونًا.",
+        summaryClean: "اجتاز فحص القواعد جميع المكونات ({nodes}).",
+        childOverParent: "{child} مصنف بـ {childAmps}A، أعلى من الجهاز الذي يغذيه {parent} ({parentAmps}A).",
+        childOverParentFix: "خفّض تصنيف {child} إلى {parentAmps}A أو أقل، أو قم بتكبير الجهاز الأعلى.",
+        voltageMismatch: "{child} مضبوط على {childVoltage}V لكنه يتغذى من {parent} على {parentVoltage}V بدون محول.",
+        voltageMismatchFix: "أضف محولًا قبل {child} أو صحح الجهد الخاص به.",
+        transformerUnprotected: "المحول {name} لا يحتوي على جهاز حماية بعده.",
+        transformerUnprotectedFix: "أضف قاطعًا رئيسيًا أو مفتاحًا في الجانب الثانوي للمحول {name}.",
+        loadWithChildren: "الحمل {name} يغذي {count} مكونًا لاحقًا.",
+        loadWithChildrenFix: "انقل المكونات الموجودة تحت {name} إلى قاطع أو لوحة توزيع.",
+        generatorNoTransfer: "المولد {name} غير متصل عبر مفتاح تحويل.",
+        generatorNoTransferFix: "قم بتوصيل {name} عبر مفتاح تحويل (ATS/MTS) لمنع التغذية العكسية للشبكة.",
+        breakingCapacityExceeded: "سعة القطع لـ {name} هي {breakingCapacity}kA بينما تيار القصر المتوقع في موقعه هو {faultCurrent}kA.",
+        breakingCapacityExceededFix: "استبدل {name} بجهاز لا تقل سعة قطعه عن {faultCurrent}kA، أو استخدم حماية احتياطية متتالية.",
+        faultLevelMissing: "لم يتم تحديد مستوى العطل للشبكة في {name}، لذلك تُحسب تيارات القصر أسفله فقط حيث تحدها بيانات الكابل، ولا يتم فحص المكونات التي تفتقر إليها.",
+        faultLevelMissingFix: "أدخل مستوى العطل (MVA) الذي تحدده شركة الكهرباء لـ {name}."
+      }
+    },
+    phaseBalance: {
+      title: "توازن الأطوار",
+      noBoards: "لا توجد لوحات توزيع بدوائر خارجة في هذه الصفحة.",
+      imbalance: "عدم التوازن",
+      unassigned: "حمل أحادي الطور بدون طور",
+      suggestions: "التوزيع المقترح",
+      apply: "تطبيق"
+    },
+    voltageDrop: {
+      title: "هبوط الجهد",
+      limit: "الحد",
+      exceeding: "تتجاوز الحد",
+      noLoads: "لا توجد أحمال في هذه الصفحة.",
+      load: "الحمل",
+      source: "المصدر",
+      length: "طول الكابل",
+      current: "التيار",
+      missingCableData: "بعض الوصلات في المسار بدون مقطع أو طول كابل وتُحتسب بهبوط صفري."
+    },
+    coordination: {
+      title: "دراسة الانتقائية",
+      selectLink: "اختر وصلة تغذي قاطعًا يعلوه قاطع آخر، ولكليهما قيمة تيار.",
+      verdicts: { total: "انتقائية كاملة", partial: "انتقائية جزئية", none: "لا توجد انتقائية" },
+      checkedUpTo: "تم الفحص حتى",
+      current: "التيار",
+      time: "الزمن",
+      upstream: "القاطع الأعلى",
+      downstream: "القاطع الأدنى",
+      faultLevel: "تيار القصر المتوقع"
+    },
+    panelSchedule: {
+      title: "جدول اللوحة",
+      noBoards: "لا توجد لوحات توزيع في هذه الصفحة.",
+      columns: { ways: "المخرج", circuit: "الدائرة", rating: "القيمة", poles: "الأقطاب", phase: "الطور", load: "الحمل (kVA)", current: "التيار (A)", description: "الوصف" },
+      spare: "احتياطي",
+      spareWays: "مخارج احتياطية",
+      total: "المجموع",
+      print: "طباعة",
+      printAll: "طباعة كل اللوحات"
+    },
+    bom: {
+      title: "قائمة المواد",
+      scopes: { page: "هذه الصفحة", project: "المشروع بالكامل" },
+      equipment: "المعدات",
+      cables: "الكابلات",
+      empty: "لا توجد عناصر.",
+      withoutLength: "وصلات بدون طول",
+      columns: { type: "النوع", model: "الطراز", rating: "القيمة", quantity: "الكمية", references: "أرقام المكونات", cable: "الكابل", runs: "الوصلات", length: "الطول الإجمالي (م)" }
+    },
+    revisions: {
+      title: "الإصدارات",
+      label: "إصدار {name}",
+      current: "المخطط الحالي",
+      create: "إصدار مراجعة",
+      name: "الإصدار",
+      none: "لم يتم إصدار أي مراجعات بعد.",
+      delete: "حذف الإصدار",
+      from: "من",
+      to: "إلى",
+      noChanges: "لا توجد تغييرات بين هذين الإصدارين.",
+      showOnDiagram: "عرض على المخطط",
+      comparing: "مقارنة {from} ← {to}",
+      exitCompare: "إنهاء المقارنة",
+      changeList: "قائمة تغييرات الإصدار",
+      feed: "التغذية من",
+      summary: "{count} تغيير",
+      kinds: { added: "مضاف", removed: "محذوف", moved: "منقول", changed: "معدّل", rerouted: "أعيد توجيهه" },
+      columns: { page: "الصفحة", component: "المكون", change: "التغيير", details: "التفاصيل" },
+      fields: {
+        name: "الاسم", componentNumber: "رقم المكون", type: "النوع", model: "الطراز", amps: "أمبير", voltage: "الجهد",
+        kva: "kVA", phaseType: "نوع التغذية", phase: "الطور", breakingCapacity: "قدرة القطع (kA)",
+        impedancePercent: "المعاوقة (%Z)", faultLevel: "مستوى القصر (MVA)", tripSettings: "إعدادات الفصل",
+        cableSize: "مقطع الكابل", cable: "الكابل"
+      }
+    },
+    merge: {
+      title: "دمج في {name}",
+      ancestor: "تتم مقارنة التغييرات مع {name}، آخر إصدار مشترك بين النسختين.",
+      noAncestor: "لا يوجد إصدار مشترك بين النسختين. ما يوجد في نسخة واحدة فقط يُضاف، ويعتبر كل اختلاف آخر تعارضًا.",
+      summary: "تم دمج {merged} تغيير تلقائيًا، و{conflicts} تعارض بحاجة إلى حل.",
+      noConflicts: "لا توجد تعارضات. يمكن دمج التغييرات المستوردة كما هي.",
+      allOurs: "الإبقاء على الكل من هذه النسخة",
+      allTheirs: "أخذ الكل من الملف المستورد",
+      ours: "هذه النسخة",
+      theirs: "الملف المستورد",
+      base: "قبل",
+      placement: "الموقع في الشجرة",
+      annotation: "ملاحظة",
+      deletedByUs: "محذوف هنا، ومعدّل في الملف المستورد",
+      deletedByThem: "معدّل هنا، ومحذوف في الملف المستورد",
+      deleted: "محذوف",
+      importCopy: "استيراد كنسخة",
+      confirm: "دمج"
     },
     dialogs: {
       deleteProjectTitle: "حذف المشروع؟",
@@ -643,6 +1434,7 @@ export const translations = {
       deleteProject: "Are you sure you want to delete this entire project?",
       deleteNode: "هل أنت متأكد من حذف هذا المكون وكل ما يتصل به؟",
       reset: "إعادة تعيين كل شيء للافتراضي؟ ستفقد جميع التغييرات غير المحفوظة.",
+      clearAnnotations: "حذف جميع الملاحظات في هذه الصفحة؟",
       detach: "فصل هذا المكون؟ سيتم نقله إلى مستوى شبكة المرافق.",
       rootMove: "لا يمكن نقل جذر النظام، فقط الاتصال به.",
       cycle: "لا يمكن توصيل مكون بتابعه (تم اكتشاف دورة).",
@@ -657,14 +1449,16 @@ export const translations = {
         svg: "صورة متجهة (SVG)",
         png: "صورة (PNG)",
         json: "بيانات المشروع (JSON)",
-        excel: "جدول بيانات (CSV/Excel)",
+        excel: "جدول بيانات (XLSX)",
+        csv: "بيانات الصفحة (CSV)",
         pdf: "مستند (PDF)"
       },
       desc: {
         svg: "الأفضل للطباعة عالية الجودة والتحرير.",
         png: "الأفضل للمشاركة على وسائل التواصل الاجتماعي.",
         json: "حفظ بيانات المشروع للنسخ الاحتياطي.",
-        excel: "تصدير قائمة المكونات والبيانات إلى Excel/CSV.",
+        excel: "ورقة لكل صفحة مع معرفات الأصل. يمكن تعديلها واستيرادها مجددًا.",
+        csv: "جميع حقول الصفحة الحالية حسب المعرف. عدّلها في جدول بيانات واستوردها مجددًا.",
         pdf: "طباعة المخطط إلى مستند PDF."
       }
     },
@@ -683,10 +1477,42 @@ export const translations = {
       place: "المكان",
       building: "المبنى",
       floor: "الطابق",
+      id: "المعرف",
+      parentId: "معرف الأصل",
+      phaseType: "نوع التغذية",
+      phase: "الطور",
+      cableSize: "مقاس الكابل",
       yes: "نعم",
       no: "لا",
       na: "غير متاح"
     },
+    spreadsheetImport: {
+      success: "تم استيراد {pages} صفحة من جدول البيانات.",
+      failed: "تعذرت قراءة جدول البيانات. تأكد من أنه ملف xlsx.",
+      empty: "لم يتم العثور على ورقة تحتوي على عمود الاسم أو النوع.",
+      issuesTitle: "بعض الصفوف تحتاج إلى مراجعة:",
+      moreIssues: "...و{count} أخرى.",
+      issues: {
+        noHeader: "لا يوجد عمود اسم أو نوع، تم تخطي الورقة",
+        missingName: "الاسم فارغ",
+        unknownType: "نوع غير معروف، تم استيراده كحمل",
+        duplicateId: "معرف مكرر، يتم ربط الفروع بالصف الأول",
+        missingParent: "الأصل غير موجود، تم استيراده كجذر",
+        ambiguousParent: "عدة صفوف تحمل اسم الأصل، تم الربط بأقربها في الأعلى",
+        cycle: "حلقة أصول، تم استيراده كجذر",
+        invalidValue: "تعذرت قراءة القيمة وتم تخطيها",
+        missingConnection: "تمت إزالة اتصال إضافي بمعرف غير معروف"
+      }
+    },
+    csvImport: {
+      title: "استيراد CSV",
+      pageName: "اسم الصفحة",
+      summary: "{nodes} مكونات في {roots} شجرة.",
+      noIssues: "تم التعرف على جميع الأصول.",
+      empty: "لم يتم العثور على مكونات في الملف.",
+      confirm: "إضافة كصفحة جديدة",
+      replace: "تحديث \"{page}\""
+    },
     about: {
       title: "عن VoltGraph AI",
       version: "الإصدار 1.0.0",
@@ -716,7 +1542,30 @@ export const translations = {
         enable: "تمكين الرسم",
         disable: "تعطيل الرسم",
         clear: "مسح الكل",
-        color: "لون الحبر"
+        color: "لون الحبر",
+        delete: "حذف التعليق",
+        textPrompt: "نص الملاحظة:",
+        show: "إظهار التعليقات عند الطباعة",
+        hide: "إخفاء التعليقات عند الطباعة",
+        tools: { select: "تحديد / نقل", freehand: "رسم حر", text: "ملاحظة نصية", cloud: "سحابة مراجعة", arrow: "سهم", rect: "مستطيل" }
+    },
+    offPage: {
+      target: "يستمر إلى",
+      noTarget: "لم يتم اختيار هدف",
+      missing: "الهدف غير موجود",
+      goTo: "انتقل إلى الهدف",
+      continuesTo: "→ {page} / {name}",
+      fedFrom: "← {page} / {name}"
+    },
+    search: {
+      results: "{count} نتيجة في جميع المشاريع",
+      more: "عرض أول {shown}",
+      none: "لا توجد مكونات مطابقة",
+      thisPage: "هذه الصفحة"
+    },
+    minimap: {
+      show: "إظهار الخريطة المصغرة",
+      hide: "إخفاء الخريطة المصغرة"
     }
   }
 };
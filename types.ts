@@ -8,20 +8,61 @@ export enum ComponentType {
   SWITCH = 'SWITCH',
   LOAD = 'LOAD',
   GENERATOR = 'GENERATOR',
-  UPS = 'UPS'
+  UPS = 'UPS',
+  OFF_PAGE_CONNECTOR = 'OFF_PAGE_CONNECTOR',
+  FUSE = 'FUSE'
+}
+
+// A corner an orthogonal link is routed through, placed by dragging its
+// segments. It is kept relative to where the link leaves its source, along
+// and across the direction the tree grows, so it follows the link when the
+// layout shifts or the orientation changes.
+export interface LinkWaypoint {
+  along: number;
+  across: number;
 }
 
 export interface ConnectionStyle {
   strokeColor?: string;
   lineStyle?: 'solid' | 'dashed' | 'dotted' | 'dash-dot' | 'long-dash';
   lineType?: 'straight' | 'orthogonal'; // New: Choose between straight or 90-degree lines
+  waypoints?: LinkWaypoint[];
   startMarker?: 'none' | 'arrow' | 'circle' | 'diamond';
   endMarker?: 'none' | 'arrow' | 'circle' | 'diamond';
   cableSize?: string; // Cable size text (e.g., "4x25mm")
+  cable?: CableData; // Structured cable properties used by the calculations
+}
+
+export type ConductorMaterial = 'copper' | 'aluminium';
+
+export type InstallationMethod = 'conduit' | 'tray' | 'air' | 'buried';
+
+export interface CableData {
+  material?: ConductorMaterial;
+  crossSection?: number; // mm² per phase conductor
+  cores?: number;
+  length?: number; // m
+  installationMethod?: InstallationMethod;
 }
 
 export type NodeShape = 'rectangle' | 'circle' | 'square';
 
+export type PhaseType = 'single' | 'three';
+
+export type PhaseConductor = 'L1' | 'L2' | 'L3';
+
+export type TripCurveType = 'B' | 'C' | 'D' | 'electronic';
+
+export interface TripSettings {
+  curve: TripCurveType;
+  // Electronic (LSI) release settings, ignored for thermal-magnetic curves
+  longTimePickup?: number; // Ir as a multiple of In
+  longTimeDelay?: number; // tr in seconds at 6 x Ir
+  shortTimePickup?: number; // Isd as a multiple of Ir
+  shortTimeDelay?: number; // tsd in seconds
+  instantaneousPickup?: number; // Ii as a multiple of In
+}
+
 export interface ElectricalNode {
   id: string;
   name: string;
@@ -31,6 +72,12 @@ export interface ElectricalNode {
   amps?: number;
   voltage?: number; // Volts
   kva?: number; // Kilovolt-Amperes
+  phaseType?: PhaseType; // Single or three-phase supply
+  phase?: PhaseConductor; // Conductor a single-phase item is connected to
+  impedancePercent?: number; // Transformer short-circuit impedance (%Z)
+  faultLevel?: number; // Utility fault level at the point of supply (MVA), SYSTEM_ROOT only
+  breakingCapacity?: number; // Breaker rated breaking capacity (kA)
+  tripSettings?: TripSettings; // Breaker release characteristic
   description?: string;
   
   // Location Info
@@ -57,6 +104,12 @@ export interface ElectricalNode {
   isAirConditioning?: boolean; // New: A/C Breaker
   isReserved?: boolean; // New: Reserved Breaker
 
+  // Off-page connector: ID of the node it continues to on another page of the project
+  offPageTarget?: string;
+
+  // Boards and the system root: draw a busbar the children hang from instead of separate links
+  busbar?: boolean;
+
   // Calculated Property (Recursive Load)
   calculatedLoad?: {
     amps: number;
@@ -69,6 +122,7 @@ export interface ElectricalNode {
 
   children: ElectricalNode[];
   extraConnections?: string[]; // IDs of additional upstream parents (visual connections)
+  extraConnectionRoutes?: Record<string, LinkWaypoint[]>; // Waypoints of those connections, by upstream ID
   connectionStyle?: ConnectionStyle; // Style of the link coming INTO this node
   isCollapsed?: boolean; // View state: Hide children
 }
@@ -81,6 +135,12 @@ export interface NewNodeData {
   amps?: number;
   voltage?: number;
   kva?: number;
+  phaseType?: PhaseType;
+  phase?: PhaseConductor;
+  impedancePercent?: number;
+  faultLevel?: number;
+  breakingCapacity?: number;
+  tripSettings?: TripSettings;
   description?: string;
   
   // Location Info
@@ -99,12 +159,29 @@ export interface NewNodeData {
   generatorName?: string;
   isAirConditioning?: boolean;
   isReserved?: boolean;
+  offPageTarget?: string;
+  busbar?: boolean;
+}
+
+export type AnnotationKind = 'freehand' | 'text' | 'cloud' | 'arrow' | 'rect';
+
+export interface Annotation {
+  id: string;
+  kind: AnnotationKind;
+  color: string;
+  points?: [number, number][]; // freehand stroke, in diagram coordinates
+  x?: number; // text anchor, or start corner / tail of a shape
+  y?: number;
+  x2?: number; // opposite corner / arrow head
+  y2?: number;
+  text?: string;
 }
 
 export interface Page {
   id: string;
   name: string;
   items: ElectricalNode[]; // Changed from rootNode to items array to support multiple disconnected trees
+  annotations?: Annotation[]; // Markup drawn over the diagram
 }
 
 export interface PrintMetadata {
@@ -113,15 +190,36 @@ export interface PrintMetadata {
   date: string;
   revision: string;
   organization: string;
+  showAnnotations?: boolean; // Print annotations with the drawing (default true)
+}
+
+export interface CalculationSettings {
+  voltageDropLimit: number; // % of nominal voltage, source to load
+  ambientTemperature: number; // °C, used to derate cable ampacity
+  groupingFactor: number; // Derating for cables run together (0-1)
+}
+
+export interface Revision {
+  id: string;
+  name: string; // Revision letter or label as issued, e.g. "A"
+  createdAt: number;
+  pages: Page[]; // Snapshot of the project's pages when the revision was issued
 }
 
 export interface Project {
   id: string;
   name: string;
+  schemaVersion?: number; // Shape of the saved data, see services/projectSchema
   pages: Page[];
   printMetadata?: PrintMetadata;
+  calculationSettings?: CalculationSettings;
+  revisions?: Revision[];
+  symbolLibrary?: SymbolLibrary; // How nodes are drawn on screen and in exports (default cards)
 }
 
+// Cards with icons, or the single-line symbols of IEC 60617 / ANSI Y32.2
+export type SymbolLibrary = 'cards' | 'iec' | 'ansi';
+
 export interface AnalysisResult {
   status: 'safe' | 'warning' | 'danger';
   summary: string;